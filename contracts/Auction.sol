@@ -1,95 +1,730 @@
 // SPDX-License-Identifier: UNLICENSED
 pragma solidity ^0.8.28;
 
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155Receiver.sol";
+import "@openzeppelin/contracts/interfaces/IERC2981.sol";
+import "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
 
-contract Auction {
-    // State variables
-    address public immutable owner; 
-    uint public immutable auctionEndTime; 
+contract Auction is IERC1155Receiver, EIP712, Nonces {
+    using SafeERC20 for IERC20;
+
+    uint private constant BPS_DENOMINATOR = 10_000;
+    bytes32 private constant BID_TYPEHASH =
+        keccak256("Bid(address bidder,uint256 amount,uint256 nonce,uint256 deadline)");
+
+    enum ItemStandard { None, ERC721, ERC1155 }
+
+    // Token sold by the auction and held in escrow until it ends
+    struct Item {
+        ItemStandard standard;
+        address token;
+        uint tokenId;
+        uint amount;            // Always 1 for ERC-721
+    }
+
+    struct AuctionConfig {
+        uint duration;          // Seconds from the start until the auction ends
+        uint bonusBps;          // Outbid bonus in basis points of the new bid
+        uint startingPrice;     // Minimum first bid
+        uint reservePrice;      // Lowest winning bid the owner will accept
+        uint minIncrement;      // Minimum raise over the highest bid, in wei
+        uint minIncrementBps;   // Minimum raise over the highest bid, in basis points
+        uint extensionWindow;   // Bids this many seconds before the end extend it, 0 disables
+        uint extensionDuration; // Seconds each such bid adds to the end time
+        uint maxExtension;      // Cap on the total extension in seconds, 0 for no cap
+        Item item;              // Escrowed item, standard None for an ETH-only auction
+        address paymentToken;   // ERC-20 that bids are paid in, zero address for ETH
+        uint emergencyDelay;    // Seconds paused, or unsettled after the end, before bidders can exit; 0 disables
+        address beneficiary;    // Receives the sale proceeds, zero address for the owner
+        address feeRecipient;   // Receives feeBps of the winning bid
+        uint feeBps;            // Fee on the winning bid in basis points
+        uint keeperRewardBps;   // Reward for whoever calls settle(), in basis points of the winning bid
+        uint maxKeeperReward;   // Cap on the keeper reward
+        uint maxRoyaltyBps;     // Cap on the item's ERC-2981 royalty in basis points of the winning bid, 0 pays none
+        uint startTime;         // When bidding opens, 0 to open at deployment
+        bytes32 allowlistRoot;  // Merkle root of the bidders allowed to bid and their caps, zero for open bidding
+    }
+
+    // How the winning bid is divided when the auction is paid out
+    struct ProceedsSplit {
+        uint sale;              // Winning bid being paid out
+        uint fee;               // Sent to feeRecipient
+        address royaltyReceiver; // Creator named by the item's ERC-2981 royaltyInfo
+        uint royalty;           // Sent to royaltyReceiver
+        uint keeperReward;      // Sent to the caller of settle()
+        uint sellerProceeds;    // Sent to the beneficiary, or the owner
+    }
+
+    // A bid signed by its bidder as EIP-712 typed data, for a relayer to submit
+    struct SignedBid {
+        address bidder;
+        uint amount;
+        uint nonce;             // The bidder's next nonce, from nonces()
+        uint deadline;          // Last timestamp the signature can be used at
+    }
+
+    // One entry of the bid history
+    struct BidRecord {
+        address bidder;
+        uint amount;
+        uint timestamp;
+    }
+
+    // Everything a UI needs to render the auction in a single call
+    struct AuctionInfo {
+        address owner;
+        address highestBidder;
+        uint highestBid;
+        uint minimumNextBid;
+        uint bidCount;
+        uint startTime;
+        uint endTime;
+        uint maxEndTime;        // 0 when extensions are uncapped
+        bool ended;
+        bool paused;
+        bool cancelled;
+        bool settled;
+        uint bonusBps;
+        uint bonusReserve;
+        uint totalPendingReturns;
+        uint startingPrice;
+        uint reservePrice;
+        uint minIncrement;
+        uint minIncrementBps;
+        uint extensionWindow;
+        uint extensionDuration;
+        Item item;
+        address paymentToken;   // Zero address for ETH
+        uint emergencyDelay;
+        address beneficiary;
+        address feeRecipient;
+        uint feeBps;
+        uint keeperRewardBps;
+        uint maxKeeperReward;
+        uint maxRoyaltyBps;
+        bytes32 allowlistRoot;
+    }
+
+    // State variables. Nothing is immutable so that minimal-proxy clones,
+    // which never run the constructor, can be set up through initialize().
+    address public owner; 
+    address public pendingOwner;
+    uint public startTime;
+    uint public auctionEndTime; 
+    uint public bonusBps;
+    uint public startingPrice;
+    uint public reservePrice;
+    uint public minIncrement;
+    uint public minIncrementBps;
+    uint public extensionWindow;
+    uint public extensionDuration;
+    uint public maxEndTime;
+    Item public item;
+    IERC20 public paymentToken;
+    address public itemClaimant;
     address public highestBidder; 
     uint public highestBid; 
+    // The highest bidder's deposit: their proxy maximum, or their bid when
+    // they bid manually. Kept private so the maximum isn't served by a getter.
+    uint private leaderMax;
     bool public auctionEnded;
+    bool public cancelled;
     bool public paused; 
+    uint public pausedAt;
+    uint public emergencyDelay;
+    bool public emergencyExited;
+    address public beneficiary;
+    address public feeRecipient;
+    uint public feeBps;
+    uint public keeperRewardBps;
+    uint public maxKeeperReward;
+    uint public maxRoyaltyBps;
+    bool public settled;
+    bytes32 public allowlistRoot;
+    bool private initialized;
 
+    mapping(address => bool) public operators;
     mapping(address => uint) public bids; 
+    mapping(address => uint) public pendingReturns;
+    mapping(address => uint) public bidCountOf;
+    mapping(address => uint) public totalContributed;
+    // Root each bidder proved their place under, and the cap it gave them
+    mapping(address => bytes32) private allowlistedUnder;
+    mapping(address => uint) public bidCap;
+    BidRecord[] private bidHistory;
+    uint public totalPendingReturns;
+    uint public bonusReserve;
 
     // Events
     event AuctionInitialized(address indexed owner, uint duration, uint endTime);
     event NewBid(address indexed bidder, uint amount);
-    event Refund(address indexed bidder, uint refundAmount);
+    event Refund(address indexed bidder, uint refundAmount, uint bonus);
+    event RefundWithdrawn(address indexed bidder, uint amount);
     event AuctionEnded(address indexed winner, uint winningBid);
     event FundsWithdrawn(address indexed owner, uint amount);
     event AuctionPaused(bool paused);
+    event BonusReserveFunded(address indexed funder, uint amount, uint newReserve);
+    event ReserveNotMet(address indexed bidder, uint highestBid, uint reservePrice);
+    event AuctionExtended(uint newEndTime);
+    event ItemEscrowed(address indexed token, uint tokenId, uint amount);
+    event ItemDelivered(address indexed recipient, address indexed token, uint tokenId, uint amount);
+    event ItemDeliveryFailed(address indexed recipient);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event OperatorUpdated(address indexed operator, bool enabled);
+    event AuctionCancelled(address indexed refundedBidder, uint refundAmount);
+    event EmergencyExitActivated(address indexed refundedBidder, uint refundAmount);
+    event FeePaid(address indexed feeRecipient, uint amount);
+    event AuctionSettled(address indexed keeper, uint keeperReward);
+    event RoyaltyPaid(address indexed receiver, uint amount);
+    event PaymentCredited(address indexed recipient, uint amount);
+    event AllowlistUpdated(bytes32 root);
+    event AllowlistJoined(address indexed bidder, uint cap);
+    event Deposited(address indexed bidder, address indexed from, uint amount);
+    event SignedBidRelayed(address indexed bidder, address indexed relayer, uint nonce);
+    event ProceedsDistributed(
+        uint sale,
+        uint fee,
+        address indexed royaltyReceiver,
+        uint royalty,
+        uint keeperReward,
+        uint sellerProceeds
+    );
+
+    // Errors
+    error ReserveBelowStartingPrice(uint reservePrice, uint startingPrice);
+    error BidBelowStartingPrice(uint amount, uint startingPrice);
+    error BidIncrementTooLow(uint amount, uint minimumBid);
+    error AlreadyInitialized();
+    error InvalidItem();
+    error UnexpectedTokenTransfer();
+    error EmergencyExitUnavailable();
+    error EmergencyExitAvailable();
+    error InvalidOwner();
+    error InvalidDuration();
+    error BonusTooHigh(uint bonusBps);
+    error SplitTooHigh(uint feeBps, uint keeperRewardBps, uint maxRoyaltyBps);
+    error InvalidFeeRecipient();
+    error InvalidOperator();
+    error AuctionHasEnded(uint endTime);
+    error AuctionStillRunning(uint endTime);
+    error AuctionNotEnded();
+    error AuctionAlreadyEnded();
+    error AuctionAlreadySettled();
+    error AuctionIsPaused();
+    error NotOwner(address caller);
+    error NotOwnerOrOperator(address caller);
+    error NotPendingOwner(address caller);
+    error PaidInTokens(address paymentToken);
+    error PaidInEther();
+    error BidNotHigher(uint amount, uint highestBid);
+    error ZeroReserveFunding();
+    error NoItemToClaim();
+    error NoRefundAvailable();
+    error RefundFailed(address bidder, uint amount);
+    error TransferFailed(address recipient, uint amount);
+    error InvalidStartTime(uint startTime);
+    error AuctionNotStarted(uint startTime);
+    error NotAllowlisted(address bidder);
+    error InvalidAllowlistProof();
+    error AllowlistLocked();
+    error BidAboveCap(uint amount, uint cap);
+    error SignatureExpired(uint deadline);
+    error InvalidSignature();
+    error InsufficientDeposit(uint amount, uint available);
 
     // Modifiers
+    modifier onlyAfterStart() {
+        if (block.timestamp < startTime) {
+            revert AuctionNotStarted(startTime);
+        }
+        _;
+    }
+
     modifier onlyBeforeEnd() {
-        require(block.timestamp < auctionEndTime, "Auction has ended");
+        if (block.timestamp >= auctionEndTime) {
+            revert AuctionHasEnded(auctionEndTime);
+        }
         _;
     }
 
     modifier onlyAfterEnd() {
-        require(block.timestamp >= auctionEndTime, "Auction has not ended");
+        if (block.timestamp < auctionEndTime) {
+            revert AuctionStillRunning(auctionEndTime);
+        }
         _;
     }
 
     modifier onlyOwner() {
-        require(msg.sender == owner, "Only owner can call this function");
+        if (msg.sender != owner) {
+            revert NotOwner(msg.sender);
+        }
+        _;
+    }
+
+    modifier onlyOwnerOrOperator() {
+        if (msg.sender != owner && !operators[msg.sender]) {
+            revert NotOwnerOrOperator(msg.sender);
+        }
         _;
     }
 
     modifier whenNotPaused() {
-        require(!paused, "Auction is paused");
+        if (paused) {
+            revert AuctionIsPaused();
+        }
+        _;
+    }
+
+    modifier onlyAllowlisted() {
+        _checkAllowlisted(msg.sender);
+        _;
+    }
+
+    modifier onlyEther() {
+        if (address(paymentToken) != address(0)) {
+            revert PaidInTokens(address(paymentToken));
+        }
+        _;
+    }
+
+    modifier onlyToken() {
+        if (address(paymentToken) == address(0)) {
+            revert PaidInEther();
+        }
         _;
     }
 
   
-    constructor(uint _durationInSeconds) {
-        require(_durationInSeconds > 0, "Duration must be greater than zero");
+    // The EIP-712 domain is rebuilt for each clone's own address, and
+    // includes the chain ID so signatures can't be replayed on another chain
+    constructor(AuctionConfig memory _config) EIP712("Auction", "1") {
+        _initialize(msg.sender, _config);
+    }
 
-        owner = msg.sender;
-        auctionEndTime = block.timestamp + _durationInSeconds;
+    // Sets up a clone created by AuctionFactory. Contracts deployed directly
+    // are initialized by their constructor and reject this call.
+    function initialize(address _owner, AuctionConfig calldata _config) external {
+        _initialize(_owner, _config);
+    }
+
+    function _initialize(address _owner, AuctionConfig memory _config) private {
+        if (initialized) {
+            revert AlreadyInitialized();
+        }
+        initialized = true;
+
+        if (_owner == address(0)) {
+            revert InvalidOwner();
+        }
+        if (_config.duration == 0) {
+            revert InvalidDuration();
+        }
+        if (_config.bonusBps > BPS_DENOMINATOR) {
+            revert BonusTooHigh(_config.bonusBps);
+        }
+        if (_config.feeBps + _config.keeperRewardBps + _config.maxRoyaltyBps > BPS_DENOMINATOR) {
+            revert SplitTooHigh(_config.feeBps, _config.keeperRewardBps, _config.maxRoyaltyBps);
+        }
+        if (_config.feeBps != 0 && _config.feeRecipient == address(0)) {
+            revert InvalidFeeRecipient();
+        }
+        if (_config.reservePrice != 0 && _config.reservePrice < _config.startingPrice) {
+            revert ReserveBelowStartingPrice(_config.reservePrice, _config.startingPrice);
+        }
+        if (_config.startTime != 0 && _config.startTime < block.timestamp) {
+            revert InvalidStartTime(_config.startTime);
+        }
+
+        owner = _owner;
+        startTime = _config.startTime != 0 ? _config.startTime : block.timestamp;
+        auctionEndTime = startTime + _config.duration;
+        bonusBps = _config.bonusBps;
+        startingPrice = _config.startingPrice;
+        reservePrice = _config.reservePrice;
+        minIncrement = _config.minIncrement;
+        minIncrementBps = _config.minIncrementBps;
+        extensionWindow = _config.extensionWindow;
+        extensionDuration = _config.extensionDuration;
+        maxEndTime = _config.maxExtension > 0 ? auctionEndTime + _config.maxExtension : 0;
+        paymentToken = IERC20(_config.paymentToken);
+        emergencyDelay = _config.emergencyDelay;
+        beneficiary = _config.beneficiary;
+        feeRecipient = _config.feeRecipient;
+        feeBps = _config.feeBps;
+        keeperRewardBps = _config.keeperRewardBps;
+        maxKeeperReward = _config.maxKeeperReward;
+        maxRoyaltyBps = _config.maxRoyaltyBps;
+        allowlistRoot = _config.allowlistRoot;
+
+        emit AuctionInitialized(owner, _config.duration, auctionEndTime);
 
-        emit AuctionInitialized(owner, _durationInSeconds, auctionEndTime);
+        _escrowItem(_owner, _config.item);
     }
 
-    function bid() public payable onlyBeforeEnd whenNotPaused {
-        require(msg.value > highestBid, "Bid must be higher than current highest bid");
+    function bid() public payable onlyAfterStart onlyBeforeEnd whenNotPaused onlyAllowlisted onlyEther {
+        _placeBid(msg.sender, msg.value);
+    }
 
-        // Refund previous highest bidder with 10% bonus
-        if (highestBidder != address(0)) {
-            uint refundAmount = bids[highestBidder] + (msg.value * 10) / 100;
-            (bool success, ) = payable(highestBidder).call{value: refundAmount}("");
-            require(success, "Refund failed");
-            emit Refund(highestBidder, refundAmount);
+    // ERC-20 bid. The bid is the amount the auction actually received, so
+    // fee-on-transfer tokens are accounted for correctly.
+    function bid(uint _amount) public onlyAfterStart onlyBeforeEnd whenNotPaused onlyAllowlisted onlyToken {
+        _placeBid(msg.sender, _pullTokens(msg.sender, _amount));
+    }
+
+    // ERC-20 bid that approves the auction through an EIP-2612 permit in the
+    // same transaction. A failed permit is ignored so that a permit front-run
+    // by someone else doesn't block the bid when the allowance is in place.
+    function bidWithPermit(uint _amount, uint _deadline, uint8 _v, bytes32 _r, bytes32 _s)
+        public
+        onlyAfterStart
+        onlyBeforeEnd
+        whenNotPaused
+        onlyAllowlisted
+        onlyToken
+    {
+        try IERC20Permit(address(paymentToken)).permit(msg.sender, address(this), _amount, _deadline, _v, _r, _s) {
+        } catch {}
+        _placeBid(msg.sender, _pullTokens(msg.sender, _amount));
+    }
+
+    // Deposits a maximum bid. The auction bids for the sender one increment
+    // above the competition until the maximum is reached; the unused part
+    // of the deposit is credited back when the auction ends.
+    function proxyBid() public payable onlyAfterStart onlyBeforeEnd whenNotPaused onlyAllowlisted onlyEther {
+        _placeProxyBid(msg.sender, msg.value);
+    }
+
+    function proxyBid(uint _maxAmount)
+        public
+        onlyAfterStart
+        onlyBeforeEnd
+        whenNotPaused
+        onlyAllowlisted
+        onlyToken
+    {
+        _placeProxyBid(msg.sender, _pullTokens(msg.sender, _maxAmount));
+    }
+
+    // Credits ETH to _bidder's balance, which signed bids are paid from.
+    // Deposits are held with refunds in pendingReturns, so whatever is not
+    // bid can be taken back with withdrawRefund().
+    function deposit(address _bidder) public payable onlyEther {
+        _creditDeposit(_bidder, msg.value);
+    }
+
+    function deposit(address _bidder, uint _amount) public onlyToken {
+        _creditDeposit(_bidder, _pullTokens(msg.sender, _amount));
+    }
+
+    // Places a bid signed by _bid.bidder and paid from their deposit. Anyone
+    // can submit it and pays the gas, so the bidder needs none.
+    function bidWithSignature(SignedBid calldata _bid, bytes calldata _signature)
+        public
+        onlyAfterStart
+        onlyBeforeEnd
+        whenNotPaused
+    {
+        _useSignature(_bid, _signature);
+
+        uint available = pendingReturns[_bid.bidder];
+        if (available < _bid.amount) {
+            revert InsufficientDeposit(_bid.amount, available);
         }
+        pendingReturns[_bid.bidder] = available - _bid.amount;
+        totalPendingReturns -= _bid.amount;
 
-        // Update highest bid and bidder
-        highestBidder = msg.sender;
-        highestBid = msg.value;
-        bids[msg.sender] = msg.value;
+        _placeBid(_bid.bidder, _bid.amount);
+    }
+
+    // Places a signed ERC-20 bid paid with tokens pulled from the bidder,
+    // approved by their EIP-2612 permit for _bid.amount. As in
+    // bidWithPermit(), a failed permit is ignored when the allowance is in place.
+    function bidWithSignature(
+        SignedBid calldata _bid,
+        bytes calldata _signature,
+        uint _permitDeadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) public onlyAfterStart onlyBeforeEnd whenNotPaused onlyToken {
+        _useSignature(_bid, _signature);
 
-        emit NewBid(msg.sender, msg.value);
+        try IERC20Permit(address(paymentToken)).permit(
+            _bid.bidder,
+            address(this),
+            _bid.amount,
+            _permitDeadline,
+            _v,
+            _r,
+            _s
+        ) {} catch {}
+        _placeBid(_bid.bidder, _pullTokens(_bid.bidder, _bid.amount));
+    }
+
+    // Proves the sender's place on the allowlist. Each leaf is the double
+    // hash of abi.encode(bidder, cap), as built by scripts/lib/allowlist.ts;
+    // a cap of 0 leaves the bidder's bids uncapped.
+    function joinAllowlist(uint _cap, bytes32[] calldata _proof) public {
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender, _cap))));
+        if (allowlistRoot == bytes32(0) || !MerkleProof.verifyCalldata(_proof, allowlistRoot, leaf)) {
+            revert InvalidAllowlistProof();
+        }
+        allowlistedUnder[msg.sender] = allowlistRoot;
+        bidCap[msg.sender] = _cap;
+
+        emit AllowlistJoined(msg.sender, _cap);
+    }
+
+    // Replaces the allowlist until the first bid. Bidders who joined under
+    // the old root have to join again; the zero root opens bidding to all.
+    function setAllowlistRoot(bytes32 _root) public onlyOwner {
+        if (bidHistory.length > 0) {
+            revert AllowlistLocked();
+        }
+        allowlistRoot = _root;
+        emit AllowlistUpdated(_root);
+    }
+
+    function isAllowlisted(address _bidder) public view returns (bool) {
+        return allowlistRoot == bytes32(0) || allowlistedUnder[_bidder] == allowlistRoot;
+    }
+
+    function _checkAllowlisted(address _bidder) private view {
+        if (!isAllowlisted(_bidder)) {
+            revert NotAllowlisted(_bidder);
+        }
+    }
+
+    // Checks the deadline, the signature and the bidder's allowlisting, and
+    // uses up the nonce so the signature can't be submitted twice. Contract
+    // wallets sign through ERC-1271.
+    function _useSignature(SignedBid calldata _bid, bytes calldata _signature) private {
+        if (block.timestamp > _bid.deadline) {
+            revert SignatureExpired(_bid.deadline);
+        }
+        _useCheckedNonce(_bid.bidder, _bid.nonce);
+
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(BID_TYPEHASH, _bid.bidder, _bid.amount, _bid.nonce, _bid.deadline))
+        );
+        if (!SignatureChecker.isValidSignatureNow(_bid.bidder, digest, _signature)) {
+            revert InvalidSignature();
+        }
+        _checkAllowlisted(_bid.bidder);
+
+        emit SignedBidRelayed(_bid.bidder, msg.sender, _bid.nonce);
+    }
+
+    function fundBonusReserve() public payable onlyOwner onlyEther {
+        _fundBonusReserve(msg.value);
+    }
+
+    function fundBonusReserve(uint _amount) public onlyOwner onlyToken {
+        _fundBonusReserve(_pullTokens(msg.sender, _amount));
     }
 
     function endAuction() public onlyAfterEnd {
-        require(!auctionEnded, "Auction already ended");
+        _endAuction();
+    }
+
+    // Ends the auction if needed and pays everyone out in one call. Anyone
+    // can settle, and the caller earns the keeper reward.
+    function settle() public onlyAfterEnd whenNotPaused {
+        if (settled) {
+            revert AuctionAlreadySettled();
+        }
+        if (!auctionEnded) {
+            _endAuction();
+        }
+        _payOut(msg.sender);
+    }
+
+    function _endAuction() private {
+        if (auctionEnded) {
+            revert AuctionAlreadyEnded();
+        }
+        if (emergencyExitAvailable()) {
+            revert EmergencyExitAvailable();
+        }
         auctionEnded = true;
 
+        // Whatever the winner's maximum did not use goes back to them
+        uint unused = leaderMax - highestBid;
+        if (unused > 0) {
+            pendingReturns[highestBidder] += unused;
+            totalPendingReturns += unused;
+            leaderMax = highestBid;
+            emit Refund(highestBidder, unused, 0);
+        }
+
+        // Below the reserve the auction settles with no winner and the top
+        // bidder reclaims their bid through withdrawRefund()
+        if (highestBidder != address(0) && highestBid < reservePrice) {
+            pendingReturns[highestBidder] += highestBid;
+            totalPendingReturns += highestBid;
+            emit ReserveNotMet(highestBidder, highestBid, reservePrice);
+
+            highestBidder = address(0);
+            highestBid = 0;
+            leaderMax = 0;
+        }
+
         emit AuctionEnded(highestBidder, highestBid);
+
+        _deliverItem(highestBidder != address(0) ? highestBidder : owner);
     }
 
-    function withdraw() public onlyAfterEnd onlyOwner {
-        require(auctionEnded, "Auction has not ended");
+    // Lets the recipient of an ERC-1155 item whose delivery was rejected in
+    // endAuction() take it to another address.
+    function claimItem(address _to) public {
+        if (itemClaimant == address(0) || msg.sender != itemClaimant) {
+            revert NoItemToClaim();
+        }
+        itemClaimant = address(0);
+
+        IERC1155(item.token).safeTransferFrom(address(this), _to, item.tokenId, item.amount, "");
+
+        emit ItemDelivered(_to, item.token, item.tokenId, item.amount);
+    }
+
+    function withdrawRefund() public {
+        uint amount = pendingReturns[msg.sender];
+        if (amount == 0) {
+            revert NoRefundAvailable();
+        }
+
+        pendingReturns[msg.sender] = 0;
+        totalPendingReturns -= amount;
+
+        if (!_sendFunds(msg.sender, amount)) {
+            revert RefundFailed(msg.sender, amount);
+        }
 
-        uint balance = address(this).balance;
-        (bool success, ) = payable(owner).call{value: balance}("");
-        require(success, "Withdrawal failed");
+        emit RefundWithdrawn(msg.sender, amount);
+    }
 
-        emit FundsWithdrawn(owner, balance);
+    function withdraw() public onlyAfterEnd onlyOwner whenNotPaused {
+        if (!auctionEnded) {
+            revert AuctionNotEnded();
+        }
+        _payOut(address(0));
+    }
+
+    // What settle() would pay its caller right now
+    function keeperReward() public view returns (uint) {
+        return getProceedsSplit().keeperReward;
+    }
+
+    // How settle() would divide the winning bid right now. withdraw() pays
+    // no keeper reward and adds it to the seller's proceeds instead.
+    function getProceedsSplit() public view returns (ProceedsSplit memory) {
+        if (settled || (!auctionEnded && highestBid < reservePrice)) {
+            return _split(0, true);
+        }
+        return _split(highestBid, true);
     }
 
    
-    function setPaused(bool _paused) public onlyOwner {
+    // Cancels the auction before it ends. The highest bid is credited back to
+    // its bidder, outbid bidders keep their pending refunds and the item goes
+    // back to the owner.
+    function cancelAuction() public onlyOwner {
+        if (auctionEnded) {
+            revert AuctionAlreadyEnded();
+        }
+        // Once the end time has passed, the highest bidder has won
+        if (block.timestamp >= auctionEndTime) {
+            revert AuctionHasEnded(auctionEndTime);
+        }
+        auctionEnded = true;
+        cancelled = true;
+        auctionEndTime = block.timestamp;
+
+        (address refundedBidder, uint refundAmount) = _refundHighestBid();
+        emit AuctionCancelled(refundedBidder, refundAmount);
+
+        _deliverItem(owner);
+    }
+
+    // Lets bidders recover their funds from an auction that has been paused
+    // for longer than emergencyDelay, or left unsettled that long after it
+    // ended. The first call voids the auction the same way as
+    // cancelAuction(), after which the owner can only withdraw what is left
+    // of the bonus reserve.
+    function emergencyWithdraw() public {
+        if (!emergencyExited) {
+            if (!emergencyExitAvailable()) {
+                revert EmergencyExitUnavailable();
+            }
+            emergencyExited = true;
+            auctionEnded = true;
+            // Closes bidding for good, even if the owner resumes the auction
+            if (block.timestamp < auctionEndTime) {
+                auctionEndTime = block.timestamp;
+            }
+
+            (address refundedBidder, uint refundAmount) = _refundHighestBid();
+            emit EmergencyExitActivated(refundedBidder, refundAmount);
+
+            _deliverItem(owner);
+        }
+
+        withdrawRefund();
+    }
+
+    function emergencyExitAvailable() public view returns (bool) {
+        if (auctionEnded || emergencyDelay == 0) {
+            return false;
+        }
+        return (paused && block.timestamp >= pausedAt + emergencyDelay)
+            || block.timestamp >= auctionEndTime + emergencyDelay;
+    }
+
+    // Starts a two-step ownership transfer that the new owner completes with
+    // acceptOwnership(). Passing the zero address withdraws a pending offer.
+    function transferOwnership(address _newOwner) public onlyOwner {
+        pendingOwner = _newOwner;
+        emit OwnershipTransferStarted(owner, _newOwner);
+    }
+
+    function acceptOwnership() public {
+        if (msg.sender != pendingOwner) {
+            revert NotPendingOwner(msg.sender);
+        }
+
+        address previousOwner = owner;
+        owner = msg.sender;
+        pendingOwner = address(0);
+
+        emit OwnershipTransferred(previousOwner, msg.sender);
+    }
+
+    // Operators can pause and resume the auction alongside the owner
+    function setOperator(address _operator, bool _enabled) public onlyOwner {
+        if (_operator == address(0)) {
+            revert InvalidOperator();
+        }
+        operators[_operator] = _enabled;
+        emit OperatorUpdated(_operator, _enabled);
+    }
+
+    function setPaused(bool _paused) public onlyOwnerOrOperator {
+        // Resuming resets the clock for the emergency exit
+        if (!_paused) {
+            pausedAt = 0;
+        } else if (!paused) {
+            pausedAt = block.timestamp;
+        }
         paused = _paused;
         emit AuctionPaused(_paused);
     }
@@ -99,11 +734,502 @@ contract Auction {
         uint endTime,
         uint timeRemaining,
         bool isEnded,
-        bool isPaused
+        bool isPaused,
+        uint bonusRateBps,
+        uint remainingBonusReserve
     ) {
         endTime = auctionEndTime;
         timeRemaining = block.timestamp < auctionEndTime ? auctionEndTime - block.timestamp : 0;
         isEnded = auctionEnded;
         isPaused = paused;
+        bonusRateBps = bonusBps;
+        remainingBonusReserve = bonusReserve;
+    }
+
+    function getAuctionInfo() public view returns (AuctionInfo memory info) {
+        info.owner = owner;
+        info.highestBidder = highestBidder;
+        info.highestBid = highestBid;
+        info.minimumNextBid = minimumNextBid();
+        info.bidCount = bidHistory.length;
+        info.startTime = startTime;
+        info.endTime = auctionEndTime;
+        info.maxEndTime = maxEndTime;
+        info.ended = auctionEnded;
+        info.paused = paused;
+        info.cancelled = cancelled;
+        info.settled = settled;
+        info.bonusBps = bonusBps;
+        info.bonusReserve = bonusReserve;
+        info.totalPendingReturns = totalPendingReturns;
+        info.startingPrice = startingPrice;
+        info.reservePrice = reservePrice;
+        info.minIncrement = minIncrement;
+        info.minIncrementBps = minIncrementBps;
+        info.extensionWindow = extensionWindow;
+        info.extensionDuration = extensionDuration;
+        info.item = item;
+        info.paymentToken = address(paymentToken);
+        info.emergencyDelay = emergencyDelay;
+        info.beneficiary = beneficiary;
+        info.feeRecipient = feeRecipient;
+        info.feeBps = feeBps;
+        info.keeperRewardBps = keeperRewardBps;
+        info.maxKeeperReward = maxKeeperReward;
+        info.maxRoyaltyBps = maxRoyaltyBps;
+        info.allowlistRoot = allowlistRoot;
+    }
+
+    function bidCount() public view returns (uint) {
+        return bidHistory.length;
+    }
+
+    // Returns up to _limit bids starting at _offset, oldest first. An offset
+    // at or past the end returns an empty page.
+    function getBids(uint _offset, uint _limit) public view returns (BidRecord[] memory page) {
+        if (_offset >= bidHistory.length) {
+            return new BidRecord[](0);
+        }
+        uint count = bidHistory.length - _offset;
+        if (_limit < count) {
+            count = _limit;
+        }
+
+        page = new BidRecord[](count);
+        for (uint i = 0; i < page.length; i++) {
+            page[i] = bidHistory[_offset + i];
+        }
+    }
+
+    function getBidderInfo(address _bidder) public view returns (
+        uint placedBids,
+        uint totalContribution,
+        uint latestBid,
+        uint pendingRefund
+    ) {
+        placedBids = bidCountOf[_bidder];
+        totalContribution = totalContributed[_bidder];
+        latestBid = bids[_bidder];
+        pendingRefund = pendingReturns[_bidder];
+    }
+
+    // Pays out everything that is not owed to bidders. The winning bid is
+    // split between the fee, the royalty, any keeper reward and the
+    // beneficiary, and whatever is left of the bonus reserve goes to the
+    // owner. The winning bid is only paid once, so later calls just sweep
+    // anything sent since.
+    function _payOut(address _keeper) private {
+        bool firstPayOut = !settled;
+        uint proceeds = _balance() - totalPendingReturns;
+        ProceedsSplit memory split = _split(firstPayOut ? highestBid : 0, _keeper != address(0));
+        settled = true;
+        bonusReserve = 0;
+
+        address payee = beneficiary != address(0) ? beneficiary : owner;
+        uint payeeAmount = split.sellerProceeds;
+        uint ownerAmount = proceeds - split.sale;
+        if (payee == owner) {
+            payeeAmount += ownerAmount;
+            ownerAmount = 0;
+        }
+
+        if (split.fee > 0 && _payOrCredit(feeRecipient, split.fee)) {
+            emit FeePaid(feeRecipient, split.fee);
+        }
+        if (split.royalty > 0 && _payOrCredit(split.royaltyReceiver, split.royalty)) {
+            emit RoyaltyPaid(split.royaltyReceiver, split.royalty);
+        }
+        if (split.keeperReward > 0) {
+            _payOrRevert(_keeper, split.keeperReward);
+        }
+        _payOrRevert(payee, payeeAmount);
+        emit FundsWithdrawn(payee, payeeAmount);
+        if (ownerAmount > 0) {
+            _payOrRevert(owner, ownerAmount);
+            emit FundsWithdrawn(owner, ownerAmount);
+        }
+
+        if (firstPayOut) {
+            emit ProceedsDistributed(
+                split.sale,
+                split.fee,
+                split.royaltyReceiver,
+                split.royalty,
+                split.keeperReward,
+                split.sellerProceeds
+            );
+        }
+        if (_keeper != address(0)) {
+            emit AuctionSettled(_keeper, split.keeperReward);
+        }
+    }
+
+    // The configured caps keep fee + royalty + keeper reward within the
+    // sale, so the seller's share never underflows and nothing is left over.
+    function _split(uint _sale, bool _withKeeperReward) private view returns (ProceedsSplit memory split) {
+        split.sale = _sale;
+        split.fee = (_sale * feeBps) / BPS_DENOMINATOR;
+        (split.royaltyReceiver, split.royalty) = _royaltyFor(_sale);
+        if (_withKeeperReward) {
+            uint reward = (_sale * keeperRewardBps) / BPS_DENOMINATOR;
+            split.keeperReward = reward < maxKeeperReward ? reward : maxKeeperReward;
+        }
+        split.sellerProceeds = _sale - split.fee - split.royalty - split.keeperReward;
+    }
+
+    // Asks the item's token for an ERC-2981 royalty, capped at maxRoyaltyBps.
+    // Tokens that don't support the interface, or whose royaltyInfo reverts,
+    // pay no royalty rather than blocking the payout.
+    function _royaltyFor(uint _sale) private view returns (address receiver, uint amount) {
+        if (_sale == 0 || maxRoyaltyBps == 0 || item.standard == ItemStandard.None) {
+            return (address(0), 0);
+        }
+        if (!ERC165Checker.supportsInterface(item.token, type(IERC2981).interfaceId)) {
+            return (address(0), 0);
+        }
+        try IERC2981(item.token).royaltyInfo(item.tokenId, _sale) returns (address _receiver, uint _amount) {
+            if (_receiver == address(0)) {
+                return (address(0), 0);
+            }
+            uint cap = (_sale * maxRoyaltyBps) / BPS_DENOMINATOR;
+            return (_receiver, _amount < cap ? _amount : cap);
+        } catch {
+            return (address(0), 0);
+        }
+    }
+
+    function _balance() private view returns (uint) {
+        if (address(paymentToken) == address(0)) {
+            return address(this).balance;
+        }
+        return paymentToken.balanceOf(address(this));
+    }
+
+    // Sends ETH or payment tokens. Token transfers revert on failure, ETH
+    // transfers report it so callers can revert with their own reason.
+    function _sendFunds(address _to, uint _amount) private returns (bool success) {
+        if (address(paymentToken) == address(0)) {
+            (success, ) = payable(_to).call{value: _amount}("");
+        } else {
+            paymentToken.safeTransfer(_to, _amount);
+            success = true;
+        }
+    }
+
+    // Fee and royalty recipients that reject a payment have it credited to
+    // their pending returns instead, so they can't block the seller's
+    // payout. The royalty receiver is chosen by the item's token, not by
+    // anyone in the auction. Token payments are tried rather than sent, as a
+    // token may revert for a recipient it blocks.
+    function _payOrCredit(address _to, uint _amount) private returns (bool paid) {
+        paid = address(paymentToken) == address(0) ? _sendFunds(_to, _amount) : _tryTokenTransfer(_to, _amount);
+        if (!paid) {
+            pendingReturns[_to] += _amount;
+            totalPendingReturns += _amount;
+            emit PaymentCredited(_to, _amount);
+        }
+    }
+
+    // A token transfer that reports failure instead of reverting, whether the
+    // token reverts or returns false. Like safeTransfer, an empty return
+    // counts as success only from a contract.
+    function _tryTokenTransfer(address _to, uint _amount) private returns (bool) {
+        (bool success, bytes memory data) = address(paymentToken).call(
+            abi.encodeCall(IERC20.transfer, (_to, _amount))
+        );
+        return success && (data.length == 0 ? address(paymentToken).code.length > 0 : abi.decode(data, (bool)));
+    }
+
+    function _payOrRevert(address _to, uint _amount) private {
+        if (!_sendFunds(_to, _amount)) {
+            revert TransferFailed(_to, _amount);
+        }
+    }
+
+    // Credits the highest bidder's whole deposit back to them and clears the
+    // highest bid
+    function _refundHighestBid() private returns (address refundedBidder, uint refundAmount) {
+        refundedBidder = highestBidder;
+        refundAmount = leaderMax;
+        if (refundedBidder != address(0)) {
+            pendingReturns[refundedBidder] += refundAmount;
+            totalPendingReturns += refundAmount;
+            highestBidder = address(0);
+            highestBid = 0;
+            leaderMax = 0;
+        }
+    }
+
+    function _placeBid(address _bidder, uint _amount) private {
+        _checkBid(_amount);
+        _checkCap(_bidder, _amount);
+        totalContributed[_bidder] += _amount;
+
+        if (highestBidder != address(0) && highestBidder != _bidder && _amount <= leaderMax) {
+            _answerWithProxy(_bidder, _amount);
+        } else {
+            _takeLead(_bidder, _amount, _amount);
+        }
+
+        _extendIfSniped();
+    }
+
+    // A proxy bid from the highest bidder tops up their maximum without
+    // raising the price, unless the new maximum now covers the reserve.
+    function _placeProxyBid(address _bidder, uint _max) private {
+        if (highestBidder != address(0) && highestBidder == _bidder) {
+            if (_max == 0) {
+                revert BidNotHigher(leaderMax, leaderMax);
+            }
+            _checkCap(_bidder, leaderMax + _max);
+            totalContributed[_bidder] += _max;
+            leaderMax += _max;
+
+            uint price = _proxyPrice(highestBid, leaderMax);
+            if (price > highestBid) {
+                highestBid = price;
+                _recordBid(_bidder, price);
+                _extendIfSniped();
+            }
+            return;
+        }
+
+        _checkBid(_max);
+        _checkCap(_bidder, _max);
+        totalContributed[_bidder] += _max;
+
+        if (highestBidder == address(0)) {
+            _takeLead(_bidder, _proxyPrice(minimumNextBid(), _max), _max);
+        } else if (_max <= leaderMax) {
+            _answerWithProxy(_bidder, _max);
+        } else {
+            // The price is the second-highest maximum plus the increment
+            _takeLead(_bidder, _proxyPrice(_minimumAbove(leaderMax), _max), _max);
+        }
+
+        _extendIfSniped();
+    }
+
+    function _checkBid(uint _amount) private view {
+        if (_amount <= highestBid) {
+            revert BidNotHigher(_amount, highestBid);
+        }
+        if (highestBidder == address(0)) {
+            if (_amount < startingPrice) {
+                revert BidBelowStartingPrice(_amount, startingPrice);
+            }
+        } else if (_amount < minimumNextBid()) {
+            revert BidIncrementTooLow(_amount, minimumNextBid());
+        }
+    }
+
+    // Allowlisted bidders can't bid, or deposit a maximum, above their cap
+    function _checkCap(address _bidder, uint _amount) private view {
+        uint cap = bidCap[_bidder];
+        if (allowlistRoot != bytes32(0) && cap != 0 && _amount > cap) {
+            revert BidAboveCap(_amount, cap);
+        }
+    }
+
+    // Makes _bidder the highest bidder at _price with _deposit held for
+    // them.
+    function _takeLead(address _bidder, uint _price, uint _deposit) private {
+        // Credit previous highest bidder with their deposit plus a bonus.
+        // The refund is claimed through withdrawRefund() so a bidder that
+        // cannot receive payments can't block later bids. A leader raising
+        // their own bid was not outbid, so they get no bonus.
+        if (highestBidder != address(0)) {
+            uint bonus = highestBidder == _bidder ? 0 : _takeBonus(_price);
+            uint refundAmount = leaderMax + bonus;
+            pendingReturns[highestBidder] += refundAmount;
+            totalPendingReturns += refundAmount;
+            emit Refund(highestBidder, refundAmount, bonus);
+        }
+
+        // Update highest bid and bidder
+        highestBidder = _bidder;
+        highestBid = _price;
+        leaderMax = _deposit;
+        _recordBid(_bidder, _price);
+    }
+
+    // The highest bidder's maximum covers _bidder's bid of _amount, so
+    // their proxy answers it one increment higher, or at the maximum. On a
+    // tie the earlier bid keeps the lead. _bidder never led, so their bid
+    // is credited back without a bonus.
+    function _answerWithProxy(address _bidder, uint _amount) private {
+        _recordBid(_bidder, _amount);
+        pendingReturns[_bidder] += _amount;
+        totalPendingReturns += _amount;
+        emit Refund(_bidder, _amount, 0);
+
+        highestBid = _proxyPrice(_minimumAbove(_amount), leaderMax);
+        _recordBid(highestBidder, highestBid);
+    }
+
+    // The price a proxy bids: _price raised to the reserve when _max covers
+    // it, and never above _max.
+    function _proxyPrice(uint _price, uint _max) private view returns (uint) {
+        if (_price < reservePrice && _max >= reservePrice) {
+            _price = reservePrice;
+        }
+        return _price < _max ? _price : _max;
+    }
+
+    function _recordBid(address _bidder, uint _amount) private {
+        bids[_bidder] = _amount;
+        bidCountOf[_bidder] += 1;
+        bidHistory.push(BidRecord(_bidder, _amount, block.timestamp));
+
+        emit NewBid(_bidder, _amount);
+    }
+
+    function _creditDeposit(address _bidder, uint _amount) private {
+        if (auctionEnded) {
+            revert AuctionAlreadyEnded();
+        }
+        pendingReturns[_bidder] += _amount;
+        totalPendingReturns += _amount;
+
+        emit Deposited(_bidder, msg.sender, _amount);
+    }
+
+    function _fundBonusReserve(uint _amount) private {
+        if (auctionEnded) {
+            revert AuctionAlreadyEnded();
+        }
+        if (_amount == 0) {
+            revert ZeroReserveFunding();
+        }
+
+        bonusReserve += _amount;
+
+        emit BonusReserveFunded(msg.sender, _amount, bonusReserve);
+    }
+
+    // Pulls payment tokens from _from and returns how many arrived
+    function _pullTokens(address _from, uint _amount) private returns (uint received) {
+        uint balanceBefore = paymentToken.balanceOf(address(this));
+        paymentToken.safeTransferFrom(_from, address(this), _amount);
+        received = paymentToken.balanceOf(address(this)) - balanceBefore;
+    }
+
+    // ERC-1155 items only arrive while the auction is being set up: from the
+    // factory before initialize(), or pulled by the auction itself.
+    function onERC1155Received(address _operator, address, uint, uint, bytes calldata)
+        external
+        view
+        returns (bytes4)
+    {
+        if (initialized && _operator != address(this)) {
+            revert UnexpectedTokenTransfer();
+        }
+        return this.onERC1155Received.selector;
+    }
+
+    function onERC1155BatchReceived(address, address, uint[] calldata, uint[] calldata, bytes calldata)
+        external
+        pure
+        returns (bytes4)
+    {
+        revert UnexpectedTokenTransfer();
+    }
+
+    function supportsInterface(bytes4 _interfaceId) external pure returns (bool) {
+        return _interfaceId == type(IERC1155Receiver).interfaceId || _interfaceId == type(IERC165).interfaceId;
+    }
+
+    // Lowest amount the next bid must reach: the starting price for the
+    // first bid, then the highest bid plus the larger of both increments.
+    // Bids always have to be strictly higher, so the increment is at least 1 wei.
+    function minimumNextBid() public view returns (uint) {
+        if (highestBidder == address(0)) {
+            return startingPrice > 0 ? startingPrice : 1;
+        }
+        return _minimumAbove(highestBid);
+    }
+
+    // _amount plus the larger of both increments, and at least 1 wei
+    function _minimumAbove(uint _amount) private view returns (uint) {
+        uint increment = (_amount * minIncrementBps) / BPS_DENOMINATOR;
+        if (minIncrement > increment) {
+            increment = minIncrement;
+        }
+        return _amount + (increment > 0 ? increment : 1);
+    }
+
+    // Takes custody of the item. AuctionFactory transfers it to a clone before
+    // initializing it; a directly deployed auction pulls it from the owner,
+    // who approves the auction's address beforehand.
+    function _escrowItem(address _owner, Item memory _item) private {
+        if (_item.standard == ItemStandard.None) {
+            return;
+        }
+        if (
+            _item.token == address(0) ||
+            (_item.standard == ItemStandard.ERC721 ? _item.amount != 1 : _item.amount == 0)
+        ) {
+            revert InvalidItem();
+        }
+        item = _item;
+
+        if (_item.standard == ItemStandard.ERC721) {
+            if (IERC721(_item.token).ownerOf(_item.tokenId) != address(this)) {
+                IERC721(_item.token).transferFrom(_owner, address(this), _item.tokenId);
+            }
+        } else if (IERC1155(_item.token).balanceOf(address(this), _item.tokenId) < _item.amount) {
+            IERC1155(_item.token).safeTransferFrom(_owner, address(this), _item.tokenId, _item.amount, "");
+        }
+
+        emit ItemEscrowed(_item.token, _item.tokenId, _item.amount);
+    }
+
+    // ERC-721 items move with transferFrom and ERC-1155 rejections are caught,
+    // so a recipient that refuses the token can't block endAuction().
+    function _deliverItem(address _to) private {
+        if (item.standard == ItemStandard.None) {
+            return;
+        }
+
+        if (item.standard == ItemStandard.ERC721) {
+            IERC721(item.token).transferFrom(address(this), _to, item.tokenId);
+        } else {
+            try IERC1155(item.token).safeTransferFrom(address(this), _to, item.tokenId, item.amount, "") {
+            } catch {
+                itemClaimant = _to;
+                emit ItemDeliveryFailed(_to);
+                return;
+            }
+        }
+
+        emit ItemDelivered(_to, item.token, item.tokenId, item.amount);
+    }
+
+    // Moves the end time later when a bid lands inside the extension window,
+    // without going past maxEndTime when a cap is set.
+    function _extendIfSniped() private {
+        if (extensionWindow == 0 || auctionEndTime - block.timestamp > extensionWindow) {
+            return;
+        }
+
+        uint newEndTime = auctionEndTime + extensionDuration;
+        if (maxEndTime != 0 && newEndTime > maxEndTime) {
+            newEndTime = maxEndTime;
+        }
+
+        if (newEndTime > auctionEndTime) {
+            auctionEndTime = newEndTime;
+            emit AuctionExtended(newEndTime);
+        }
+    }
+
+    // Bonus owed for an outbid, capped by what is left in the reserve so
+    // bonuses never come out of bids or the owner's proceeds.
+    function _takeBonus(uint _newBid) private returns (uint bonus) {
+        bonus = (_newBid * bonusBps) / BPS_DENOMINATOR;
+        if (bonus > bonusReserve) {
+            bonus = bonusReserve;
+        }
+        bonusReserve -= bonus;
     }
 }
\ No newline at end of file
@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/proxy/Clones.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import "./Auction.sol";
+
+contract AuctionFactory {
+    // Auction the clones delegate to. Its own state is never used by them.
+    address public immutable implementation;
+
+    address[] private auctions;
+    mapping(address => address[]) private auctionsByCreator;
+    mapping(address => bool) public isAuction;
+
+    // Events
+    event AuctionCreated(address indexed creator, address indexed auction, uint endTime);
+
+    constructor(address _implementation) {
+        require(_implementation.code.length > 0, "Implementation must be a contract");
+        implementation = _implementation;
+    }
+
+    function createAuction(Auction.AuctionConfig calldata _config) public returns (Auction auction) {
+        auction = Auction(Clones.clone(implementation));
+        _transferItem(_config.item, msg.sender, address(auction));
+        auction.initialize(msg.sender, _config);
+
+        auctions.push(address(auction));
+        auctionsByCreator[msg.sender].push(address(auction));
+        isAuction[address(auction)] = true;
+
+        emit AuctionCreated(msg.sender, address(auction), auction.auctionEndTime());
+    }
+
+    function auctionCount() public view returns (uint) {
+        return auctions.length;
+    }
+
+    function getAuctions() public view returns (address[] memory) {
+        return auctions;
+    }
+
+    function getAuctionsByCreator(address _creator) public view returns (address[] memory) {
+        return auctionsByCreator[_creator];
+    }
+
+    // Moves the creator's item into the new clone, which checks that it holds
+    // it when initialized. The creator approves the factory beforehand.
+    function _transferItem(Auction.Item calldata _item, address _from, address _auction) private {
+        if (_item.standard == Auction.ItemStandard.ERC721) {
+            IERC721(_item.token).transferFrom(_from, _auction, _item.tokenId);
+        } else if (_item.standard == Auction.ItemStandard.ERC1155) {
+            IERC1155(_item.token).safeTransferFrom(_from, _auction, _item.tokenId, _item.amount, "");
+        }
+    }
+}
@@ -0,0 +1,156 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+// Descending-price auction. The price falls from a start price to a floor,
+// either continuously or in steps, and the first buyer to pay the current
+// price wins. It keeps Auction's owner, pause and status API so tooling
+// written for Auction can read it unchanged.
+contract DutchAuction {
+    struct DutchAuctionConfig {
+        uint startPrice;        // Price when the auction opens
+        uint floorPrice;        // Lowest price, held from the end of the decay until the auction ends
+        uint duration;          // Auction duration in seconds
+        uint decayDuration;     // Seconds the price takes to fall to the floor, at most the duration
+        uint stepDuration;      // Seconds between price drops, 0 for a linear decline
+    }
+
+    // State variables
+    address public owner;
+    uint public startTime;
+    uint public auctionEndTime;
+    uint public startPrice;
+    uint public floorPrice;
+    uint public decayDuration;
+    uint public stepDuration;
+    // The buyer and the price they paid. Named after Auction's fields so
+    // status readers work for both contracts.
+    address public highestBidder;
+    uint public highestBid;
+    bool public auctionEnded;
+    bool public paused;
+
+    // Events
+    event AuctionInitialized(address indexed owner, uint duration, uint endTime);
+    event Purchase(address indexed buyer, uint price, uint refund);
+    event AuctionEnded(address indexed winner, uint price);
+    event FundsWithdrawn(address indexed owner, uint amount);
+    event AuctionPaused(bool paused);
+
+    // Errors
+    error FloorAboveStartPrice(uint floorPrice, uint startPrice);
+    error PaymentBelowPrice(uint amount, uint price);
+
+    // Modifiers
+    modifier onlyBeforeEnd() {
+        require(block.timestamp < auctionEndTime, "Auction has ended");
+        _;
+    }
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner can call this function");
+        _;
+    }
+
+    modifier whenNotPaused() {
+        require(!paused, "Auction is paused");
+        _;
+    }
+
+    constructor(DutchAuctionConfig memory _config) {
+        require(_config.duration > 0, "Duration must be greater than zero");
+        require(
+            _config.decayDuration > 0 && _config.decayDuration <= _config.duration,
+            "Decay duration must be between zero and the duration"
+        );
+        if (_config.floorPrice > _config.startPrice) {
+            revert FloorAboveStartPrice(_config.floorPrice, _config.startPrice);
+        }
+
+        owner = msg.sender;
+        startTime = block.timestamp;
+        auctionEndTime = block.timestamp + _config.duration;
+        startPrice = _config.startPrice;
+        floorPrice = _config.floorPrice;
+        decayDuration = _config.decayDuration;
+        stepDuration = _config.stepDuration;
+
+        emit AuctionInitialized(owner, _config.duration, auctionEndTime);
+    }
+
+    // Buys at the current price. The sale ends the auction, and anything paid
+    // above the price is sent straight back to the buyer.
+    function buy() public payable onlyBeforeEnd whenNotPaused {
+        require(!auctionEnded, "Auction already ended");
+        uint price = currentPrice();
+        if (msg.value < price) {
+            revert PaymentBelowPrice(msg.value, price);
+        }
+
+        auctionEnded = true;
+        auctionEndTime = block.timestamp;
+        highestBidder = msg.sender;
+        highestBid = price;
+
+        uint refund = msg.value - price;
+        if (refund > 0) {
+            (bool success, ) = payable(msg.sender).call{value: refund}("");
+            require(success, "Refund failed");
+        }
+
+        emit Purchase(msg.sender, price, refund);
+        emit AuctionEnded(msg.sender, price);
+    }
+
+    // Closes an auction that reached its end time without a buyer
+    function endAuction() public {
+        require(block.timestamp >= auctionEndTime, "Auction has not ended");
+        require(!auctionEnded, "Auction already ended");
+        auctionEnded = true;
+
+        emit AuctionEnded(address(0), 0);
+    }
+
+    function withdraw() public onlyOwner {
+        require(auctionEnded, "Auction has not ended");
+
+        uint proceeds = address(this).balance;
+        (bool success, ) = payable(owner).call{value: proceeds}("");
+        require(success, "Withdrawal failed");
+
+        emit FundsWithdrawn(owner, proceeds);
+    }
+
+    function setPaused(bool _paused) public onlyOwner {
+        paused = _paused;
+        emit AuctionPaused(_paused);
+    }
+
+    function currentPrice() public view returns (uint) {
+        uint elapsed = block.timestamp - startTime;
+        if (stepDuration > 0) {
+            elapsed -= elapsed % stepDuration;
+        }
+        if (elapsed >= decayDuration) {
+            return floorPrice;
+        }
+        return startPrice - ((startPrice - floorPrice) * elapsed) / decayDuration;
+    }
+
+    // Same shape as Auction.getAuctionStatus(). A Dutch auction pays no
+    // outbid bonus, so the bonus fields are always zero.
+    function getAuctionStatus() public view returns (
+        uint endTime,
+        uint timeRemaining,
+        bool isEnded,
+        bool isPaused,
+        uint bonusRateBps,
+        uint remainingBonusReserve
+    ) {
+        endTime = auctionEndTime;
+        timeRemaining = block.timestamp < auctionEndTime ? auctionEndTime - block.timestamp : 0;
+        isEnded = auctionEnded;
+        isPaused = paused;
+        bonusRateBps = 0;
+        remainingBonusReserve = 0;
+    }
+}
@@ -0,0 +1,335 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+// Uniform-price auction for a batch of identical units. Each bid names a
+// quantity and a price per unit, paid up front. The highest-priced units win
+// and every winner pays the same clearing price: either the lowest winning
+// price or the highest losing one. Whatever a bidder paid beyond what they
+// won is refunded once the auction has ended. Bids that win nothing are
+// still recorded, so HighestLosing can price the units off them.
+contract MultiUnitAuction {
+    enum ClearingRule { LowestWinning, HighestLosing }
+
+    struct MultiUnitConfig {
+        uint duration;              // Auction duration in seconds
+        uint quantity;              // Units for sale
+        uint reservePrice;          // Lowest price per unit a bid may offer, 0 for none
+        ClearingRule clearingRule;  // Whether winners pay the lowest winning or the highest losing price
+    }
+
+    // Bids still winning units are kept in a list sorted by price, highest
+    // first, with earlier bids ahead of later ones at the same price.
+    struct UnitBid {
+        address bidder;
+        uint quantity;
+        uint unitPrice;
+        uint filled;    // Units the bid currently wins
+        uint prev;
+        uint next;
+    }
+
+    // State variables
+    address public owner;
+    uint public auctionEndTime;
+    uint public quantity;
+    uint public reservePrice;
+    ClearingRule public clearingRule;
+    bool public auctionEnded;
+    bool public paused;
+
+    // Bid IDs start at 1, so 0 marks the end of the list
+    mapping(uint => UnitBid) public bids;
+    uint public bidCount;
+    uint private head;
+    uint private tail;
+    // Units won by the bids in the list, at most `quantity`
+    uint public unitsSold;
+    // Price of the first unit that missed out, 0 while every unit bid for wins
+    uint public highestLosingPrice;
+    uint public clearingPrice;
+    uint public proceeds;
+
+    mapping(address => uint) public deposits;
+    mapping(address => uint) public unitsWon;
+
+    // Events
+    event AuctionInitialized(address indexed owner, uint quantity, uint endTime, ClearingRule clearingRule);
+    event UnitBidPlaced(uint indexed bidId, address indexed bidder, uint quantity, uint unitPrice);
+    event AuctionEnded(uint unitsSold, uint clearingPrice);
+    event RefundWithdrawn(address indexed bidder, uint unitsWon, uint amount);
+    event FundsWithdrawn(address indexed owner, uint amount);
+    event AuctionPaused(bool paused);
+
+    // Errors, named as on Auction where they mean the same
+    error InvalidDuration();
+    error InvalidSupply();
+    error InvalidQuantity(uint quantity, uint available);
+    error UnitPriceTooLow(uint unitPrice, uint minimum);
+    error IncorrectPayment(uint amount, uint cost);
+    error AuctionHasEnded(uint endTime);
+    error AuctionStillRunning(uint endTime);
+    error AuctionNotEnded();
+    error AuctionAlreadyEnded();
+    error AuctionIsPaused();
+    error NotOwner(address caller);
+    error NoRefundAvailable();
+    error RefundFailed(address bidder, uint amount);
+    error TransferFailed(address recipient, uint amount);
+
+    // Modifiers
+    modifier onlyBeforeEnd() {
+        if (block.timestamp >= auctionEndTime) {
+            revert AuctionHasEnded(auctionEndTime);
+        }
+        _;
+    }
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) {
+            revert NotOwner(msg.sender);
+        }
+        _;
+    }
+
+    modifier whenNotPaused() {
+        if (paused) {
+            revert AuctionIsPaused();
+        }
+        _;
+    }
+
+    constructor(MultiUnitConfig memory _config) {
+        if (_config.duration == 0) {
+            revert InvalidDuration();
+        }
+        if (_config.quantity == 0) {
+            revert InvalidSupply();
+        }
+
+        owner = msg.sender;
+        auctionEndTime = block.timestamp + _config.duration;
+        quantity = _config.quantity;
+        reservePrice = _config.reservePrice;
+        clearingRule = _config.clearingRule;
+
+        emit AuctionInitialized(owner, quantity, auctionEndTime, clearingRule);
+    }
+
+    // Bids for `_quantity` units at `_unitPrice` each, paying for all of
+    // them. Once every unit is taken, a bid has to beat the lowest winning
+    // price to win units, which come off the lowest bids, latest first. A
+    // bid that doesn't is recorded as losing and refunded in full.
+    function bid(uint _quantity, uint _unitPrice) public payable onlyBeforeEnd whenNotPaused {
+        if (_quantity == 0 || _quantity > quantity) {
+            revert InvalidQuantity(_quantity, quantity);
+        }
+        uint minimum = minimumUnitPrice();
+        if (_unitPrice < minimum) {
+            revert UnitPriceTooLow(_unitPrice, minimum);
+        }
+        if (msg.value != _quantity * _unitPrice) {
+            revert IncorrectPayment(msg.value, _quantity * _unitPrice);
+        }
+
+        uint id = ++bidCount;
+        bids[id] = UnitBid({
+            bidder: msg.sender,
+            quantity: _quantity,
+            unitPrice: _unitPrice,
+            filled: 0,
+            prev: 0,
+            next: 0
+        });
+        deposits[msg.sender] += msg.value;
+
+        if (_unitPrice < minimumWinningPrice()) {
+            if (_unitPrice > highestLosingPrice) {
+                highestLosingPrice = _unitPrice;
+            }
+            emit UnitBidPlaced(id, msg.sender, _quantity, _unitPrice);
+            return;
+        }
+
+        bids[id].filled = _quantity;
+        unitsWon[msg.sender] += _quantity;
+        unitsSold += _quantity;
+        _insert(id);
+
+        emit UnitBidPlaced(id, msg.sender, _quantity, _unitPrice);
+
+        if (unitsSold > quantity) {
+            _trim(unitsSold - quantity);
+        }
+    }
+
+    function endAuction() public {
+        if (block.timestamp < auctionEndTime) {
+            revert AuctionStillRunning(auctionEndTime);
+        }
+        if (auctionEnded) {
+            revert AuctionAlreadyEnded();
+        }
+        auctionEnded = true;
+
+        clearingPrice = previewClearingPrice();
+        proceeds = unitsSold * clearingPrice;
+
+        emit AuctionEnded(unitsSold, clearingPrice);
+    }
+
+    // Returns everything a bidder paid beyond the clearing price of the
+    // units they won, covering losing bids and the unfilled part of a bid
+    // at the margin.
+    function withdrawRefund() public {
+        if (!auctionEnded) {
+            revert AuctionNotEnded();
+        }
+        uint deposit = deposits[msg.sender];
+        if (deposit == 0) {
+            revert NoRefundAvailable();
+        }
+
+        deposits[msg.sender] = 0;
+        uint amount = deposit - unitsWon[msg.sender] * clearingPrice;
+        if (amount > 0) {
+            (bool success, ) = payable(msg.sender).call{value: amount}("");
+            if (!success) {
+                revert RefundFailed(msg.sender, amount);
+            }
+        }
+
+        emit RefundWithdrawn(msg.sender, unitsWon[msg.sender], amount);
+    }
+
+    function withdraw() public onlyOwner {
+        if (!auctionEnded) {
+            revert AuctionNotEnded();
+        }
+
+        uint amount = proceeds;
+        proceeds = 0;
+        (bool success, ) = payable(owner).call{value: amount}("");
+        if (!success) {
+            revert TransferFailed(owner, amount);
+        }
+
+        emit FundsWithdrawn(owner, amount);
+    }
+
+    function setPaused(bool _paused) public onlyOwner {
+        paused = _paused;
+        emit AuctionPaused(_paused);
+    }
+
+    // Lowest price per unit a new bid can offer
+    function minimumUnitPrice() public view returns (uint) {
+        return reservePrice > 0 ? reservePrice : 1;
+    }
+
+    // Lowest price per unit at which a new bid wins units: the reserve while
+    // units are left, then one wei above the lowest winning price.
+    function minimumWinningPrice() public view returns (uint) {
+        if (unitsSold < quantity) {
+            return minimumUnitPrice();
+        }
+        return bids[tail].unitPrice + 1;
+    }
+
+    // The price every winner would pay if the auction ended now. Under
+    // HighestLosing, winners pay the reserve while no unit has missed out.
+    function previewClearingPrice() public view returns (uint) {
+        if (unitsSold == 0) {
+            return 0;
+        }
+        if (clearingRule == ClearingRule.LowestWinning) {
+            return bids[tail].unitPrice;
+        }
+        return highestLosingPrice > 0 ? highestLosingPrice : reservePrice;
+    }
+
+    // The bids that currently win units, highest price first
+    function getWinningBids() public view returns (uint[] memory ids, UnitBid[] memory winning) {
+        uint count;
+        for (uint id = head; id != 0; id = bids[id].next) {
+            count++;
+        }
+        ids = new uint[](count);
+        winning = new UnitBid[](count);
+        uint index;
+        for (uint id = head; id != 0; id = bids[id].next) {
+            ids[index] = id;
+            winning[index] = bids[id];
+            index++;
+        }
+    }
+
+    // Same shape as Auction.getAuctionStatus(). There is no outbid bonus,
+    // so the bonus fields are always zero.
+    function getAuctionStatus() public view returns (
+        uint endTime,
+        uint timeRemaining,
+        bool isEnded,
+        bool isPaused,
+        uint bonusRateBps,
+        uint remainingBonusReserve
+    ) {
+        endTime = auctionEndTime;
+        timeRemaining = block.timestamp < auctionEndTime ? auctionEndTime - block.timestamp : 0;
+        isEnded = auctionEnded;
+        isPaused = paused;
+        bonusRateBps = 0;
+        remainingBonusReserve = 0;
+    }
+
+    // Walks up from the lowest bid, so bids near the margin are cheap to
+    // place. The list never holds more bids than there are units.
+    function _insert(uint _id) private {
+        uint price = bids[_id].unitPrice;
+        uint above = tail;
+        while (above != 0 && bids[above].unitPrice < price) {
+            above = bids[above].prev;
+        }
+
+        uint below = above == 0 ? head : bids[above].next;
+        bids[_id].prev = above;
+        bids[_id].next = below;
+        if (above == 0) {
+            head = _id;
+        } else {
+            bids[above].next = _id;
+        }
+        if (below == 0) {
+            tail = _id;
+        } else {
+            bids[below].prev = _id;
+        }
+    }
+
+    // Takes `_excess` units off the lowest bids, dropping the bids left
+    // without any
+    function _trim(uint _excess) private {
+        while (_excess > 0) {
+            UnitBid storage lowest = bids[tail];
+            uint taken = lowest.filled < _excess ? lowest.filled : _excess;
+
+            lowest.filled -= taken;
+            unitsWon[lowest.bidder] -= taken;
+            unitsSold -= taken;
+            _excess -= taken;
+            if (lowest.unitPrice > highestLosingPrice) {
+                highestLosingPrice = lowest.unitPrice;
+            }
+
+            if (lowest.filled == 0) {
+                uint prev = lowest.prev;
+                lowest.prev = 0;
+                tail = prev;
+                if (prev == 0) {
+                    head = 0;
+                } else {
+                    bids[prev].next = 0;
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,243 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+// Sealed-bid auction. Bidders first commit to a hash of their bid along with
+// an ETH deposit that covers it, then reveal the bid once commits close.
+// The winner pays either their own bid or the second-highest bid, and
+// bidders who never reveal forfeit part of their deposit to the owner.
+contract SealedBidAuction {
+    uint private constant BPS_DENOMINATOR = 10_000;
+
+    enum Settlement { FirstPrice, SecondPrice }
+    enum Phase { Commit, Reveal, Closed }
+
+    struct SealedBidConfig {
+        uint commitDuration;    // Seconds bids can be committed for
+        uint revealDuration;    // Seconds bids can be revealed for once commits close
+        uint reservePrice;      // Lowest bid that can win, 0 for none
+        uint minDeposit;        // Smallest deposit accepted with a commitment
+        uint forfeitBps;        // Share of the deposit kept from bidders who never reveal
+        Settlement settlement;  // Whether the winner pays their bid or the runner-up's
+    }
+
+    struct SealedBid {
+        bytes32 commitment;
+        uint deposit;
+        uint amount;
+        bool revealed;
+    }
+
+    // State variables
+    address public owner;
+    uint public commitEndTime;
+    uint public revealEndTime;
+    uint public reservePrice;
+    uint public minDeposit;
+    uint public forfeitBps;
+    Settlement public settlement;
+    address public highestBidder;
+    uint public highestBid;
+    uint public secondHighestBid;
+    uint public price;
+    bool public auctionEnded;
+    bool public paused;
+
+    mapping(address => SealedBid) public sealedBids;
+    uint public commitCount;
+    uint public revealCount;
+    // Sum of what unrevealed bidders stand to forfeit, settled into the
+    // owner's proceeds when the auction ends
+    uint public totalForfeit;
+    uint public proceeds;
+
+    // Events
+    event AuctionInitialized(address indexed owner, uint commitEndTime, uint revealEndTime, Settlement settlement);
+    event BidCommitted(address indexed bidder, bytes32 commitment, uint deposit);
+    event BidRevealed(address indexed bidder, uint amount);
+    event AuctionEnded(address indexed winner, uint price);
+    event DepositWithdrawn(address indexed bidder, uint amount, uint forfeited);
+    event FundsWithdrawn(address indexed owner, uint amount);
+    event AuctionPaused(bool paused);
+
+    // Errors
+    error DepositTooLow(uint deposit, uint minDeposit);
+    error InvalidReveal();
+    error BidExceedsDeposit(uint amount, uint deposit);
+
+    // Modifiers
+    modifier onlyPhase(Phase _phase) {
+        require(currentPhase() == _phase, "Action not allowed in the current phase");
+        _;
+    }
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner can call this function");
+        _;
+    }
+
+    modifier whenNotPaused() {
+        require(!paused, "Auction is paused");
+        _;
+    }
+
+    constructor(SealedBidConfig memory _config) {
+        require(_config.commitDuration > 0, "Commit duration must be greater than zero");
+        require(_config.revealDuration > 0, "Reveal duration must be greater than zero");
+        require(_config.forfeitBps <= BPS_DENOMINATOR, "Forfeit cannot exceed 100%");
+
+        owner = msg.sender;
+        commitEndTime = block.timestamp + _config.commitDuration;
+        revealEndTime = commitEndTime + _config.revealDuration;
+        reservePrice = _config.reservePrice;
+        minDeposit = _config.minDeposit;
+        forfeitBps = _config.forfeitBps;
+        settlement = _config.settlement;
+
+        emit AuctionInitialized(owner, commitEndTime, revealEndTime, settlement);
+    }
+
+    // Commits to keccak256(auction, bidder, amount, salt) as built by
+    // computeCommitment(). The deposit hides the bid, so it may be larger
+    // than the bid but must be at least as large for the reveal to succeed.
+    function commitBid(bytes32 _commitment) public payable onlyPhase(Phase.Commit) whenNotPaused {
+        require(sealedBids[msg.sender].commitment == bytes32(0), "Bid already committed");
+        require(_commitment != bytes32(0), "Commitment cannot be empty");
+        if (msg.value == 0 || msg.value < minDeposit) {
+            revert DepositTooLow(msg.value, minDeposit);
+        }
+
+        sealedBids[msg.sender] = SealedBid({
+            commitment: _commitment,
+            deposit: msg.value,
+            amount: 0,
+            revealed: false
+        });
+        commitCount++;
+        totalForfeit += _forfeitOf(msg.value);
+
+        emit BidCommitted(msg.sender, _commitment, msg.value);
+    }
+
+    // Not stopped by a pause: the reveal window can't be extended, so a
+    // pause through it would make every bidder forfeit to the owner.
+    function revealBid(uint _amount, bytes32 _salt) public onlyPhase(Phase.Reveal) {
+        SealedBid storage sealedBid = sealedBids[msg.sender];
+        require(sealedBid.commitment != bytes32(0), "No committed bid");
+        require(!sealedBid.revealed, "Bid already revealed");
+        if (computeCommitment(msg.sender, _amount, _salt) != sealedBid.commitment) {
+            revert InvalidReveal();
+        }
+        if (_amount > sealedBid.deposit) {
+            revert BidExceedsDeposit(_amount, sealedBid.deposit);
+        }
+
+        sealedBid.revealed = true;
+        sealedBid.amount = _amount;
+        revealCount++;
+        totalForfeit -= _forfeitOf(sealedBid.deposit);
+
+        // Bids below the reserve are revealed but never compete. Ties go to
+        // the bidder who revealed first.
+        if (_amount >= reservePrice) {
+            if (highestBidder == address(0) || _amount > highestBid) {
+                secondHighestBid = highestBid;
+                highestBid = _amount;
+                highestBidder = msg.sender;
+            } else if (_amount > secondHighestBid) {
+                secondHighestBid = _amount;
+            }
+        }
+
+        emit BidRevealed(msg.sender, _amount);
+    }
+
+    function endAuction() public onlyPhase(Phase.Closed) {
+        require(!auctionEnded, "Auction already ended");
+        auctionEnded = true;
+
+        if (highestBidder != address(0)) {
+            price = settlement == Settlement.FirstPrice
+                ? highestBid
+                : (secondHighestBid > reservePrice ? secondHighestBid : reservePrice);
+        }
+        proceeds = price + totalForfeit;
+
+        emit AuctionEnded(highestBidder, price);
+    }
+
+    // Returns a bidder's deposit once the auction has ended, less the price
+    // for the winner and less the forfeit for a bid that was never revealed.
+    function withdrawDeposit() public {
+        require(auctionEnded, "Auction has not ended");
+        SealedBid storage sealedBid = sealedBids[msg.sender];
+        uint deposit = sealedBid.deposit;
+        require(deposit > 0, "No deposit to withdraw");
+
+        sealedBid.deposit = 0;
+        uint forfeited = sealedBid.revealed ? 0 : _forfeitOf(deposit);
+        uint amount = deposit - forfeited;
+        if (msg.sender == highestBidder) {
+            amount -= price;
+        }
+
+        if (amount > 0) {
+            (bool success, ) = payable(msg.sender).call{value: amount}("");
+            require(success, "Deposit withdrawal failed");
+        }
+
+        emit DepositWithdrawn(msg.sender, amount, forfeited);
+    }
+
+    function withdraw() public onlyOwner {
+        require(auctionEnded, "Auction has not ended");
+
+        uint amount = proceeds;
+        proceeds = 0;
+        (bool success, ) = payable(owner).call{value: amount}("");
+        require(success, "Withdrawal failed");
+
+        emit FundsWithdrawn(owner, amount);
+    }
+
+    function setPaused(bool _paused) public onlyOwner {
+        paused = _paused;
+        emit AuctionPaused(_paused);
+    }
+
+    function currentPhase() public view returns (Phase) {
+        if (block.timestamp < commitEndTime) {
+            return Phase.Commit;
+        }
+        if (block.timestamp < revealEndTime) {
+            return Phase.Reveal;
+        }
+        return Phase.Closed;
+    }
+
+    function computeCommitment(address _bidder, uint _amount, bytes32 _salt) public view returns (bytes32) {
+        return keccak256(abi.encodePacked(address(this), _bidder, _amount, _salt));
+    }
+
+    // Same shape as Auction.getAuctionStatus(), with the end time being the
+    // end of the reveal phase. There is no outbid bonus, so the bonus fields
+    // are always zero; currentPhase() and commitEndTime give the phase.
+    function getAuctionStatus() public view returns (
+        uint endTime,
+        uint timeRemaining,
+        bool isEnded,
+        bool isPaused,
+        uint bonusRateBps,
+        uint remainingBonusReserve
+    ) {
+        endTime = revealEndTime;
+        timeRemaining = block.timestamp < revealEndTime ? revealEndTime - block.timestamp : 0;
+        isEnded = auctionEnded;
+        isPaused = paused;
+        bonusRateBps = 0;
+        remainingBonusReserve = 0;
+    }
+
+    function _forfeitOf(uint _deposit) private view returns (uint) {
+        return (_deposit * forfeitBps) / BPS_DENOMINATOR;
+    }
+}
@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+// ERC-20 that reverts transfers to blocked addresses, as tokens with a
+// blacklist do.
+contract BlocklistERC20 is ERC20 {
+    mapping(address => bool) public blocked;
+
+    error RecipientBlocked(address recipient);
+
+    constructor() ERC20("Blocklist Token", "BLT") {}
+
+    function mint(address _to, uint _amount) external {
+        _mint(_to, _amount);
+    }
+
+    function setBlocked(address _account, bool _blocked) external {
+        blocked[_account] = _blocked;
+    }
+
+    function _update(address _from, address _to, uint _value) internal override {
+        if (blocked[_to]) {
+            revert RecipientBlocked(_to);
+        }
+        super._update(_from, _to, _value);
+    }
+}
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+// ERC-20 that burns a fee from every transfer, so the recipient receives
+// less than the amount sent.
+contract FeeOnTransferERC20 is ERC20 {
+    uint public immutable feeBps;
+
+    constructor(uint _feeBps) ERC20("Fee Token", "FEE") {
+        feeBps = _feeBps;
+    }
+
+    function mint(address _to, uint _amount) external {
+        _mint(_to, _amount);
+    }
+
+    function _update(address _from, address _to, uint _value) internal override {
+        if (_from == address(0) || _to == address(0)) {
+            super._update(_from, _to, _value);
+            return;
+        }
+        uint fee = (_value * feeBps) / 10_000;
+        super._update(_from, address(0), fee);
+        super._update(_from, _to, _value - fee);
+    }
+}
@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "../Auction.sol";
+
+// Bidder contract that rejects every ETH transfer and ERC-1155 token, used to
+// check that it can't freeze the auction by refusing its refund or the item.
+contract MaliciousBidder {
+    Auction public immutable auction;
+
+    constructor(Auction _auction) {
+        auction = _auction;
+    }
+
+    function bid() external payable {
+        auction.bid{value: msg.value}();
+    }
+
+    function withdrawRefund() external {
+        auction.withdrawRefund();
+    }
+
+    function claimItem(address _to) external {
+        auction.claimItem(_to);
+    }
+
+    receive() external payable {
+        revert("MaliciousBidder rejects ETH");
+    }
+}
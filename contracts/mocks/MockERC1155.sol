@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+
+// Freely mintable ERC-1155 for auction tests.
+contract MockERC1155 is ERC1155 {
+    constructor() ERC1155("") {}
+
+    function mint(address _to, uint _id, uint _amount) external {
+        _mint(_to, _id, _amount, "");
+    }
+}
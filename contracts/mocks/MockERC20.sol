@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+// Freely mintable ERC-20 with EIP-2612 permits for auction tests. The
+// decimals can be changed to test tokens that don't use 18.
+contract MockERC20 is ERC20Permit {
+    uint8 private _decimals = 18;
+
+    constructor() ERC20("Mock Token", "MTK") ERC20Permit("Mock Token") {}
+
+    function mint(address _to, uint _amount) external {
+        _mint(_to, _amount);
+    }
+
+    function setDecimals(uint8 _newDecimals) external {
+        _decimals = _newDecimals;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+}
@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+// Freely mintable ERC-721 for auction tests.
+contract MockERC721 is ERC721 {
+    constructor() ERC721("Mock NFT", "MNFT") {}
+
+    function mint(address _to, uint _tokenId) external {
+        _mint(_to, _tokenId);
+    }
+}
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC721/extensions/ERC721Royalty.sol";
+
+// Freely mintable ERC-721 with ERC-2981 royalties for auction tests.
+contract MockERC721Royalty is ERC721Royalty {
+    constructor() ERC721("Mock Royalty NFT", "MRNFT") {}
+
+    function mint(address _to, uint _tokenId) external {
+        _mint(_to, _tokenId);
+    }
+
+    function setTokenRoyalty(uint _tokenId, address _receiver, uint96 _feeNumerator) external {
+        _setTokenRoyalty(_tokenId, _receiver, _feeNumerator);
+    }
+}
@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+// ERC-20 that reports failed transfers by returning false instead of
+// reverting, and moves no tokens when it does.
+contract ReturnFalseERC20 is ERC20 {
+    bool public failTransfers;
+
+    constructor() ERC20("Return False Token", "RFT") {}
+
+    function mint(address _to, uint _amount) external {
+        _mint(_to, _amount);
+    }
+
+    function setFailTransfers(bool _failTransfers) external {
+        failTransfers = _failTransfers;
+    }
+
+    function transfer(address _to, uint _value) public override returns (bool) {
+        if (failTransfers) {
+            return false;
+        }
+        return super.transfer(_to, _value);
+    }
+
+    function transferFrom(address _from, address _to, uint _value) public override returns (bool) {
+        if (failTransfers) {
+            return false;
+        }
+        return super.transferFrom(_from, _to, _value);
+    }
+}
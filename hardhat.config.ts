@@ -1,11 +1,20 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
+import "./tasks/auction";
 require('dotenv').config();
 
 const { LISK_SEPOLIA_URL, ACCOUNT_PRIVATE_KEY_1, ACCOUNT_PRIVATE_KEY_2, ACCOUNT_PRIVATE_KEY_3 } = process.env;
 
 const config: HardhatUserConfig = {
-    solidity: "0.8.28",
+    solidity: {
+        version: "0.8.28",
+        settings: {
+            optimizer: {
+                enabled: true,
+                runs: 200,
+            },
+        },
+    },
     networks: {
         lisk_sepolia: {
             url: LISK_SEPOLIA_URL || "https://rpc.sepolia-api.lisk.com", // Fallback URL if env variable is missing
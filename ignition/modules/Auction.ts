@@ -0,0 +1,52 @@
+// Deploys the Auction contract through Hardhat Ignition.
+// Per-network values live in ignition/parameters/<network>.json.
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+const ONE_HOUR_IN_SECS = 3600;
+const TEN_PERCENT_IN_BPS = 1000;
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const ZERO_HASH = "0x0000000000000000000000000000000000000000000000000000000000000000";
+const NO_ITEM = {
+  standard: 0,
+  token: ZERO_ADDRESS,
+  tokenId: 0,
+  amount: 0,
+};
+
+const AuctionModule = buildModule("AuctionModule", (m) => {
+  const config = {
+    duration: m.getParameter("duration", ONE_HOUR_IN_SECS),
+    bonusBps: m.getParameter("bonusBps", TEN_PERCENT_IN_BPS),
+    startingPrice: m.getParameter("startingPrice", 0n),
+    reservePrice: m.getParameter("reservePrice", 0n),
+    minIncrement: m.getParameter("minIncrement", 0n),
+    minIncrementBps: m.getParameter("minIncrementBps", 0),
+    extensionWindow: m.getParameter("extensionWindow", 0),
+    extensionDuration: m.getParameter("extensionDuration", 0),
+    maxExtension: m.getParameter("maxExtension", 0),
+    // Items are escrowed through AuctionFactory, which can move them
+    // into the new auction before it is initialized
+    item: NO_ITEM,
+    // Zero address for an auction paid in ETH
+    paymentToken: m.getParameter("paymentToken", ZERO_ADDRESS),
+    emergencyDelay: m.getParameter("emergencyDelay", 0),
+    // Zero address to pay the proceeds to the owner
+    beneficiary: m.getParameter("beneficiary", ZERO_ADDRESS),
+    feeRecipient: m.getParameter("feeRecipient", ZERO_ADDRESS),
+    feeBps: m.getParameter("feeBps", 0),
+    keeperRewardBps: m.getParameter("keeperRewardBps", 0),
+    maxKeeperReward: m.getParameter("maxKeeperReward", 0n),
+    maxRoyaltyBps: m.getParameter("maxRoyaltyBps", 0),
+    // 0 opens bidding at deployment
+    startTime: m.getParameter("startTime", 0),
+    // Zero hash for open bidding
+    allowlistRoot: m.getParameter("allowlistRoot", ZERO_HASH),
+  };
+
+  const auction = m.contract("Auction", [config]);
+
+  return { auction };
+});
+
+export default AuctionModule;
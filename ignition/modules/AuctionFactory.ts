@@ -0,0 +1,51 @@
+// Deploys an AuctionFactory together with the Auction its clones delegate to.
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const ZERO_HASH = "0x0000000000000000000000000000000000000000000000000000000000000000";
+const NO_ITEM = {
+  standard: 0,
+  token: ZERO_ADDRESS,
+  tokenId: 0,
+  amount: 0,
+};
+
+const AuctionFactoryModule = buildModule("AuctionFactoryModule", (m) => {
+  // Clones never read the implementation's own state, so it is deployed as a
+  // one second auction that ends before anyone can bid on it.
+  const implementation = m.contract(
+    "Auction",
+    [
+      {
+        duration: 1,
+        bonusBps: 0,
+        startingPrice: 0,
+        reservePrice: 0,
+        minIncrement: 0,
+        minIncrementBps: 0,
+        extensionWindow: 0,
+        extensionDuration: 0,
+        maxExtension: 0,
+        item: NO_ITEM,
+        paymentToken: ZERO_ADDRESS,
+        emergencyDelay: 0,
+        beneficiary: ZERO_ADDRESS,
+        feeRecipient: ZERO_ADDRESS,
+        feeBps: 0,
+        keeperRewardBps: 0,
+        maxKeeperReward: 0,
+        maxRoyaltyBps: 0,
+        startTime: 0,
+        allowlistRoot: ZERO_HASH,
+      },
+    ],
+    { id: "AuctionImplementation" }
+  );
+
+  const factory = m.contract("AuctionFactory", [implementation]);
+
+  return { implementation, factory };
+});
+
+export default AuctionFactoryModule;
@@ -7,6 +7,10 @@ LISK_SEPOLIA_URL=https://rpc.sepolia-api.lisk.com
 
 
 npx hardhat test test/Auction.ts
-npx hardhat --network lisk_sepolia run scripts/interact.ts
-npx hardhat --network lisk_sepolia run scripts/deploy.ts
+npx ts-node scripts/cli.ts status --network lisk_sepolia --address <auction>
+npx hardhat --network lisk_sepolia auction:status --address <auction>
+npx hardhat ignition deploy ignition/modules/Auction.ts --network lisk_sepolia --parameters ignition/parameters/lisk_sepolia.json --verify
 
+FACTORY_ADDRESS=<factory> KEEPER_ONCE=1 npx hardhat --network lisk_sepolia run scripts/keeper.ts
+FACTORY_ADDRESS=<factory> INDEXER_ONCE=1 npx hardhat --network lisk_sepolia run scripts/indexer.ts
+FACTORY_ADDRESS=<factory> npx hardhat --network localhost run scripts/api.ts
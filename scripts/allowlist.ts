@@ -0,0 +1,38 @@
+import { readFileSync, writeFileSync } from "fs";
+import { buildAllowlist, parseAllowlistCsv } from "./lib/allowlist";
+
+// Builds an auction allowlist from a CSV of `address,cap` lines and writes
+// the root and each bidder's proof as JSON. Run it with ts-node:
+//   npx ts-node scripts/allowlist.ts bidders.csv allowlist.json
+// Caps are in whole tokens; set ALLOWLIST_DECIMALS for tokens that don't
+// use 18 decimals.
+
+async function main() {
+    try {
+        const [csvPath, outPath = "allowlist.json"] = process.argv.slice(2);
+        if (!csvPath) {
+            throw new Error("Usage: scripts/allowlist.ts <bidders.csv> [allowlist.json]");
+        }
+        const decimals = Number(process.env.ALLOWLIST_DECIMALS ?? "18");
+
+        const allowlist = buildAllowlist(parseAllowlistCsv(readFileSync(csvPath, "utf8"), decimals));
+        const json = {
+            root: allowlist.root,
+            entries: allowlist.entries.map((entry) => ({ ...entry, cap: entry.cap.toString() })),
+        };
+        writeFileSync(outPath, JSON.stringify(json, null, 2) + "\n");
+
+        console.log(`Allowlist root: ${allowlist.root}`);
+        console.log(`Wrote ${allowlist.entries.length} proofs to ${outPath}`);
+    } catch (error: any) {
+        console.error("Error occurred:", error.message);
+        process.exit(1);
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error("Unhandled error:", error);
+        process.exit(1);
+    });
@@ -0,0 +1,36 @@
+import { ethers } from "hardhat";
+import { createApiServer } from "./lib/api";
+
+// Serves the auction REST API. Configure it through the environment:
+//   FACTORY_ADDRESS    serve every auction created by this factory
+//   AUCTION_ADDRESSES  comma-separated auctions to serve as well
+//   API_PORT           port to listen on, defaults to 3000
+
+async function main() {
+    try {
+        const factoryAddress = process.env.FACTORY_ADDRESS;
+        const auctionAddresses = (process.env.AUCTION_ADDRESSES ?? "")
+            .split(",")
+            .map((address) => address.trim())
+            .filter((address) => address !== "");
+        const port = Number(process.env.API_PORT ?? "3000");
+
+        const server = createApiServer({ provider: ethers.provider, factoryAddress, auctionAddresses });
+        await new Promise<void>((resolve) => server.listen(port, resolve));
+        console.log(`Auction API listening on http://localhost:${port}`);
+
+        await new Promise<void>((resolve) => {
+            process.once("SIGINT", () => server.close(() => resolve()));
+        });
+    } catch (error: any) {
+        console.error("Error occurred:", error.message);
+        process.exit(1);
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error("Unhandled error:", error);
+        process.exit(1);
+    });
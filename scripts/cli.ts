@@ -0,0 +1,72 @@
+// Brings in the hre.ethers typings, which hardhat.config.ts adds under npx hardhat
+import type {} from "@nomicfoundation/hardhat-toolbox";
+import { Auction__factory } from "../typechain-types";
+import {
+    formatEvent,
+    formatResult,
+    parseCliArgs,
+    paymentUnit,
+    runCommand,
+    toJson,
+    watchAuction,
+} from "./lib/cli";
+
+// Operator CLI for deployed auctions. Run it with ts-node so it can read its
+// own arguments, for example:
+//   npx ts-node scripts/cli.ts status --network lisk_sepolia --address 0x...
+//   npx ts-node scripts/cli.ts bid --network lisk_sepolia --address 0x... --amount "0.01 ether"
+
+async function main() {
+    try {
+        const options = parseCliArgs(process.argv.slice(2));
+        // Hardhat reads the network from the environment when it is loaded
+        // as a library, so it is only loaded once the arguments are parsed
+        if (options.network) {
+            process.env.HARDHAT_NETWORK = options.network;
+        }
+        const { ethers } = await import("hardhat");
+        const signer = options.from ? await ethers.getSigner(options.from) : (await ethers.getSigners())[0];
+
+        if (options.command !== "watch") {
+            const result = await runCommand(options, { provider: ethers.provider, signer });
+            if (options.json) {
+                console.log(toJson(result));
+            } else if (result.command === "status") {
+                // Token auctions report their amounts in the payment token
+                const auction = Auction__factory.connect(result.address, ethers.provider);
+                console.log(formatResult(result, await paymentUnit(auction)));
+            } else {
+                console.log(formatResult(result));
+            }
+            return;
+        }
+
+        const auction = Auction__factory.connect(options.address!, ethers.provider);
+        const unit = await paymentUnit(auction);
+        if (!options.json) {
+            console.log(`Watching ${options.address}, press Ctrl+C to stop`);
+        }
+        await new Promise<void>((resolve) => {
+            const stop = watchAuction(auction, ethers.provider, {
+                interval: options.interval * 1000,
+                // One JSON object per line, so the output can be piped
+                onEvent: (event) => console.log(options.json ? toJson(event, 0) : formatEvent(event, unit)),
+                onError: (error: any) => console.error("Poll failed:", error?.message ?? error),
+            });
+            process.once("SIGINT", () => {
+                stop();
+                resolve();
+            });
+        });
+    } catch (error: any) {
+        console.error("Error occurred:", error.message);
+        process.exit(1);
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error("Unhandled error:", error);
+        process.exit(1);
+    });
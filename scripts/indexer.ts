@@ -0,0 +1,70 @@
+import { ethers } from "hardhat";
+import { followIndex, loadIndex, saveIndex, syncIndex, trackAuction, trackFactory } from "./lib/indexer";
+
+// Indexes auction events into a JSON file. Configure it through the environment:
+//   FACTORY_ADDRESS    index every auction created by this factory
+//   AUCTION_ADDRESSES  comma-separated auctions to index as well
+//   FROM_BLOCK         block to backfill from, defaults to 0
+//   INDEX_PATH         JSON store, defaults to auction-index.json
+//   CONFIRMATIONS      blocks to wait before indexing a log, defaults to 5
+//   INDEXER_INTERVAL   seconds between syncs, defaults to 15
+//   INDEXER_ONCE       set to backfill once and exit
+
+async function main() {
+    try {
+        const factoryAddress = process.env.FACTORY_ADDRESS;
+        const auctionAddresses = (process.env.AUCTION_ADDRESSES ?? "")
+            .split(",")
+            .map((address) => address.trim())
+            .filter((address) => address !== "");
+        if (!factoryAddress && auctionAddresses.length === 0) {
+            throw new Error("Set FACTORY_ADDRESS and/or AUCTION_ADDRESSES to the auctions to index.");
+        }
+
+        const fromBlock = Number(process.env.FROM_BLOCK ?? "0");
+        const path = process.env.INDEX_PATH ?? "auction-index.json";
+        const confirmations = Number(process.env.CONFIRMATIONS ?? "5");
+        const interval = Number(process.env.INDEXER_INTERVAL ?? "15");
+
+        const state = loadIndex(path);
+        if (factoryAddress) {
+            trackFactory(state, factoryAddress, fromBlock);
+        }
+        for (const address of auctionAddresses) {
+            trackAuction(state, address, fromBlock);
+        }
+
+        if (process.env.INDEXER_ONCE !== undefined) {
+            const applied = await syncIndex(state, ethers.provider, { confirmations });
+            saveIndex(path, state);
+            console.log(`Indexed ${applied} events across ${state.auctions.length} auctions into ${path}`);
+            return;
+        }
+
+        console.log(`Following ${state.auctions.length} auctions into ${path}`);
+        await new Promise<void>((resolve) => {
+            const stop = followIndex(state, ethers.provider, {
+                confirmations,
+                interval: interval * 1000,
+                path,
+                onSync: (_, latestBlock) =>
+                    console.log(`Synced ${state.auctions.length} auctions to block ${latestBlock - confirmations}`),
+                onError: (error: any) => console.error("Sync failed:", error?.message ?? error),
+            });
+            process.once("SIGINT", () => {
+                stop();
+                resolve();
+            });
+        });
+    } catch (error: any) {
+        console.error("Error occurred:", error.message);
+        process.exit(1);
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error("Unhandled error:", error);
+        process.exit(1);
+    });
@@ -0,0 +1,73 @@
+import { ethers } from "hardhat";
+import { Auction__factory } from "../typechain-types";
+import { connectAuctionFactory, listAuctions } from "./lib/auctionFactory";
+import { settleDueAuctions } from "./lib/keeper";
+
+// Watches deployed auctions and settles each one once it is due, collecting
+// the keeper reward. Configure it through the environment:
+//   FACTORY_ADDRESS    settle every auction created by this factory
+//   AUCTION_ADDRESSES  comma-separated auctions to settle as well
+//   KEEPER_INTERVAL    seconds between passes, defaults to 60
+//   KEEPER_MIN_REWARD  skip auctions paying less than this, in ETH or whole
+//                      tokens of each auction's payment token
+//   KEEPER_ONCE        set to run a single pass and exit
+
+function sleep(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function main() {
+    try {
+        const factoryAddress = process.env.FACTORY_ADDRESS;
+        const auctionAddresses = (process.env.AUCTION_ADDRESSES ?? "")
+            .split(",")
+            .map((address) => address.trim())
+            .filter((address) => address !== "");
+        if (!factoryAddress && auctionAddresses.length === 0) {
+            throw new Error("Set FACTORY_ADDRESS and/or AUCTION_ADDRESSES to the auctions to watch.");
+        }
+
+        const interval = Number(process.env.KEEPER_INTERVAL ?? "60");
+        const minReward = process.env.KEEPER_MIN_REWARD ?? "0";
+        const once = process.env.KEEPER_ONCE !== undefined;
+
+        const [keeper] = await ethers.getSigners();
+        console.log("Keeper address:", await keeper.getAddress());
+
+        while (true) {
+            const addresses = [...auctionAddresses];
+            if (factoryAddress) {
+                const factory = connectAuctionFactory(factoryAddress, keeper);
+                addresses.push(...(await listAuctions(factory)).map((summary) => summary.address));
+            }
+            const auctions = [...new Set(addresses)].map((address) => Auction__factory.connect(address, keeper));
+
+            const results = await settleDueAuctions(auctions, { minReward });
+            for (const result of results) {
+                if (result.error) {
+                    console.error(`Failed to settle ${result.address}: ${result.error}`);
+                } else {
+                    const { symbol, decimals } = result.unit!;
+                    const reward = ethers.formatUnits(result.keeperReward ?? 0, decimals);
+                    console.log(`Settled ${result.address} in ${result.transactionHash}, reward ${reward} ${symbol}`);
+                }
+            }
+            console.log(`Checked ${auctions.length} auctions, settled ${results.filter((r) => !r.error).length}`);
+
+            if (once) {
+                break;
+            }
+            await sleep(interval * 1000);
+        }
+    } catch (error: any) {
+        console.error("Error occurred:", error.message);
+        process.exit(1);
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error("Unhandled error:", error);
+        process.exit(1);
+    });
@@ -0,0 +1,124 @@
+import { AbiCoder, getAddress, isAddress, keccak256, parseUnits } from "ethers";
+
+// Builds the Merkle tree behind an auction's allowlist. Leaves match
+// Auction.joinAllowlist(): the double keccak256 of abi.encode(bidder, cap).
+// Pairs are hashed in sorted order, as OpenZeppelin's MerkleProof expects.
+
+export interface AllowlistEntry {
+    address: string;
+    // Highest bid or proxy maximum the bidder may place, 0 for no cap
+    cap: bigint;
+}
+
+export interface AllowlistProof extends AllowlistEntry {
+    proof: string[];
+}
+
+export interface Allowlist {
+    root: string;
+    entries: AllowlistProof[];
+}
+
+export class AllowlistError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "AllowlistError";
+    }
+}
+
+export function allowlistLeaf(entry: AllowlistEntry): string {
+    return keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(["address", "uint256"], [entry.address, entry.cap])));
+}
+
+function hashPair(a: string, b: string): string {
+    return BigInt(a) < BigInt(b) ? keccak256(a + b.slice(2)) : keccak256(b + a.slice(2));
+}
+
+// Builds the root and every entry's proof. Leaves are sorted, so the root
+// doesn't depend on the order of the entries.
+export function buildAllowlist(entries: AllowlistEntry[]): Allowlist {
+    if (entries.length === 0) {
+        throw new AllowlistError("The allowlist is empty");
+    }
+    const seen = new Set<string>();
+    for (const entry of entries) {
+        const address = getAddress(entry.address);
+        if (seen.has(address)) {
+            throw new AllowlistError(`${address} is listed more than once`);
+        }
+        seen.add(address);
+    }
+
+    const leaves = entries
+        .map((entry) => ({ entry: { address: getAddress(entry.address), cap: entry.cap }, hash: allowlistLeaf(entry) }))
+        .sort((a, b) => (BigInt(a.hash) < BigInt(b.hash) ? -1 : 1));
+
+    // Each layer halves the one below it; an odd node out moves up unpaired
+    const layers = [leaves.map((leaf) => leaf.hash)];
+    while (layers[layers.length - 1].length > 1) {
+        const layer = layers[layers.length - 1];
+        const next: string[] = [];
+        for (let i = 0; i < layer.length; i += 2) {
+            next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+        }
+        layers.push(next);
+    }
+
+    return {
+        root: layers[layers.length - 1][0],
+        entries: leaves.map((leaf, leafIndex) => {
+            const proof: string[] = [];
+            let index = leafIndex;
+            for (const layer of layers.slice(0, -1)) {
+                const sibling = index % 2 === 0 ? index + 1 : index - 1;
+                if (sibling < layer.length) {
+                    proof.push(layer[sibling]);
+                }
+                index = Math.floor(index / 2);
+            }
+            return { ...leaf.entry, proof };
+        }),
+    };
+}
+
+export function getAllowlistProof(allowlist: Allowlist, address: string): AllowlistProof {
+    const entry = allowlist.entries.find((candidate) => candidate.address === getAddress(address));
+    if (entry === undefined) {
+        throw new AllowlistError(`${address} is not on the allowlist`);
+    }
+    return entry;
+}
+
+// Reads one bidder per line as `address` or `address,cap`. Caps are in
+// whole tokens, e.g. 1.5 for 1.5 ETH, and converted with `decimals`. Blank
+// lines, `#` comments and an `address,cap` header are skipped.
+export function parseAllowlistCsv(csv: string, decimals = 18): AllowlistEntry[] {
+    const entries: AllowlistEntry[] = [];
+    for (const [index, raw] of csv.split(/\r?\n/).entries()) {
+        const line = raw.trim();
+        if (line === "" || line.startsWith("#")) {
+            continue;
+        }
+        const [address, cap = "", ...rest] = line.split(",").map((cell) => cell.trim());
+        if (index === 0 && address.toLowerCase() === "address") {
+            continue;
+        }
+        if (rest.length > 0 || !isAddress(address)) {
+            throw new AllowlistError(`Line ${index + 1}: expected "address" or "address,cap", got "${line}"`);
+        }
+
+        let parsedCap = BigInt(0);
+        if (cap !== "") {
+            try {
+                parsedCap = parseUnits(cap, decimals);
+            } catch {
+                throw new AllowlistError(`Line ${index + 1}: "${cap}" is not a cap`);
+            }
+            if (parsedCap < BigInt(0)) {
+                throw new AllowlistError(`Line ${index + 1}: "${cap}" is not a cap`);
+            }
+        }
+        entries.push({ address: getAddress(address), cap: parsedCap });
+    }
+    return entries;
+}
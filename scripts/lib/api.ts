@@ -0,0 +1,271 @@
+import { createServer } from "http";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import { isAddress, ZeroAddress } from "ethers";
+import type { Provider, Result } from "ethers";
+import { Auction__factory, AuctionFactory__factory } from "../../typechain-types";
+import type { Auction } from "../../typechain-types";
+import { decodeRevert } from "./errors";
+
+// Small REST service over deployed auctions. It only reads state and builds
+// unsigned transactions; wallets sign and send them. Routes:
+//   GET  /auctions                       every known auction with its status
+//   GET  /auctions/:address              one auction with its status and configuration
+//   GET  /auctions/:address/bids         bid history, paged with ?offset=&limit=
+//   POST /auctions/:address/bid          { from, amount } unsigned bid transaction
+//   POST /auctions/:address/end          { from } unsigned endAuction transaction
+//   POST /auctions/:address/withdraw     { from } unsigned withdraw transaction
+
+export interface ApiOptions {
+    provider: Provider;
+    // Auctions created by this factory are listed and served
+    factoryAddress?: string;
+    // Further auctions to list and serve
+    auctionAddresses?: string[];
+}
+
+export interface UnsignedTransaction {
+    from: string;
+    to: string;
+    data: string;
+    value: string;
+    chainId: string;
+    gasLimit: string;
+}
+
+export class ApiError extends Error {
+    constructor(
+        public readonly status: number,
+        public readonly code: string,
+        message: string,
+        // The custom error a transaction would revert with, and its arguments
+        public readonly reason?: string,
+        public readonly args?: Record<string, unknown>
+    ) {
+        super(message);
+        this.name = "ApiError";
+    }
+}
+
+// Auction custom errors mapped to stable codes for clients
+export const REVERT_CODES: Record<string, string> = {
+    AuctionIsPaused: "AUCTION_PAUSED",
+    AuctionNotStarted: "AUCTION_NOT_STARTED",
+    AuctionHasEnded: "AUCTION_ENDED",
+    AuctionAlreadyEnded: "AUCTION_ALREADY_ENDED",
+    AuctionStillRunning: "AUCTION_NOT_ENDED",
+    AuctionNotEnded: "AUCTION_NOT_ENDED",
+    AuctionAlreadySettled: "AUCTION_SETTLED",
+    NotOwner: "NOT_OWNER",
+    BidNotHigher: "BID_TOO_LOW",
+    BidBelowStartingPrice: "BID_TOO_LOW",
+    BidIncrementTooLow: "BID_TOO_LOW",
+    BidAboveCap: "BID_ABOVE_CAP",
+    NotAllowlisted: "NOT_ALLOWLISTED",
+    PaidInTokens: "WRONG_PAYMENT_MODE",
+    PaidInEther: "WRONG_PAYMENT_MODE",
+    TransferFailed: "TRANSFER_FAILED",
+    EmergencyExitAvailable: "EMERGENCY_EXIT_OPEN",
+};
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_BODY_BYTES = 64 * 1024;
+
+// Turns a failed call into an ApiError, named after the custom error the
+// call would revert with and carrying its arguments.
+export function revertToApiError(error: any): ApiError {
+    const revert = decodeRevert(error);
+    if (revert === undefined) {
+        return new ApiError(502, "RPC_ERROR", error?.shortMessage ?? error?.message ?? String(error));
+    }
+    return new ApiError(
+        409,
+        REVERT_CODES[revert.errorName] ?? "REVERTED",
+        `Transaction would revert: ${revert.message}`,
+        revert.errorName,
+        revert.args
+    );
+}
+
+// Bigints are sent as decimal strings
+function toJson(value: unknown): string {
+    return JSON.stringify(value, (_, item) => (typeof item === "bigint" ? item.toString() : item));
+}
+
+// Typechain types struct outputs as tuples, but at runtime they are ethers Results
+function plain(struct: object): Record<string, any> {
+    return (struct as Result).toObject(true);
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(toJson(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<Record<string, any>> {
+    let raw = "";
+    for await (const chunk of req) {
+        raw += chunk;
+        if (raw.length > MAX_BODY_BYTES) {
+            throw new ApiError(413, "BODY_TOO_LARGE", "Request body is too large");
+        }
+    }
+    if (raw === "") {
+        return {};
+    }
+    try {
+        const body = JSON.parse(raw);
+        if (typeof body !== "object" || body === null || Array.isArray(body)) {
+            throw new Error();
+        }
+        return body;
+    } catch {
+        throw new ApiError(400, "INVALID_BODY", "Request body must be a JSON object");
+    }
+}
+
+function requireAddress(value: unknown, field: string): string {
+    if (typeof value !== "string" || !isAddress(value)) {
+        throw new ApiError(400, "INVALID_ADDRESS", `"${field}" must be an address`);
+    }
+    return value;
+}
+
+// Amounts are decimal strings in wei or token units, since JSON numbers
+// lose precision above 2^53
+function parseAmount(value: unknown, field: string): bigint {
+    if (typeof value !== "string" || !/^\d+$/.test(value)) {
+        throw new ApiError(400, "INVALID_AMOUNT", `"${field}" must be an amount in wei or token units as a string`);
+    }
+    return BigInt(value);
+}
+
+function parseIndex(value: string | null, field: string, fallback: number): bigint {
+    if (value === null) {
+        return BigInt(fallback);
+    }
+    if (!/^\d+$/.test(value)) {
+        throw new ApiError(400, "INVALID_QUERY", `"${field}" must be a non-negative integer`);
+    }
+    return BigInt(value);
+}
+
+export function createApiServer({ provider, factoryAddress, auctionAddresses = [] }: ApiOptions): Server {
+    const factory = factoryAddress ? AuctionFactory__factory.connect(factoryAddress, provider) : undefined;
+
+    async function knownAuctions(): Promise<string[]> {
+        const addresses = [...auctionAddresses, ...(factory ? await factory.getAuctions() : [])];
+        return [...new Map(addresses.map((address) => [address.toLowerCase(), address])).values()];
+    }
+
+    async function loadAuction(address: string): Promise<Auction> {
+        requireAddress(address, "address");
+        const listed =
+            auctionAddresses.some((known) => known.toLowerCase() === address.toLowerCase()) ||
+            (factory !== undefined && (await factory.isAuction(address)));
+        if ((!listed && (factory || auctionAddresses.length > 0)) || (await provider.getCode(address)) === "0x") {
+            throw new ApiError(404, "AUCTION_NOT_FOUND", `No auction is known at ${address}`);
+        }
+        return Auction__factory.connect(address, provider);
+    }
+
+    async function describeAuction(auction: Auction) {
+        const [info, [, timeRemaining]] = await Promise.all([auction.getAuctionInfo(), auction.getAuctionStatus()]);
+        return { address: await auction.getAddress(), timeRemaining, ...plain(info) };
+    }
+
+    async function buildTransaction(
+        auction: Auction,
+        from: string,
+        method: "bid()" | "bid(uint256)" | "endAuction" | "withdraw",
+        args: unknown[],
+        value = BigInt(0)
+    ): Promise<UnsignedTransaction> {
+        const fn = auction.getFunction(method);
+        const overrides = { from, value };
+        let gasLimit: bigint;
+        try {
+            gasLimit = await fn.estimateGas(...args, overrides);
+        } catch (error) {
+            throw revertToApiError(error);
+        }
+        const tx = await fn.populateTransaction(...args, overrides);
+        const { chainId } = await provider.getNetwork();
+
+        return {
+            from,
+            to: tx.to,
+            data: tx.data,
+            value: value.toString(),
+            chainId: chainId.toString(),
+            gasLimit: gasLimit.toString(),
+        };
+    }
+
+    async function route(req: IncomingMessage): Promise<[number, unknown]> {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const parts = url.pathname.split("/").filter((part) => part !== "");
+        const method = req.method ?? "GET";
+
+        if (parts[0] !== "auctions" || parts.length > 3) {
+            throw new ApiError(404, "NOT_FOUND", `No route for ${method} ${url.pathname}`);
+        }
+
+        if (parts.length === 1 && method === "GET") {
+            const auctions = await Promise.all(
+                (await knownAuctions()).map((address) => describeAuction(Auction__factory.connect(address, provider)))
+            );
+            return [200, { auctions }];
+        }
+
+        if (parts.length >= 2) {
+            const auction = await loadAuction(parts[1]);
+            const action = parts[2];
+
+            if (action === undefined && method === "GET") {
+                return [200, await describeAuction(auction)];
+            }
+            if (action === "bids" && method === "GET") {
+                const offset = parseIndex(url.searchParams.get("offset"), "offset", 0);
+                const limit = parseIndex(url.searchParams.get("limit"), "limit", DEFAULT_PAGE_SIZE);
+                const [total, bids] = await Promise.all([auction.bidCount(), auction.getBids(offset, limit)]);
+                return [200, { total, offset, bids: bids.map((bid) => plain(bid)) }];
+            }
+            if (method === "POST" && (action === "bid" || action === "end" || action === "withdraw")) {
+                const body = await readBody(req);
+                const from = requireAddress(body.from, "from");
+
+                if (action === "bid") {
+                    const amount = parseAmount(body.amount, "amount");
+                    const transaction =
+                        (await auction.paymentToken()) === ZeroAddress
+                        ? await buildTransaction(auction, from, "bid()", [], amount)
+                        : await buildTransaction(auction, from, "bid(uint256)", [amount]);
+                    return [200, { transaction }];
+                }
+                const method = action === "end" ? "endAuction" : "withdraw";
+                return [200, { transaction: await buildTransaction(auction, from, method, []) }];
+            }
+        }
+
+        throw new ApiError(404, "NOT_FOUND", `No route for ${method} ${url.pathname}`);
+    }
+
+    return createServer((req, res) => {
+        route(req)
+            .then(([status, body]) => send(res, status, body))
+            .catch((error) => {
+                const apiError =
+                    error instanceof ApiError
+                        ? error
+                        : new ApiError(500, "INTERNAL_ERROR", error?.message ?? String(error));
+                send(res, apiError.status, {
+                    error: {
+                        code: apiError.code,
+                        message: apiError.message,
+                        reason: apiError.reason,
+                        args: apiError.args,
+                    },
+                });
+            });
+    });
+}
@@ -0,0 +1,138 @@
+import { ZeroAddress, ZeroHash } from "ethers";
+import type { ContractRunner } from "ethers";
+import { Auction__factory, AuctionFactory__factory } from "../../typechain-types";
+import type { Auction, AuctionFactory } from "../../typechain-types";
+
+// Typed helpers for creating and listing auctions through an AuctionFactory.
+
+export type AuctionConfig = Auction.AuctionConfigStruct;
+export type AuctionItem = Auction.ItemStruct;
+
+// Mirrors Auction.ItemStandard
+export enum ItemStandard {
+    None = 0,
+    ERC721 = 1,
+    ERC1155 = 2,
+}
+
+export const NO_ITEM: AuctionItem = {
+    standard: ItemStandard.None,
+    token: ZeroAddress,
+    tokenId: 0,
+    amount: 0,
+};
+
+export interface CreatedAuction {
+    address: string;
+    auction: Auction;
+    creator: string;
+    endTime: bigint;
+    transactionHash: string;
+}
+
+export interface AuctionSummary {
+    address: string;
+    owner: string;
+    endTime: bigint;
+    timeRemaining: bigint;
+    isEnded: boolean;
+    isPaused: boolean;
+    highestBidder: string;
+    highestBid: bigint;
+}
+
+export function connectAuctionFactory(address: string, runner: ContractRunner): AuctionFactory {
+    return AuctionFactory__factory.connect(address, runner);
+}
+
+// Auction settings with every optional rule switched off: a one hour
+// auction paid in ETH to its owner with a 10% outbid bonus, no pricing or
+// extension rules, no item, no emergency exit, no fee, no keeper reward and
+// no allowlist, with bidding open from deployment.
+export function auctionConfig(overrides: Partial<AuctionConfig> = {}): AuctionConfig {
+    return {
+        duration: 3600,
+        bonusBps: 1000,
+        startingPrice: 0,
+        reservePrice: 0,
+        minIncrement: 0,
+        minIncrementBps: 0,
+        extensionWindow: 0,
+        extensionDuration: 0,
+        maxExtension: 0,
+        item: NO_ITEM,
+        paymentToken: ZeroAddress,
+        emergencyDelay: 0,
+        beneficiary: ZeroAddress,
+        feeRecipient: ZeroAddress,
+        feeBps: 0,
+        keeperRewardBps: 0,
+        maxKeeperReward: 0,
+        maxRoyaltyBps: 0,
+        startTime: 0,
+        allowlistRoot: ZeroHash,
+        ...overrides,
+    };
+}
+
+export async function createAuction(
+    factory: AuctionFactory,
+    config: AuctionConfig
+): Promise<CreatedAuction> {
+    const tx = await factory.createAuction(config);
+    const receipt = await tx.wait();
+    if (receipt === null) {
+        throw new Error(`Transaction ${tx.hash} was not mined`);
+    }
+
+    for (const log of receipt.logs) {
+        const parsed = factory.interface.parseLog(log);
+        if (parsed?.name === "AuctionCreated") {
+            const { creator, auction, endTime } = parsed.args;
+            return {
+                address: auction,
+                auction: Auction__factory.connect(auction, factory.runner),
+                creator,
+                endTime,
+                transactionHash: tx.hash,
+            };
+        }
+    }
+
+    throw new Error(`Transaction ${tx.hash} did not emit AuctionCreated`);
+}
+
+export async function getAuctionSummary(auction: Auction): Promise<AuctionSummary> {
+    const [[endTime, timeRemaining, isEnded, isPaused], owner, highestBidder, highestBid] =
+        await Promise.all([
+            auction.getAuctionStatus(),
+            auction.owner(),
+            auction.highestBidder(),
+            auction.highestBid(),
+        ]);
+
+    return {
+        address: await auction.getAddress(),
+        owner,
+        endTime,
+        timeRemaining,
+        isEnded,
+        isPaused,
+        highestBidder,
+        highestBid,
+    };
+}
+
+// Lists every auction created by the factory, or only those of `creator`.
+export async function listAuctions(
+    factory: AuctionFactory,
+    creator?: string
+): Promise<AuctionSummary[]> {
+    const addresses = creator
+        ? await factory.getAuctionsByCreator(creator)
+        : await factory.getAuctions();
+
+    return Promise.all(
+        addresses.map((address) => getAuctionSummary(Auction__factory.connect(address, factory.runner)))
+    );
+}
@@ -0,0 +1,460 @@
+import { parseArgs } from "util";
+import { formatUnits, isAddress, parseUnits, ZeroAddress } from "ethers";
+import type { Provider, Result, Signer } from "ethers";
+import { Auction__factory, IERC20Metadata__factory } from "../../typechain-types";
+import type { Auction } from "../../typechain-types";
+import { auctionConfig } from "./auctionFactory";
+import { decodeRevert } from "./errors";
+import type { ContractRevertError } from "./errors";
+
+// Command logic for the operator CLI in scripts/cli.ts. Every transaction is
+// simulated with staticCall and priced with estimateGas before it is sent,
+// and a call that would revert is reported with the modifier that stops it.
+
+export const COMMANDS = ["deploy", "bid", "status", "end", "withdraw", "pause", "watch"] as const;
+
+export type Command = (typeof COMMANDS)[number];
+
+export const USAGE = `Usage: npx ts-node scripts/cli.ts <command> [options]
+
+Commands:
+  deploy     Deploy an auction, funding its bonus reserve with --amount if given
+  bid        Bid --amount on the auction at --address
+  status     Print the status and configuration of the auction at --address
+  end        End the auction at --address once its end time has passed
+  withdraw   Withdraw the proceeds of the auction at --address to its owner
+  pause      Pause bidding on the auction at --address, or resume it with --resume
+  watch      Print the events of the auction at --address as they happen
+
+Options:
+  --network <name>     Hardhat network to use, defaults to hardhat
+  --address <address>  Auction to operate on
+  --amount <amount>    Amount with an optional unit: 0.01, "0.01 ether", 10gwei, 1000wei,
+                       or whole tokens without a unit for token auctions
+  --from <address>     Account to send from, defaults to the first configured account
+  --duration <secs>    Auction duration for deploy, defaults to 3600
+  --bonus-bps <bps>    Outbid bonus for deploy, defaults to 1000
+  --interval <secs>    Seconds between polls for watch, defaults to 5
+  --resume             Resume bidding instead of pausing it
+  --json               Print results as JSON`;
+
+export interface CliOptions {
+    command: Command;
+    network?: string;
+    address?: string;
+    // Parsed once the auction's payment token and its decimals are known
+    amount?: string;
+    from?: string;
+    duration: number;
+    bonusBps: number;
+    interval: number;
+    resume: boolean;
+    json: boolean;
+}
+
+export interface CliContext {
+    provider: Provider;
+    signer: Signer;
+}
+
+export interface TransactionResult {
+    command: Exclude<Command, "status" | "watch">;
+    address: string;
+    method: string;
+    from: string;
+    hash: string;
+    blockNumber: number;
+    gasEstimate: bigint;
+    gasUsed: bigint;
+}
+
+export interface StatusResult extends Record<string, unknown> {
+    command: "status";
+    address: string;
+    timeRemaining: bigint;
+}
+
+export type CommandResult = TransactionResult | StatusResult;
+
+// The unit amounts are printed in: ETH, or the auction's payment token
+export interface PaymentUnit {
+    symbol: string;
+    decimals: bigint;
+}
+
+const ETHER_UNIT: PaymentUnit = { symbol: "ETH", decimals: BigInt(18) };
+
+export interface WatchedEvent {
+    name: string;
+    args: Record<string, unknown>;
+    blockNumber: number;
+    transactionHash: string;
+}
+
+export interface WatchOptions {
+    // Block to start from, defaults to the block after the latest one
+    fromBlock?: number;
+    // Milliseconds between polls, defaults to 5 seconds
+    interval?: number;
+    onEvent: (event: WatchedEvent) => void;
+    onError?: (error: unknown) => void;
+}
+
+export class CliError extends Error {
+    constructor(
+        message: string,
+        // Set when a transaction would revert
+        public readonly revert?: ContractRevertError,
+        // The modifier that stops it, when it is not the function body
+        public readonly modifier?: string
+    ) {
+        super(message);
+        this.name = "CliError";
+    }
+}
+
+// The modifier behind each error a modifier reverts with
+const MODIFIER_ERRORS: Record<string, string> = {
+    AuctionNotStarted: "onlyAfterStart",
+    AuctionHasEnded: "onlyBeforeEnd",
+    AuctionStillRunning: "onlyAfterEnd",
+    NotOwner: "onlyOwner",
+    NotOwnerOrOperator: "onlyOwnerOrOperator",
+    AuctionIsPaused: "whenNotPaused",
+    NotAllowlisted: "onlyAllowlisted",
+    PaidInTokens: "onlyEther",
+    PaidInEther: "onlyToken",
+};
+
+// Parses an amount such as "0.01", "0.01 ether", "10gwei" or "1000 wei".
+// Amounts without a unit are in ether. Token amounts are given in whole
+// tokens without a unit, and `decimals` is the payment token's.
+export function parseAmount(value: string, decimals?: number): bigint {
+    const match = /^(\d+(?:\.\d+)?)\s*(wei|gwei|ether|eth)?$/i.exec(value.trim());
+    if (!match) {
+        throw new CliError(`"${value}" is not an amount, use a number with an optional wei, gwei or ether unit`);
+    }
+    if (decimals !== undefined && match[2] !== undefined) {
+        throw new CliError(`"${value}" is a token amount, give it in whole tokens without a unit`);
+    }
+    const unit = (match[2] ?? "ether").toLowerCase();
+    try {
+        return parseUnits(match[1], decimals ?? (unit === "eth" ? "ether" : unit));
+    } catch {
+        throw new CliError(`"${value}" has more decimals than ${decimals === undefined ? unit : "the token"} allows`);
+    }
+}
+
+function parseInteger(value: string | undefined, option: string, fallback: number): number {
+    if (value === undefined) {
+        return fallback;
+    }
+    if (!/^\d+$/.test(value)) {
+        throw new CliError(`--${option} must be a non-negative integer`);
+    }
+    return Number(value);
+}
+
+function requireAddress(value: string | undefined, option: string): string {
+    if (value === undefined) {
+        throw new CliError(`--${option} is required`);
+    }
+    if (!isAddress(value)) {
+        throw new CliError(`"${value}" is not a valid address`);
+    }
+    return value;
+}
+
+export function parseCliArgs(argv: string[]): CliOptions {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                network: { type: "string" },
+                address: { type: "string" },
+                amount: { type: "string" },
+                from: { type: "string" },
+                duration: { type: "string" },
+                "bonus-bps": { type: "string" },
+                interval: { type: "string" },
+                resume: { type: "boolean", default: false },
+                json: { type: "boolean", default: false },
+            },
+        });
+    } catch (error: any) {
+        throw new CliError(`${error.message}\n\n${USAGE}`);
+    }
+    const { values, positionals } = parsed;
+
+    const command = positionals[0] as Command | undefined;
+    if (command === undefined || !COMMANDS.includes(command) || positionals.length > 1) {
+        throw new CliError(`Expected one command out of ${COMMANDS.join(", ")}\n\n${USAGE}`);
+    }
+
+    const options: CliOptions = {
+        command,
+        network: values.network,
+        address: command === "deploy" ? undefined : requireAddress(values.address, "address"),
+        amount: values.amount,
+        from: values.from === undefined ? undefined : requireAddress(values.from, "from"),
+        duration: parseInteger(values.duration, "duration", 3600),
+        bonusBps: parseInteger(values["bonus-bps"], "bonus-bps", 1000),
+        interval: parseInteger(values.interval, "interval", 5),
+        resume: values.resume,
+        json: values.json,
+    };
+    if (command === "bid" && options.amount === undefined) {
+        throw new CliError("--amount is required to bid");
+    }
+    return options;
+}
+
+// Explains why a call to `method` would revert, naming the modifier that
+// stops it when the error comes from one.
+export function explainRevert(method: string, error: unknown): CliError {
+    const revert = decodeRevert(error);
+    if (revert === undefined) {
+        const message = (error as any)?.shortMessage ?? (error as any)?.message ?? String(error);
+        return new CliError(`${method} could not be simulated: ${message}`);
+    }
+
+    const modifier = MODIFIER_ERRORS[revert.errorName];
+    if (modifier !== undefined) {
+        return new CliError(`${method} would revert in modifier ${modifier}: ${revert.message}`, revert, modifier);
+    }
+    return new CliError(`${method} would revert: ${revert.message}`, revert);
+}
+
+async function sendChecked(
+    command: TransactionResult["command"],
+    auction: Auction,
+    method: "bid()" | "bid(uint256)" | "fundBonusReserve()" | "endAuction" | "withdraw" | "setPaused",
+    args: unknown[],
+    value = BigInt(0)
+): Promise<TransactionResult> {
+    const from = await (auction.runner as Signer).getAddress();
+    const fn = auction.getFunction(method);
+    const overrides = { value };
+
+    let gasEstimate: bigint;
+    try {
+        await fn.staticCall(...args, overrides);
+        gasEstimate = await fn.estimateGas(...args, overrides);
+    } catch (error) {
+        throw explainRevert(method, error);
+    }
+
+    const tx = await fn.send(...args, { ...overrides, gasLimit: gasEstimate });
+    const receipt = await tx.wait();
+
+    return {
+        command,
+        address: await auction.getAddress(),
+        method,
+        from,
+        hash: tx.hash,
+        blockNumber: receipt!.blockNumber,
+        gasEstimate,
+        gasUsed: receipt!.gasUsed,
+    };
+}
+
+// Parses a bid in the payment token's decimals. The auction pulls token bids
+// with transferFrom, so the bidder has to approve it for the amount first.
+async function tokenBid(auction: Auction, paymentToken: string, value: string): Promise<bigint> {
+    const signer = auction.runner as Signer;
+    const token = IERC20Metadata__factory.connect(paymentToken, signer);
+    const spender = await auction.getAddress();
+    const [decimals, symbol, allowance] = await Promise.all([
+        token.decimals(),
+        token.symbol(),
+        token.allowance(await signer.getAddress(), spender),
+    ]);
+
+    const amount = parseAmount(value, Number(decimals));
+    if (allowance < amount) {
+        throw new CliError(
+            `Approve the auction to spend ${formatUnits(amount, decimals)} ${symbol} first: ` +
+                `call approve(${spender}, ${amount}) on ${paymentToken}, ` +
+                `the current allowance is ${formatUnits(allowance, decimals)} ${symbol}`
+        );
+    }
+    return amount;
+}
+
+// The unit the auction's bids, refunds and proceeds are paid in. Dutch
+// auctions take ETH only and have no paymentToken().
+export async function paymentUnit(auction: Auction): Promise<PaymentUnit> {
+    const paymentToken = await auction.paymentToken().catch(() => ZeroAddress);
+    if (paymentToken === ZeroAddress) {
+        return ETHER_UNIT;
+    }
+    const token = IERC20Metadata__factory.connect(paymentToken, auction.runner);
+    const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+    return { symbol, decimals };
+}
+
+async function connectAuction(address: string, { provider, signer }: CliContext): Promise<Auction> {
+    if ((await provider.getCode(address)) === "0x") {
+        throw new CliError(`No contract is deployed at ${address}`);
+    }
+    return Auction__factory.connect(address, signer);
+}
+
+// Typechain types struct outputs as tuples, but at runtime they are ethers Results
+function plain(struct: object): Record<string, any> {
+    return (struct as Result).toObject(true);
+}
+
+async function deploy(options: CliOptions, { signer }: CliContext): Promise<TransactionResult> {
+    // Parsed up front so that a malformed amount doesn't leave an unfunded auction behind
+    const amount = options.amount === undefined ? undefined : parseAmount(options.amount);
+    const factory = new Auction__factory(signer);
+    const config = auctionConfig({ duration: options.duration, bonusBps: options.bonusBps });
+
+    let gasEstimate: bigint;
+    try {
+        gasEstimate = await signer.estimateGas(await factory.getDeployTransaction(config));
+    } catch (error) {
+        throw explainRevert("constructor", error);
+    }
+
+    const auction = await factory.deploy(config, { gasLimit: gasEstimate });
+    const receipt = await auction.deploymentTransaction()!.wait();
+    const deployed: TransactionResult = {
+        command: "deploy",
+        address: await auction.getAddress(),
+        method: "constructor",
+        from: await signer.getAddress(),
+        hash: receipt!.hash,
+        blockNumber: receipt!.blockNumber,
+        gasEstimate,
+        gasUsed: receipt!.gasUsed,
+    };
+
+    if (amount !== undefined) {
+        await sendChecked("deploy", auction, "fundBonusReserve()", [], amount);
+    }
+    return deployed;
+}
+
+// Runs every command except watch, which streams instead of returning
+export async function runCommand(options: CliOptions, context: CliContext): Promise<CommandResult> {
+    if (options.command === "deploy") {
+        return deploy(options, context);
+    }
+
+    const auction = await connectAuction(options.address!, context);
+    switch (options.command) {
+        case "status": {
+            const [info, [, timeRemaining]] = await Promise.all([
+                auction.getAuctionInfo(),
+                auction.getAuctionStatus(),
+            ]);
+            return { command: "status", address: options.address!, timeRemaining, ...plain(info) };
+        }
+        case "bid": {
+            const paymentToken = await auction.paymentToken();
+            if (paymentToken === ZeroAddress) {
+                return sendChecked("bid", auction, "bid()", [], parseAmount(options.amount!));
+            }
+            const amount = await tokenBid(auction, paymentToken, options.amount!);
+            return sendChecked("bid", auction, "bid(uint256)", [amount]);
+        }
+        case "end":
+            return sendChecked("end", auction, "endAuction", []);
+        case "withdraw":
+            return sendChecked("withdraw", auction, "withdraw", []);
+        case "pause":
+            return sendChecked("pause", auction, "setPaused", [!options.resume]);
+        default:
+            throw new CliError(`${options.command} does not return a result, use watchAuction`);
+    }
+}
+
+// Polls for new events of the auction until the returned function is called
+export function watchAuction(auction: Auction, provider: Provider, options: WatchOptions): () => void {
+    let stopped = false;
+    let timer: NodeJS.Timeout | undefined;
+    let nextBlock = options.fromBlock;
+
+    const poll = async () => {
+        try {
+            const latest = await provider.getBlockNumber();
+            nextBlock ??= latest + 1;
+            if (latest >= nextBlock) {
+                const logs = await provider.getLogs({
+                    address: await auction.getAddress(),
+                    fromBlock: nextBlock,
+                    toBlock: latest,
+                });
+                for (const log of logs) {
+                    const parsed = auction.interface.parseLog(log);
+                    if (parsed && !stopped) {
+                        options.onEvent({
+                            name: parsed.name,
+                            args: parsed.args.toObject(true),
+                            blockNumber: log.blockNumber,
+                            transactionHash: log.transactionHash,
+                        });
+                    }
+                }
+                nextBlock = latest + 1;
+            }
+        } catch (error) {
+            options.onError?.(error);
+        }
+        if (!stopped) {
+            timer = setTimeout(poll, options.interval ?? 5_000);
+        }
+    };
+    void poll();
+
+    return () => {
+        stopped = true;
+        clearTimeout(timer);
+    };
+}
+
+// Bigints are printed as decimal strings
+export function toJson(value: unknown, indent = 2): string {
+    return JSON.stringify(value, (_, item) => (typeof item === "bigint" ? item.toString() : item), indent);
+}
+
+function formatValue(key: string, value: unknown, unit: PaymentUnit): string {
+    // Amounts are printed in the payment unit alongside their raw value
+    if (typeof value === "bigint" && /(Bid|Price|Increment|Reserve|Returns|Reward|amount)$/.test(key)) {
+        return `${formatUnits(value, unit.decimals)} ${unit.symbol} (${value})`;
+    }
+    if (typeof value === "object" && value !== null) {
+        return toJson(value, 0);
+    }
+    return String(value);
+}
+
+export function formatResult(result: CommandResult, unit = ETHER_UNIT): string {
+    if (result.command === "status") {
+        const { command, address, ...fields } = result;
+        return [
+            `Auction ${address}`,
+            ...Object.entries(fields).map(([key, value]) => `  ${key}: ${formatValue(key, value, unit)}`),
+        ].join("\n");
+    }
+    const transaction = result as TransactionResult;
+    const summary =
+        transaction.command === "deploy"
+            ? `Auction deployed to ${transaction.address}`
+            : `${transaction.method} sent to ${transaction.address}`;
+    return [
+        summary,
+        `  Transaction: ${transaction.hash} in block ${transaction.blockNumber}`,
+        `  Gas: ${transaction.gasUsed} used of ${transaction.gasEstimate} estimated`,
+    ].join("\n");
+}
+
+export function formatEvent(event: WatchedEvent, unit = ETHER_UNIT): string {
+    const args = Object.entries(event.args).map(([key, value]) => `${key}=${formatValue(key, value, unit)}`);
+    return `[block ${event.blockNumber}] ${event.name} ${args.join(" ")}`;
+}
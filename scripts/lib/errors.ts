@@ -0,0 +1,127 @@
+import { ErrorFragment, Interface } from "ethers";
+import {
+    Auction__factory,
+    AuctionFactory__factory,
+    DutchAuction__factory,
+    MultiUnitAuction__factory,
+    SealedBidAuction__factory,
+} from "../../typechain-types";
+
+// Decodes reverts from the auction contracts into ContractRevertError, so
+// scripts and services can switch on the error name instead of matching
+// revert strings. Require reasons and panics decode too, as "Error" and
+// "Panic".
+
+export type RevertKind = "custom" | "reason" | "panic";
+
+// Panic codes the compiler inserts, by code
+const PANIC_REASONS: Record<number, string> = {
+    0x01: "assertion failed",
+    0x11: "arithmetic overflow or underflow",
+    0x12: "division or modulo by zero",
+    0x21: "invalid enum value",
+    0x31: "pop from an empty array",
+    0x32: "array index out of bounds",
+    0x41: "out of memory",
+};
+
+export class ContractRevertError extends Error {
+    constructor(
+        public readonly kind: RevertKind,
+        // The custom error's name, "Error" for a require reason or "Panic"
+        public readonly errorName: string,
+        // Named arguments, such as { amount, highestBid } for BidNotHigher
+        public readonly args: Record<string, unknown>,
+        public readonly signature: string,
+        // The raw revert data
+        public readonly data: string,
+        message: string
+    ) {
+        super(message);
+        this.name = "ContractRevertError";
+    }
+}
+
+// Every error the auction contracts declare, once per selector
+const revertInterface = new Interface(
+    [
+        Auction__factory.abi,
+        AuctionFactory__factory.abi,
+        DutchAuction__factory.abi,
+        MultiUnitAuction__factory.abi,
+        SealedBidAuction__factory.abi,
+    ]
+        .flat()
+        .filter((fragment) => fragment.type === "error")
+        .map((fragment) => ErrorFragment.from(fragment))
+        .filter((fragment, index, all) => all.findIndex((other) => other.selector === fragment.selector) === index)
+);
+
+// Finds the revert data on an error from an ethers JSON-RPC provider, which
+// nests it, the in-process Hardhat provider, which sets it directly, or
+// Hardhat's provider for a remote node, which wraps it in a `data` object.
+function revertData(error: any): string | undefined {
+    for (let current = error; current; current = current.error ?? current.info?.error) {
+        const data = typeof current.data === "object" ? current.data?.data : current.data;
+        if (typeof data === "string" && data.startsWith("0x")) {
+            return data;
+        }
+    }
+    return undefined;
+}
+
+// Decodes raw revert data. Data that matches none of the contracts' errors
+// decodes as a custom error named after its selector.
+export function decodeRevertData(data: string): ContractRevertError {
+    const parsed = data.length >= 10 ? revertInterface.parseError(data) : null;
+    if (parsed === null) {
+        const selector = data.slice(0, 10);
+        return new ContractRevertError("custom", selector, {}, selector, data, `Unknown error ${selector}`);
+    }
+
+    if (parsed.name === "Error") {
+        const reason = String(parsed.args[0]);
+        return new ContractRevertError("reason", "Error", { reason }, parsed.signature, data, reason);
+    }
+    if (parsed.name === "Panic") {
+        const code = Number(parsed.args[0]);
+        const reason = PANIC_REASONS[code] ?? "unknown panic";
+        return new ContractRevertError(
+            "panic",
+            "Panic",
+            { code: parsed.args[0] },
+            parsed.signature,
+            data,
+            `Panic 0x${code.toString(16).padStart(2, "0")}: ${reason}`
+        );
+    }
+
+    const formatted = parsed.fragment.inputs.map((input, index) => `${input.name}: ${parsed.args[index]}`);
+    return new ContractRevertError(
+        "custom",
+        parsed.name,
+        parsed.args.toObject(true),
+        parsed.signature,
+        data,
+        `${parsed.name}(${formatted.join(", ")})`
+    );
+}
+
+// Decodes the revert behind a failed call or transaction, or returns
+// undefined when it failed without revert data, e.g. on an RPC error or an
+// empty revert.
+export function decodeRevert(error: unknown): ContractRevertError | undefined {
+    if (error instanceof ContractRevertError) {
+        return error;
+    }
+    const data = typeof error === "string" ? error : revertData(error);
+    if (data === undefined || data === "0x") {
+        return undefined;
+    }
+    return decodeRevertData(data);
+}
+
+// Whether `error` reverted with the custom error `name`, e.g. isRevert(error, "AuctionIsPaused")
+export function isRevert(error: unknown, name: string): boolean {
+    return decodeRevert(error)?.errorName === name;
+}
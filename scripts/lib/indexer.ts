@@ -0,0 +1,374 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { ZeroAddress } from "ethers";
+import type { Provider } from "ethers";
+import { Auction__factory, AuctionFactory__factory } from "../../typechain-types";
+
+// Rebuilds auction state from contract events into a JSON store, so past
+// auctions can still be queried after they end. Only blocks at least
+// `confirmations` deep are indexed, and an auction or factory whose last
+// indexed block has been reorganised away is re-indexed from its first block.
+
+export interface IndexedBid {
+    bidder: string;
+    amount: bigint;
+    blockNumber: number;
+    timestamp: number;
+    transactionHash: string;
+}
+
+export interface IndexedRefund {
+    bidder: string;
+    amount: bigint;
+    bonus: bigint;
+    blockNumber: number;
+    transactionHash: string;
+}
+
+export interface IndexedWithdrawal {
+    recipient: string;
+    amount: bigint;
+    blockNumber: number;
+    transactionHash: string;
+}
+
+export interface IndexedAuction {
+    address: string;
+    fromBlock: number;
+    // Factory the auction was found through, null when tracked directly
+    factory: string | null;
+    // Last block indexed and its hash, used to spot reorgs
+    syncedBlock: number;
+    syncedBlockHash: string | null;
+    owner: string | null;
+    duration: bigint | null;
+    endTime: bigint | null;
+    highestBidder: string;
+    highestBid: bigint;
+    paused: boolean;
+    ended: boolean;
+    // Ended by cancelAuction() or the emergency exit, with no winner
+    voided: boolean;
+    winner: string | null;
+    winningBid: bigint | null;
+    bids: IndexedBid[];
+    refunds: IndexedRefund[];
+    withdrawals: IndexedWithdrawal[];
+}
+
+export interface IndexedFactory {
+    address: string;
+    fromBlock: number;
+    // Last block indexed and its hash, used to spot reorgs
+    syncedBlock: number;
+    syncedBlockHash: string | null;
+}
+
+export interface IndexState {
+    factories: IndexedFactory[];
+    auctions: IndexedAuction[];
+}
+
+export interface AuctionOutcome {
+    voided: boolean;
+    winner: string | null;
+    winningBid: bigint;
+    bidCount: number;
+    totalWithdrawn: bigint;
+}
+
+export interface SyncOptions {
+    // Blocks a log must be buried under before it is indexed
+    confirmations?: number;
+}
+
+export interface FollowOptions extends SyncOptions {
+    // Milliseconds between syncs, defaults to 15 seconds
+    interval?: number;
+    // Store the index is saved to after every sync
+    path?: string;
+    onSync?: (state: IndexState, latestBlock: number) => void;
+    onError?: (error: unknown) => void;
+}
+
+export function emptyIndex(): IndexState {
+    return { factories: [], auctions: [] };
+}
+
+// Bigints are stored as decimal strings with an "n" suffix, the same
+// notation the Ignition parameter files use.
+export function loadIndex(path: string): IndexState {
+    if (!existsSync(path)) {
+        return emptyIndex();
+    }
+    return JSON.parse(readFileSync(path, "utf8"), (_, value) =>
+        typeof value === "string" && /^-?\d+n$/.test(value) ? BigInt(value.slice(0, -1)) : value
+    );
+}
+
+export function saveIndex(path: string, state: IndexState) {
+    writeFileSync(
+        path,
+        JSON.stringify(state, (_, value) => (typeof value === "bigint" ? `${value}n` : value), 2)
+    );
+}
+
+function newAuction(address: string, fromBlock: number, factory: string | null = null): IndexedAuction {
+    return {
+        address,
+        fromBlock,
+        factory,
+        syncedBlock: fromBlock - 1,
+        syncedBlockHash: null,
+        owner: null,
+        duration: null,
+        endTime: null,
+        highestBidder: ZeroAddress,
+        highestBid: BigInt(0),
+        paused: false,
+        ended: false,
+        voided: false,
+        winner: null,
+        winningBid: null,
+        bids: [],
+        refunds: [],
+        withdrawals: [],
+    };
+}
+
+function findAuction(state: IndexState, address: string): IndexedAuction | undefined {
+    return state.auctions.find((auction) => auction.address.toLowerCase() === address.toLowerCase());
+}
+
+// Starts indexing an auction from `fromBlock`, the block it was deployed in
+export function trackAuction(state: IndexState, address: string, fromBlock = 0): IndexedAuction {
+    const existing = findAuction(state, address);
+    if (existing) {
+        return existing;
+    }
+    const auction = newAuction(address, fromBlock);
+    state.auctions.push(auction);
+    return auction;
+}
+
+// Starts indexing every auction the factory creates from `fromBlock` on
+export function trackFactory(state: IndexState, address: string, fromBlock = 0): IndexedFactory {
+    const existing = state.factories.find((factory) => factory.address.toLowerCase() === address.toLowerCase());
+    if (existing) {
+        return existing;
+    }
+    const factory = { address, fromBlock, syncedBlock: fromBlock - 1, syncedBlockHash: null };
+    state.factories.push(factory);
+    return factory;
+}
+
+async function syncFactory(state: IndexState, factory: IndexedFactory, provider: Provider, toBlock: number) {
+    if (factory.syncedBlockHash !== null) {
+        const block = await provider.getBlock(factory.syncedBlock);
+        if (block?.hash !== factory.syncedBlockHash) {
+            // The new chain may not create the same auctions, so the ones
+            // still there are found again from the factory's first block
+            state.auctions = state.auctions.filter((auction) => auction.factory !== factory.address);
+            factory.syncedBlock = factory.fromBlock - 1;
+            factory.syncedBlockHash = null;
+        }
+    }
+    if (factory.syncedBlock >= toBlock) {
+        return;
+    }
+
+    const contract = AuctionFactory__factory.connect(factory.address, provider);
+    const created = await contract.queryFilter(contract.filters.AuctionCreated(), factory.syncedBlock + 1, toBlock);
+    for (const event of created) {
+        if (!findAuction(state, event.args.auction)) {
+            state.auctions.push(newAuction(event.args.auction, event.blockNumber, factory.address));
+        }
+    }
+
+    const synced = await provider.getBlock(toBlock);
+    factory.syncedBlock = toBlock;
+    factory.syncedBlockHash = synced?.hash ?? null;
+}
+
+// Cancellation and the emergency exit end the auction with no winner and
+// credit the highest bid back to its bidder
+function voidAuction(auction: IndexedAuction) {
+    auction.ended = true;
+    auction.voided = true;
+    auction.winner = ZeroAddress;
+    auction.winningBid = BigInt(0);
+    auction.highestBidder = ZeroAddress;
+    auction.highestBid = BigInt(0);
+}
+
+async function syncAuction(auction: IndexedAuction, provider: Provider, toBlock: number): Promise<number> {
+    if (auction.syncedBlockHash !== null) {
+        const block = await provider.getBlock(auction.syncedBlock);
+        if (block?.hash !== auction.syncedBlockHash) {
+            Object.assign(auction, newAuction(auction.address, auction.fromBlock, auction.factory));
+        }
+    }
+    if (auction.syncedBlock >= toBlock) {
+        return 0;
+    }
+
+    const contract = Auction__factory.connect(auction.address, provider);
+    const fromBlock = auction.syncedBlock + 1;
+    const query = <T extends { blockNumber: number; index: number }>(events: Promise<T[]>, apply: (event: T) => void) =>
+        events.then((logs) => logs.map((event) => ({ event, apply: () => apply(event) })));
+
+    // Filled in before any update is applied
+    const timestamps = new Map<number, number>();
+
+    const updates = (
+        await Promise.all([
+            query(contract.queryFilter(contract.filters.AuctionInitialized(), fromBlock, toBlock), (event) => {
+                auction.owner = event.args.owner;
+                auction.duration = event.args.duration;
+                auction.endTime = event.args.endTime;
+            }),
+            query(contract.queryFilter(contract.filters.NewBid(), fromBlock, toBlock), (event) => {
+                auction.highestBidder = event.args.bidder;
+                auction.highestBid = event.args.amount;
+                auction.bids.push({
+                    bidder: event.args.bidder,
+                    amount: event.args.amount,
+                    blockNumber: event.blockNumber,
+                    timestamp: timestamps.get(event.blockNumber)!,
+                    transactionHash: event.transactionHash,
+                });
+            }),
+            query(contract.queryFilter(contract.filters.Refund(), fromBlock, toBlock), (event) => {
+                auction.refunds.push({
+                    bidder: event.args.bidder,
+                    amount: event.args.refundAmount,
+                    bonus: event.args.bonus,
+                    blockNumber: event.blockNumber,
+                    transactionHash: event.transactionHash,
+                });
+            }),
+            query(contract.queryFilter(contract.filters.AuctionExtended(), fromBlock, toBlock), (event) => {
+                auction.endTime = event.args.newEndTime;
+            }),
+            query(contract.queryFilter(contract.filters.AuctionEnded(), fromBlock, toBlock), (event) => {
+                auction.ended = true;
+                auction.winner = event.args.winner;
+                auction.winningBid = event.args.winningBid;
+                // Below the reserve the top bid is credited back and there is no winner
+                auction.highestBidder = event.args.winner;
+                auction.highestBid = event.args.winningBid;
+            }),
+            query(contract.queryFilter(contract.filters.AuctionCancelled(), fromBlock, toBlock), (event) => {
+                voidAuction(auction);
+                auction.endTime = BigInt(timestamps.get(event.blockNumber)!);
+            }),
+            query(contract.queryFilter(contract.filters.EmergencyExitActivated(), fromBlock, toBlock), () => {
+                voidAuction(auction);
+            }),
+            query(contract.queryFilter(contract.filters.FundsWithdrawn(), fromBlock, toBlock), (event) => {
+                auction.withdrawals.push({
+                    recipient: event.args.owner,
+                    amount: event.args.amount,
+                    blockNumber: event.blockNumber,
+                    transactionHash: event.transactionHash,
+                });
+            }),
+            query(contract.queryFilter(contract.filters.AuctionPaused(), fromBlock, toBlock), (event) => {
+                auction.paused = event.args.paused;
+            }),
+            query(contract.queryFilter(contract.filters.OwnershipTransferred(), fromBlock, toBlock), (event) => {
+                auction.owner = event.args.newOwner;
+            }),
+        ])
+    )
+        .flat()
+        .sort((a, b) => a.event.blockNumber - b.event.blockNumber || a.event.index - b.event.index);
+
+    for (const blockNumber of new Set(updates.map(({ event }) => event.blockNumber))) {
+        timestamps.set(blockNumber, (await provider.getBlock(blockNumber))?.timestamp ?? 0);
+    }
+    for (const { apply } of updates) {
+        apply();
+    }
+
+    const synced = await provider.getBlock(toBlock);
+    auction.syncedBlock = toBlock;
+    auction.syncedBlockHash = synced?.hash ?? null;
+    return updates.length;
+}
+
+// Indexes every tracked factory and auction up to the latest confirmed
+// block and returns the number of auction events applied.
+export async function syncIndex(state: IndexState, provider: Provider, { confirmations = 0 }: SyncOptions = {}) {
+    const toBlock = (await provider.getBlockNumber()) - confirmations;
+    if (toBlock < 0) {
+        return 0;
+    }
+
+    for (const factory of state.factories) {
+        await syncFactory(state, factory, provider, toBlock);
+    }
+
+    let applied = 0;
+    for (const auction of state.auctions) {
+        applied += await syncAuction(auction, provider, toBlock);
+    }
+    return applied;
+}
+
+// Keeps syncing on an interval until the returned function is called
+export function followIndex(state: IndexState, provider: Provider, options: FollowOptions = {}): () => void {
+    let stopped = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const tick = async () => {
+        try {
+            await syncIndex(state, provider, options);
+            if (options.path) {
+                saveIndex(options.path, state);
+            }
+            options.onSync?.(state, await provider.getBlockNumber());
+        } catch (error) {
+            options.onError?.(error);
+        }
+        if (!stopped) {
+            timer = setTimeout(tick, options.interval ?? 15_000);
+        }
+    };
+    void tick();
+
+    return () => {
+        stopped = true;
+        clearTimeout(timer);
+    };
+}
+
+export function getIndexedAuction(state: IndexState, address: string): IndexedAuction | undefined {
+    return findAuction(state, address);
+}
+
+export function getBidHistory(state: IndexState, address: string): IndexedBid[] {
+    return findAuction(state, address)?.bids ?? [];
+}
+
+export function getBidsByBidder(state: IndexState, bidder: string): (IndexedBid & { auction: string })[] {
+    return state.auctions.flatMap((auction) =>
+        auction.bids
+            .filter((bid) => bid.bidder.toLowerCase() === bidder.toLowerCase())
+            .map((bid) => ({ ...bid, auction: auction.address }))
+    );
+}
+
+// The result of an ended auction, or undefined while it is still running
+export function getAuctionOutcome(state: IndexState, address: string): AuctionOutcome | undefined {
+    const auction = findAuction(state, address);
+    if (!auction?.ended) {
+        return undefined;
+    }
+    return {
+        voided: auction.voided,
+        winner: auction.winner,
+        winningBid: auction.winningBid ?? BigInt(0),
+        bidCount: auction.bids.length,
+        totalWithdrawn: auction.withdrawals.reduce((total, withdrawal) => total + withdrawal.amount, BigInt(0)),
+    };
+}
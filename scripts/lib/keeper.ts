@@ -0,0 +1,92 @@
+import { parseUnits } from "ethers";
+import type { Provider } from "ethers";
+import type { Auction } from "../../typechain-types";
+import { paymentUnit } from "./cli";
+import type { PaymentUnit } from "./cli";
+import { decodeRevert } from "./errors";
+
+// Finds auctions that are ready to settle and calls settle() on them.
+
+export interface KeeperOptions {
+    // Skip auctions whose keeper reward is below this amount, e.g. "0.01".
+    // It is read in each auction's payment unit: ETH, or whole tokens in the
+    // payment token's decimals.
+    minReward?: string;
+}
+
+export interface SettlementResult {
+    address: string;
+    transactionHash?: string;
+    keeperReward?: bigint;
+    // The unit the reward was paid in
+    unit?: PaymentUnit;
+    error?: string;
+}
+
+async function latestTimestamp(provider: Provider): Promise<bigint> {
+    const block = await provider.getBlock("latest");
+    if (block === null) {
+        throw new Error("Could not read the latest block");
+    }
+    return BigInt(block.timestamp);
+}
+
+// An auction is due once its end time has passed, as long as it has not
+// been settled, is not paused and has not opened its emergency exit.
+export async function isDue(auction: Auction, now: bigint, { minReward = "0" }: KeeperOptions = {}) {
+    const [endTime, settled, paused, emergencyExitAvailable, reward, { decimals }] = await Promise.all([
+        auction.auctionEndTime(),
+        auction.settled(),
+        auction.paused(),
+        auction.emergencyExitAvailable(),
+        auction.keeperReward(),
+        paymentUnit(auction),
+    ]);
+
+    return (
+        now >= endTime &&
+        !settled &&
+        !paused &&
+        !emergencyExitAvailable &&
+        reward >= parseUnits(minReward, decimals)
+    );
+}
+
+export async function findDueAuctions(auctions: Auction[], options: KeeperOptions = {}): Promise<Auction[]> {
+    if (auctions.length === 0) {
+        return [];
+    }
+
+    const provider = auctions[0].runner?.provider;
+    if (!provider) {
+        throw new Error("Auctions must be connected to a provider");
+    }
+    const now = await latestTimestamp(provider);
+
+    const due = await Promise.all(auctions.map((auction) => isDue(auction, now, options)));
+    return auctions.filter((_, index) => due[index]);
+}
+
+// Settles every due auction one after another. A failed settlement is
+// reported in its result rather than stopping the others.
+export async function settleDueAuctions(
+    auctions: Auction[],
+    options: KeeperOptions = {}
+): Promise<SettlementResult[]> {
+    const results: SettlementResult[] = [];
+
+    for (const auction of await findDueAuctions(auctions, options)) {
+        const address = await auction.getAddress();
+        try {
+            const [keeperReward, unit] = await Promise.all([auction.keeperReward(), paymentUnit(auction)]);
+            const tx = await auction.settle();
+            await tx.wait();
+            results.push({ address, transactionHash: tx.hash, keeperReward, unit });
+        } catch (error: any) {
+            const message = decodeRevert(error)?.message ?? error?.shortMessage ?? error?.message ?? String(error);
+            results.push({ address, error: message });
+        }
+    }
+
+    return results;
+}
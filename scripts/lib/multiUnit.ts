@@ -0,0 +1,7 @@
+// Helpers for MultiUnitAuction.
+
+// Mirrors MultiUnitAuction.ClearingRule
+export enum ClearingRule {
+    LowestWinning = 0,
+    HighestLosing = 1,
+}
@@ -0,0 +1,59 @@
+import { hexlify, randomBytes, solidityPackedKeccak256 } from "ethers";
+import type { BigNumberish, BytesLike } from "ethers";
+
+// Helpers for building SealedBidAuction commitments off-chain.
+
+// Mirrors SealedBidAuction.Settlement
+export enum Settlement {
+    FirstPrice = 0,
+    SecondPrice = 1,
+}
+
+// Mirrors SealedBidAuction.Phase
+export enum Phase {
+    Commit = 0,
+    Reveal = 1,
+    Closed = 2,
+}
+
+// Everything a bidder has to keep until the reveal phase. Losing the salt
+// makes the bid impossible to reveal, which forfeits part of the deposit.
+export interface SealedBid {
+    auction: string;
+    bidder: string;
+    amount: bigint;
+    salt: string;
+    commitment: string;
+}
+
+export function randomSalt(): string {
+    return hexlify(randomBytes(32));
+}
+
+// Matches SealedBidAuction.computeCommitment()
+export function computeCommitment(
+    auction: string,
+    bidder: string,
+    amount: BigNumberish,
+    salt: BytesLike
+): string {
+    return solidityPackedKeccak256(
+        ["address", "address", "uint256", "bytes32"],
+        [auction, bidder, amount, salt]
+    );
+}
+
+export function createSealedBid(
+    auction: string,
+    bidder: string,
+    amount: BigNumberish,
+    salt: string = randomSalt()
+): SealedBid {
+    return {
+        auction,
+        bidder,
+        amount: BigInt(amount),
+        salt,
+        commitment: computeCommitment(auction, bidder, amount, salt),
+    };
+}
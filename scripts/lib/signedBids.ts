@@ -0,0 +1,238 @@
+import { Contract, Signature, verifyTypedData } from "ethers";
+import type { ContractTransactionResponse, Provider, Signer, TypedDataDomain } from "ethers";
+import type { Auction } from "../../typechain-types";
+import { decodeRevert } from "./errors";
+
+// Signs bids as EIP-712 typed data and relays them to
+// Auction.bidWithSignature(), so bidders without gas can bid through a
+// relayer that pays it for them.
+
+export const BID_TYPES = {
+    Bid: [
+        { name: "bidder", type: "address" },
+        { name: "amount", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+const PERMIT_TYPES = {
+    Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+const PERMIT_ABI = [
+    "function name() view returns (string)",
+    "function nonces(address owner) view returns (uint256)",
+    "function eip712Domain() view returns (bytes1, string, string, uint256, address, bytes32, uint256[])",
+];
+
+// Mirrors Auction.SignedBid
+export interface SignedBid {
+    bidder: string;
+    amount: bigint;
+    nonce: bigint;
+    deadline: bigint;
+}
+
+// An EIP-2612 permit letting the auction pull the bid from the bidder
+export interface PermitSignature {
+    deadline: bigint;
+    v: number;
+    r: string;
+    s: string;
+}
+
+// What a bidder hands to a relayer
+export interface BidAuthorization {
+    bid: SignedBid;
+    signature: string;
+    // Chain the bid was signed for
+    chainId: bigint;
+    permit?: PermitSignature;
+}
+
+export interface SignBidOptions {
+    // Defaults to one hour after the latest block
+    deadline?: bigint;
+    // Defaults to the bidder's next nonce
+    nonce?: bigint;
+    // Defaults to the chain the auction is on
+    chainId?: bigint;
+}
+
+export type RelayErrorCode =
+    | "WRONG_CHAIN"
+    | "EXPIRED"
+    | "INVALID_NONCE"
+    | "INVALID_SIGNATURE"
+    | "INSUFFICIENT_DEPOSIT"
+    | "REVERTED";
+
+export class RelayError extends Error {
+    constructor(
+        public readonly code: RelayErrorCode,
+        message: string
+    ) {
+        super(message);
+        this.name = "RelayError";
+    }
+}
+
+const SIGNATURE_ERRORS: Record<string, RelayErrorCode> = {
+    SignatureExpired: "EXPIRED",
+    InvalidAccountNonce: "INVALID_NONCE",
+    InvalidSignature: "INVALID_SIGNATURE",
+    InsufficientDeposit: "INSUFFICIENT_DEPOSIT",
+};
+
+function providerOf(auction: Auction): Provider {
+    const provider = auction.runner?.provider;
+    if (!provider) {
+        throw new Error("The auction must be connected to a provider");
+    }
+    return provider;
+}
+
+async function latestTimestamp(provider: Provider): Promise<bigint> {
+    const block = await provider.getBlock("latest");
+    if (block === null) {
+        throw new Error("Could not read the latest block");
+    }
+    return BigInt(block.timestamp);
+}
+
+// The auction's EIP-712 domain, read from the contract
+export async function bidDomain(auction: Auction): Promise<TypedDataDomain> {
+    const { name, version, chainId, verifyingContract } = await auction.eip712Domain();
+    return { name, version, chainId, verifyingContract };
+}
+
+export async function signBid(
+    auction: Auction,
+    signer: Signer,
+    amount: bigint,
+    options: SignBidOptions = {}
+): Promise<BidAuthorization> {
+    const bidder = await signer.getAddress();
+    const domain = await bidDomain(auction);
+    const chainId = options.chainId ?? BigInt(domain.chainId!);
+    const bid: SignedBid = {
+        bidder,
+        amount,
+        nonce: options.nonce ?? (await auction.nonces(bidder)),
+        deadline: options.deadline ?? (await latestTimestamp(providerOf(auction))) + BigInt(3600),
+    };
+
+    const signature = await signer.signTypedData({ ...domain, chainId }, BID_TYPES, bid);
+    return { bid, signature, chainId };
+}
+
+// Signs an EIP-2612 permit for the auction to pull `authorization`'s bid
+// from the bidder, for token auctions where the bidder has not approved it.
+export async function signBidPermit(
+    auction: Auction,
+    signer: Signer,
+    authorization: BidAuthorization
+): Promise<BidAuthorization> {
+    const owner = await signer.getAddress();
+    const token = new Contract(await auction.paymentToken(), PERMIT_ABI, providerOf(auction));
+    const spender = await auction.getAddress();
+
+    // Tokens without ERC-5267 are assumed to use version "1", as OpenZeppelin's ERC20Permit does
+    let name: string;
+    let version = "1";
+    try {
+        [, name, version] = await token.eip712Domain();
+    } catch {
+        name = await token.name();
+    }
+
+    const deadline = authorization.bid.deadline;
+    const signature = await signer.signTypedData(
+        { name, version, chainId: authorization.chainId, verifyingContract: await token.getAddress() },
+        PERMIT_TYPES,
+        { owner, spender, value: authorization.bid.amount, nonce: await token.nonces(owner), deadline }
+    );
+    const { v, r, s } = Signature.from(signature);
+    return { ...authorization, permit: { deadline, v, r, s } };
+}
+
+// Checks a bid before it is relayed, so a relayer doesn't pay for a
+// transaction that would revert. Signatures from contract wallets are left
+// to the simulation in relayBid(), since only the wallet can check them.
+export async function checkSignedBid(auction: Auction, authorization: BidAuthorization): Promise<void> {
+    const { bid, signature } = authorization;
+    const provider = providerOf(auction);
+    const domain = await bidDomain(auction);
+
+    if (authorization.chainId !== BigInt(domain.chainId!)) {
+        throw new RelayError(
+            "WRONG_CHAIN",
+            `The bid was signed for chain ${authorization.chainId}, but the auction is on chain ${domain.chainId}`
+        );
+    }
+    // The bid lands in a later block than the latest one
+    const now = await latestTimestamp(provider);
+    if (bid.deadline <= now) {
+        throw new RelayError("EXPIRED", `The signature expired at ${bid.deadline}`);
+    }
+    const nonce = await auction.nonces(bid.bidder);
+    if (bid.nonce !== nonce) {
+        throw new RelayError(
+            "INVALID_NONCE",
+            bid.nonce < nonce
+                ? `Nonce ${bid.nonce} has already been used`
+                : `Nonce ${bid.nonce} is ahead of the bidder's next nonce ${nonce}`
+        );
+    }
+    if ((await provider.getCode(bid.bidder)) === "0x") {
+        let signer: string | undefined;
+        try {
+            signer = verifyTypedData(domain, BID_TYPES, bid, signature);
+        } catch {
+            // A malformed signature recovers no signer
+        }
+        if (signer?.toLowerCase() !== bid.bidder.toLowerCase()) {
+            throw new RelayError("INVALID_SIGNATURE", `The signature is not from ${bid.bidder}`);
+        }
+    }
+}
+
+// Checks and simulates a signed bid, then submits it from `relayer`, who
+// pays the gas. Bids with a permit pull tokens from the bidder; the others
+// are paid from the bidder's deposit.
+export async function relayBid(
+    auction: Auction,
+    relayer: Signer,
+    authorization: BidAuthorization
+): Promise<ContractTransactionResponse> {
+    await checkSignedBid(auction, authorization);
+
+    const { bid, signature, permit } = authorization;
+    const send = auction
+        .connect(relayer)
+        .getFunction(
+            permit
+                ? "bidWithSignature((address,uint256,uint256,uint256),bytes,uint256,uint8,bytes32,bytes32)"
+                : "bidWithSignature((address,uint256,uint256,uint256),bytes)"
+        );
+    const args = permit ? [bid, signature, permit.deadline, permit.v, permit.r, permit.s] : [bid, signature];
+
+    try {
+        await send.staticCall(...args);
+    } catch (error) {
+        const revert = decodeRevert(error);
+        if (revert === undefined) {
+            throw error;
+        }
+        const code = SIGNATURE_ERRORS[revert.errorName] ?? "REVERTED";
+        throw new RelayError(code, `The bid would revert: ${revert.message}`);
+    }
+    return (await send.send(...args)) as ContractTransactionResponse;
+}
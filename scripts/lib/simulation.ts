@@ -0,0 +1,668 @@
+import { formatEther, parseEther, parseUnits, toQuantity, ZeroAddress } from "ethers";
+import type { ContractTransactionResponse } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { Auction } from "../../typechain-types";
+import { auctionConfig } from "./auctionFactory";
+import type { AuctionConfig } from "./auctionFactory";
+import { decodeRevert } from "./errors";
+
+// Plays a seeded, random sequence of bids, pauses, time jumps, settlements
+// and withdrawals against a fresh Auction on the Hardhat network, checking
+// the auction's accounting after every step. Block timestamps and base fees
+// are set by the simulation, so a seed replays the same steps, reverts and
+// gas on any run; only absolute times, such as an end time in a revert,
+// move with the chain's clock.
+
+export type SimulationAction =
+    | "deploy"
+    | "bid"
+    | "proxyBid"
+    | "fundBonusReserve"
+    | "pause"
+    | "resume"
+    | "timeJump"
+    | "endAuction"
+    | "settle"
+    | "withdrawRefund"
+    | "withdraw";
+
+export interface SimulationOptions {
+    seed: number;
+    // Random steps before the auction is wound down, defaults to 50
+    steps?: number;
+    // Defaults to 4
+    bidders?: number;
+    // Overrides the simulated auction's settings. Only ETH auctions can be
+    // simulated.
+    config?: Partial<AuctionConfig>;
+    // Checked after every step alongside the built-in invariants
+    invariants?: Record<string, Invariant>;
+}
+
+export interface SimulationStep {
+    step: number;
+    // Seconds since the simulation started
+    time: number;
+    actor: string;
+    action: SimulationAction;
+    amount?: bigint;
+    status: "ok" | "reverted";
+    // The decoded revert, e.g. "BidNotHigher(amount: 1, highestBid: 2)"
+    error?: string;
+    gasUsed?: bigint;
+}
+
+// The auction's state after a step, with the running totals the
+// simulation has seen in transactions and events
+export interface AuctionSnapshot {
+    balance: bigint;
+    highestBidder: string;
+    highestBid: bigint;
+    totalPendingReturns: bigint;
+    bonusReserve: bigint;
+    auctionEnded: boolean;
+    settled: boolean;
+    paused: boolean;
+    // ETH sent to the auction
+    paidIn: bigint;
+    // ETH the auction reported paying out
+    paidOut: bigint;
+    bonusFunded: bigint;
+    bonusPaid: bigint;
+}
+
+// Returns what is wrong, or undefined when the invariant holds
+export type Invariant = (current: AuctionSnapshot, previous: AuctionSnapshot) => string | undefined;
+
+export interface ActorReport {
+    name: string;
+    address: string;
+    // ETH the actor sent to the auction
+    sent: bigint;
+    // ETH the auction paid the actor
+    received: bigint;
+    gasCost: bigint;
+    // received - sent - gasCost
+    pnl: bigint;
+    transactions: number;
+    reverts: number;
+}
+
+export interface GasReport {
+    action: SimulationAction;
+    calls: number;
+    totalGas: bigint;
+    averageGas: bigint;
+    maxGas: bigint;
+}
+
+export interface SimulationReport {
+    seed: number;
+    auction: string;
+    steps: SimulationStep[];
+    actors: ActorReport[];
+    gas: GasReport[];
+    winner: string;
+    winningBid: bigint;
+    paidIn: bigint;
+    paidOut: bigint;
+    // Set when an invariant failed, describing the failure
+    violation?: string;
+}
+
+export class InvariantViolation extends Error {
+    constructor(
+        public readonly seed: number,
+        public readonly step: number,
+        public readonly invariant: string,
+        // Everything up to and including the failing step
+        public readonly report: SimulationReport,
+        detail: string
+    ) {
+        super(`Invariant "${invariant}" failed at step ${step} of seed ${seed}: ${detail}`);
+        this.name = "InvariantViolation";
+    }
+}
+
+// Mulberry32: small, fast and identical on every platform
+export class SeededRandom {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    // A float in [0, 1)
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    // An integer in [0, max)
+    int(max: number): number {
+        return Math.floor(this.next() * max);
+    }
+
+    pick<T>(items: readonly T[]): T {
+        return items[this.int(items.length)];
+    }
+
+    chance(probability: number): boolean {
+        return this.next() < probability;
+    }
+
+    // Picks a choice with probability proportional to its weight
+    weighted<T>(choices: readonly [T, number][]): T {
+        let roll = this.next() * choices.reduce((total, [, weight]) => total + weight, 0);
+        for (const [choice, weight] of choices) {
+            roll -= weight;
+            if (roll < 0) {
+                return choice;
+            }
+        }
+        return choices[choices.length - 1][0];
+    }
+}
+
+export const INVARIANTS: Record<string, Invariant> = {
+    // Every wei the auction holds came in through a transaction and has not
+    // been reported paid out
+    balance: (current) =>
+        current.balance === current.paidIn - current.paidOut
+            ? undefined
+            : `balance is ${current.balance}, but ${current.paidIn} was paid in and ${current.paidOut} paid out`,
+
+    // Refunds, the bonus reserve and the highest bid are all covered until
+    // settlement, after which only refunds are left
+    solvency: (current) => {
+        const owed = current.settled
+            ? current.totalPendingReturns
+            : current.totalPendingReturns + current.bonusReserve + current.highestBid;
+        if (current.settled ? current.balance !== owed : current.balance < owed) {
+            return `balance is ${current.balance}, but ${owed} is owed`;
+        }
+    },
+
+    highestBidMonotonic: (current, previous) =>
+        current.auctionEnded || current.highestBid >= previous.highestBid
+            ? undefined
+            : `highest bid fell from ${previous.highestBid} to ${current.highestBid}`,
+
+    // Bonuses come out of the reserve, never out of the new bid
+    bonusFromReserve: (current) => {
+        if (current.settled) {
+            return undefined;
+        }
+        const spent = current.bonusFunded - current.bonusReserve;
+        return current.bonusPaid === spent
+            ? undefined
+            : `${current.bonusPaid} was paid in bonuses, but the reserve only fell by ${spent}`;
+    },
+};
+
+// Chance of each kind of step, out of 100
+const ACTION_WEIGHTS: [string, number][] = [
+    ["bid", 30],
+    ["proxyBid", 10],
+    ["fundBonusReserve", 4],
+    ["pause", 8],
+    ["timeJump", 15],
+    ["end", 6],
+    ["withdrawRefund", 20],
+    ["withdraw", 7],
+];
+
+const BID_STEP = parseEther("0.02");
+const BASE_FEE = parseUnits("1", "gwei");
+
+interface Actor {
+    name: string;
+    signer: HardhatEthersSigner;
+    startBalance: bigint;
+    sent: bigint;
+    received: bigint;
+    gasCost: bigint;
+    transactions: number;
+    reverts: number;
+}
+
+class Simulation {
+    private readonly random: SeededRandom;
+    private readonly trace: SimulationStep[] = [];
+    private readonly totals = { paidIn: BigInt(0), paidOut: BigInt(0), bonusFunded: BigInt(0), bonusPaid: BigInt(0) };
+    private readonly invariants: Record<string, Invariant>;
+    private startTime = BigInt(0);
+    private clock = BigInt(0);
+    private previous: AuctionSnapshot | undefined;
+    private auction!: Auction;
+
+    constructor(
+        private readonly hre: HardhatRuntimeEnvironment,
+        private readonly seed: number,
+        private readonly owner: Actor,
+        private readonly keeper: Actor,
+        private readonly bidders: Actor[],
+        private readonly actors: Actor[],
+        invariants: Record<string, Invariant> = {}
+    ) {
+        this.random = new SeededRandom(seed);
+        this.invariants = { ...INVARIANTS, ...invariants };
+    }
+
+    async deploy(config: AuctionConfig) {
+        this.startTime = BigInt((await this.hre.ethers.provider.getBlock("latest"))!.timestamp);
+        this.clock = this.startTime;
+
+        await this.tick();
+        const Auction = await this.hre.ethers.getContractFactory("Auction");
+        this.auction = await Auction.connect(this.owner.signer).deploy(config);
+        const receipt = (await this.auction.deploymentTransaction()!.wait())!;
+        this.owner.transactions++;
+        this.owner.gasCost += receipt.fee;
+        this.record(this.owner, "deploy", { status: "ok", gasUsed: receipt.gasUsed });
+
+        const reserve = parseEther("0.5");
+        await this.send(
+            this.owner,
+            "fundBonusReserve",
+            (auction) => auction["fundBonusReserve()"]({ value: reserve }),
+            reserve
+        );
+        await this.check();
+    }
+
+    async play(steps: number) {
+        for (let i = 0; i < steps; i++) {
+            await this.playStep();
+            await this.check();
+        }
+    }
+
+    // Resumes the auction, runs it to its end and settles it, then has
+    // everyone withdraw. The auction must be left holding nothing.
+    async windDown() {
+        if (await this.auction.paused()) {
+            await this.send(this.owner, "resume", (auction) => auction.setPaused(false));
+            await this.check();
+        }
+        const endTime = await this.auction.auctionEndTime();
+        if (this.clock < endTime) {
+            this.clock = endTime;
+            this.record(this.owner, "timeJump", { status: "ok" });
+        }
+        if (!(await this.auction.settled())) {
+            await this.send(this.keeper, "settle", (auction) => auction.settle());
+            await this.check();
+        }
+        for (const actor of this.actors) {
+            if ((await this.auction.pendingReturns(actor.signer.address)) > BigInt(0)) {
+                await this.send(actor, "withdrawRefund", (auction) => auction.withdrawRefund());
+                await this.check();
+            }
+        }
+
+        const final = await this.snapshot();
+        if (final.balance !== BigInt(0) || final.paidIn !== final.paidOut) {
+            await this.fail("drained", `${final.balance} left, ${final.paidIn} paid in and ${final.paidOut} paid out`);
+        }
+    }
+
+    async report(violation?: string): Promise<SimulationReport> {
+        const gas = new Map<SimulationAction, GasReport>();
+        for (const step of this.trace) {
+            if (step.status !== "ok" || step.gasUsed === undefined) {
+                continue;
+            }
+            const entry = gas.get(step.action) ?? {
+                action: step.action,
+                calls: 0,
+                totalGas: BigInt(0),
+                averageGas: BigInt(0),
+                maxGas: BigInt(0),
+            };
+            entry.calls++;
+            entry.totalGas += step.gasUsed;
+            entry.averageGas = entry.totalGas / BigInt(entry.calls);
+            entry.maxGas = step.gasUsed > entry.maxGas ? step.gasUsed : entry.maxGas;
+            gas.set(step.action, entry);
+        }
+
+        const winner = await this.auction.highestBidder();
+        return {
+            seed: this.seed,
+            auction: await this.auction.getAddress(),
+            steps: this.trace,
+            actors: this.actors.map((actor) => ({
+                name: actor.name,
+                address: actor.signer.address,
+                sent: actor.sent,
+                received: actor.received,
+                gasCost: actor.gasCost,
+                pnl: actor.received - actor.sent - actor.gasCost,
+                transactions: actor.transactions,
+                reverts: actor.reverts,
+            })),
+            gas: [...gas.values()],
+            winner: this.actorAt(winner)?.name ?? winner,
+            winningBid: await this.auction.highestBid(),
+            paidIn: this.totals.paidIn,
+            paidOut: this.totals.paidOut,
+            violation,
+        };
+    }
+
+    private async playStep() {
+        const action = this.random.weighted(ACTION_WEIGHTS);
+        const bidder = this.random.pick(this.bidders);
+
+        switch (action) {
+            case "bid": {
+                // One bid in ten goes in just under the minimum
+                const minimum = await this.auction.minimumNextBid();
+                const amount = this.random.chance(0.1)
+                    ? minimum - BigInt(1)
+                    : minimum + BigInt(this.random.int(50)) * BID_STEP;
+                return this.send(bidder, "bid", (auction) => auction["bid()"]({ value: amount }), amount);
+            }
+            case "proxyBid": {
+                const amount = (await this.auction.minimumNextBid()) + BigInt(this.random.int(100)) * BID_STEP;
+                return this.send(bidder, "proxyBid", (auction) => auction["proxyBid()"]({ value: amount }), amount);
+            }
+            case "fundBonusReserve": {
+                const amount = BigInt(1 + this.random.int(25)) * BID_STEP;
+                return this.send(
+                    this.owner,
+                    "fundBonusReserve",
+                    (auction) => auction["fundBonusReserve()"]({ value: amount }),
+                    amount
+                );
+            }
+            case "pause": {
+                const paused = await this.auction.paused();
+                return this.send(this.owner, paused ? "resume" : "pause", (auction) => auction.setPaused(!paused));
+            }
+            case "timeJump": {
+                const duration = await this.auction.auctionEndTime() - this.startTime;
+                this.clock += BigInt(1 + this.random.int(Number(duration / BigInt(4))));
+                return this.record(this.owner, "timeJump", { status: "ok" });
+            }
+            case "end":
+                return this.random.chance(0.5)
+                    ? this.send(this.keeper, "settle", (auction) => auction.settle())
+                    : this.send(this.owner, "endAuction", (auction) => auction.endAuction());
+            case "withdrawRefund":
+                return this.send(bidder, "withdrawRefund", (auction) => auction.withdrawRefund());
+            case "withdraw":
+                return this.send(this.owner, "withdraw", (auction) => auction.withdraw());
+        }
+    }
+
+    // The next block lands one second later on the simulation's clock, at
+    // a fixed base fee so gas costs don't depend on earlier blocks
+    private async tick() {
+        this.clock += BigInt(1);
+        await this.hre.network.provider.send("evm_setNextBlockTimestamp", [Number(this.clock)]);
+        await this.hre.network.provider.send("hardhat_setNextBlockBaseFeePerGas", [toQuantity(BASE_FEE)]);
+    }
+
+    // Sends one transaction from `actor`. A revert is recorded as the step's
+    // outcome rather than failing the simulation.
+    private async send(
+        actor: Actor,
+        action: SimulationAction,
+        call: (auction: Auction) => Promise<ContractTransactionResponse>,
+        amount?: bigint
+    ) {
+        await this.tick();
+        const provider = this.hre.ethers.provider;
+        const blockNumber = await provider.getBlockNumber();
+        let tx: ContractTransactionResponse;
+        try {
+            tx = await call(this.auction.connect(actor.signer));
+        } catch (error) {
+            const revert = decodeRevert(error);
+            if (revert === undefined) {
+                throw error;
+            }
+            actor.reverts++;
+
+            // A transaction that passed gas estimation but reverted when
+            // mined still costs its sender gas
+            let gasUsed: bigint | undefined;
+            const block = await provider.getBlock("latest");
+            if (block !== null && block.number > blockNumber) {
+                const receipt = (await provider.getTransactionReceipt(block.transactions[0]))!;
+                actor.gasCost += receipt.fee;
+                gasUsed = receipt.gasUsed;
+            }
+            return this.record(actor, action, { amount, status: "reverted", error: revert.message, gasUsed });
+        }
+
+        const receipt = (await tx.wait())!;
+        actor.transactions++;
+        actor.gasCost += receipt.fee;
+        actor.sent += tx.value;
+        this.totals.paidIn += tx.value;
+
+        for (const log of receipt.logs) {
+            const parsed = this.auction.interface.parseLog(log);
+            switch (parsed?.name) {
+                case "RefundWithdrawn":
+                case "FundsWithdrawn":
+                case "FeePaid":
+                case "RoyaltyPaid":
+                    this.credit(parsed.args[0], parsed.args[1]);
+                    break;
+                case "AuctionSettled":
+                    this.credit(parsed.args.keeper, parsed.args.keeperReward);
+                    break;
+                case "Refund":
+                    this.totals.bonusPaid += parsed.args.bonus;
+                    break;
+                case "BonusReserveFunded":
+                    this.totals.bonusFunded += parsed.args.amount;
+                    break;
+            }
+        }
+        this.record(actor, action, { amount, status: "ok", gasUsed: receipt.gasUsed });
+    }
+
+    private record(
+        actor: Actor,
+        action: SimulationAction,
+        outcome: Pick<SimulationStep, "status"> & Partial<SimulationStep>
+    ) {
+        this.trace.push({
+            step: this.trace.length + 1,
+            time: Number(this.clock - this.startTime),
+            actor: actor.name,
+            action,
+            ...outcome,
+        });
+    }
+
+    private credit(address: string, amount: bigint) {
+        this.totals.paidOut += amount;
+        const actor = this.actorAt(address);
+        if (actor) {
+            actor.received += amount;
+        }
+    }
+
+    private actorAt(address: string): Actor | undefined {
+        return this.actors.find((actor) => actor.signer.address === address);
+    }
+
+    private async snapshot(): Promise<AuctionSnapshot> {
+        const auction = this.auction;
+        const [balance, highestBidder, highestBid, totalPendingReturns, bonusReserve, auctionEnded, settled, paused] =
+            await Promise.all([
+                this.hre.ethers.provider.getBalance(auction.target),
+                auction.highestBidder(),
+                auction.highestBid(),
+                auction.totalPendingReturns(),
+                auction.bonusReserve(),
+                auction.auctionEnded(),
+                auction.settled(),
+                auction.paused(),
+            ]);
+        return {
+            balance,
+            highestBidder,
+            highestBid,
+            totalPendingReturns,
+            bonusReserve,
+            auctionEnded,
+            settled,
+            paused,
+            ...this.totals,
+        };
+    }
+
+    private async check() {
+        const current = await this.snapshot();
+        for (const [name, invariant] of Object.entries(this.invariants)) {
+            const detail = invariant(current, this.previous ?? current);
+            if (detail !== undefined) {
+                await this.fail(name, detail);
+            }
+        }
+        // Every actor's balance moved by exactly what they sent, received and
+        // paid in gas
+        for (const actor of this.actors) {
+            const balance = await this.hre.ethers.provider.getBalance(actor.signer.address);
+            const expected = actor.startBalance - actor.sent - actor.gasCost + actor.received;
+            if (balance !== expected) {
+                await this.fail("actorBalances", `${actor.name} holds ${balance}, expected ${expected}`);
+            }
+        }
+        this.previous = current;
+    }
+
+    private async fail(invariant: string, detail: string): Promise<never> {
+        const step = this.trace.length;
+        const report = await this.report(`${invariant} at step ${step}: ${detail}`);
+        throw new InvariantViolation(this.seed, step, invariant, report, detail);
+    }
+}
+
+// Deploys an auction owned by the first signer and plays `steps` random
+// steps on it with the bidders, a keeper and a fee recipient, then winds it
+// down: it is resumed, run to its end and settled, and everyone withdraws.
+// Throws an InvariantViolation carrying the report so far as soon as an
+// invariant fails.
+export async function runSimulation(
+    hre: HardhatRuntimeEnvironment,
+    options: SimulationOptions
+): Promise<SimulationReport> {
+    const { seed, steps = 50, bidders = 4 } = options;
+    const signers = await hre.ethers.getSigners();
+    if (!Number.isInteger(bidders) || bidders < 1 || bidders > signers.length - 3) {
+        throw new Error(`The simulation needs between 1 and ${signers.length - 3} bidders, got ${bidders}`);
+    }
+
+    const actors: Actor[] = [];
+    const names = ["owner", "keeper", "treasury", ...Array.from({ length: bidders }, (_, i) => `bidder${i + 1}`)];
+    for (const [index, name] of names.entries()) {
+        const signer = signers[index];
+        const startBalance = await hre.ethers.provider.getBalance(signer.address);
+        actors.push({
+            name,
+            signer,
+            startBalance,
+            sent: BigInt(0),
+            received: BigInt(0),
+            gasCost: BigInt(0),
+            transactions: 0,
+            reverts: 0,
+        });
+    }
+    const [owner, keeper, treasury, ...bidderActors] = actors;
+
+    const config = auctionConfig({
+        minIncrementBps: 500,
+        reservePrice: parseEther("1"),
+        feeRecipient: treasury.signer.address,
+        feeBps: 250,
+        keeperRewardBps: 100,
+        maxKeeperReward: parseEther("0.05"),
+        ...options.config,
+    });
+    if (config.paymentToken !== ZeroAddress) {
+        throw new Error("Only ETH auctions can be simulated");
+    }
+
+    const simulation = new Simulation(hre, seed, owner, keeper, bidderActors, actors, options.invariants);
+    await simulation.deploy(config);
+    await simulation.play(steps);
+    await simulation.windDown();
+    return simulation.report();
+}
+
+// Bigints are written as decimal strings
+export function reportToJson(report: SimulationReport): string {
+    return JSON.stringify(report, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2) + "\n";
+}
+
+export function reportToMarkdown(report: SimulationReport): string {
+    const reverted = report.steps.filter((step) => step.status === "reverted").length;
+    const lines = [
+        `# Auction simulation, seed ${report.seed}`,
+        "",
+        `Auction \`${report.auction}\` ran ${report.steps.length} steps, ${reverted} of which reverted.`,
+        report.winningBid > BigInt(0)
+            ? `${report.winner} won with ${formatEther(report.winningBid)} ETH.`
+            : "The auction ended without a winner.",
+        `${formatEther(report.paidIn)} ETH was paid in and ${formatEther(report.paidOut)} ETH paid out.`,
+    ];
+    if (report.violation) {
+        lines.push("", `**Invariant violated:** ${report.violation}`);
+    }
+
+    lines.push(
+        "",
+        "## Actors",
+        "",
+        "| Actor | Address | Sent (ETH) | Received (ETH) | Gas (ETH) | P&L (ETH) | Transactions | Reverts |",
+        "|-------|---------|------------|----------------|-----------|-----------|--------------|---------|"
+    );
+    for (const actor of report.actors) {
+        lines.push(
+            `| ${actor.name} | \`${actor.address}\` | ${formatEther(actor.sent)} | ${formatEther(actor.received)} | ` +
+                `${formatEther(actor.gasCost)} | ${formatEther(actor.pnl)} | ${actor.transactions} | ${actor.reverts} |`
+        );
+    }
+
+    lines.push(
+        "",
+        "## Gas",
+        "",
+        "| Action | Calls | Average | Max | Total |",
+        "|--------|-------|---------|-----|-------|"
+    );
+    for (const entry of report.gas) {
+        lines.push(`| ${entry.action} | ${entry.calls} | ${entry.averageGas} | ${entry.maxGas} | ${entry.totalGas} |`);
+    }
+
+    lines.push(
+        "",
+        "## Steps",
+        "",
+        "| Step | Time | Actor | Action | Amount (ETH) | Result |",
+        "|------|------|-------|--------|--------------|--------|"
+    );
+    for (const step of report.steps) {
+        const amount = step.amount === undefined ? "" : formatEther(step.amount);
+        let result = step.error;
+        if (step.status === "ok") {
+            result = step.gasUsed === undefined ? "ok" : `ok, ${step.gasUsed} gas`;
+        }
+        lines.push(`| ${step.step} | +${step.time}s | ${step.actor} | ${step.action} | ${amount} | ${result} |`);
+    }
+
+    return lines.join("\n") + "\n";
+}
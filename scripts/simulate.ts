@@ -0,0 +1,52 @@
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import hre from "hardhat";
+import { InvariantViolation, reportToJson, reportToMarkdown, runSimulation } from "./lib/simulation";
+import type { SimulationReport } from "./lib/simulation";
+
+// Runs a seeded auction simulation on the Hardhat network and writes its
+// report as JSON and Markdown. Configure it through the environment:
+//   SIM_SEED     seed to run, defaults to a random one
+//   SIM_STEPS    random steps before the wind-down, defaults to 50
+//   SIM_BIDDERS  number of bidders, defaults to 4
+//   SIM_OUT      directory for the reports, defaults to simulation-reports
+// A failing seed replays exactly when run again with the same settings.
+
+function writeReport(report: SimulationReport, outDir: string) {
+    mkdirSync(outDir, { recursive: true });
+    const base = join(outDir, `simulation-${report.seed}`);
+    writeFileSync(`${base}.json`, reportToJson(report));
+    writeFileSync(`${base}.md`, reportToMarkdown(report));
+    console.log(`Wrote ${base}.json and ${base}.md`);
+}
+
+async function main() {
+    const outDir = process.env.SIM_OUT ?? "simulation-reports";
+    try {
+        const seed = Number(process.env.SIM_SEED ?? Math.floor(Math.random() * 2 ** 32));
+        const steps = Number(process.env.SIM_STEPS ?? "50");
+        const bidders = Number(process.env.SIM_BIDDERS ?? "4");
+        if (!Number.isInteger(seed) || !Number.isInteger(steps) || steps < 0) {
+            throw new Error("SIM_SEED and SIM_STEPS must be whole numbers");
+        }
+
+        console.log(`Simulating seed ${seed} with ${bidders} bidders for ${steps} steps`);
+        const report = await runSimulation(hre, { seed, steps, bidders });
+        console.log(`Every invariant held over ${report.steps.length} steps`);
+        writeReport(report, outDir);
+    } catch (error: any) {
+        if (error instanceof InvariantViolation) {
+            writeReport(error.report, outDir);
+            console.error(`Replay with SIM_SEED=${error.seed}`);
+        }
+        console.error("Error occurred:", error.message);
+        process.exit(1);
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error("Unhandled error:", error);
+        process.exit(1);
+    });
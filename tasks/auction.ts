@@ -0,0 +1,259 @@
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { ContractTransactionResponse, Signer } from "ethers";
+import type { Auction, IERC20Metadata } from "../typechain-types";
+
+// Lifecycle tasks for a deployed Auction. Each task checks the same
+// preconditions as the contract before sending anything, so operators get a
+// readable error instead of a raw revert.
+
+const PLUGIN_NAME = "auction";
+
+interface AuctionTaskArgs {
+    address: string;
+    from?: string;
+}
+
+interface PauseTaskArgs extends AuctionTaskArgs {
+    paused: boolean;
+}
+
+export interface AuctionStatus {
+    address: string;
+    owner: string;
+    endTime: bigint;
+    timeRemaining: bigint;
+    isEnded: boolean;
+    isPaused: boolean;
+    bonusRateBps: bigint;
+    remainingBonusReserve: bigint;
+    highestBidder: string;
+    highestBid: bigint;
+}
+
+async function loadAuction(
+    hre: HardhatRuntimeEnvironment,
+    { address, from }: AuctionTaskArgs
+): Promise<{ auction: Auction; signer: Signer }> {
+    if (!hre.ethers.isAddress(address)) {
+        throw new HardhatPluginError(PLUGIN_NAME, `"${address}" is not a valid address`);
+    }
+
+    const code = await hre.ethers.provider.getCode(address);
+    if (code === "0x") {
+        throw new HardhatPluginError(
+            PLUGIN_NAME,
+            `No contract is deployed at ${address} on network ${hre.network.name}`
+        );
+    }
+
+    const signer = from ? await hre.ethers.getSigner(from) : (await hre.ethers.getSigners())[0];
+    const auction = (await hre.ethers.getContractAt("Auction", address, signer)) as unknown as Auction;
+
+    return { auction, signer };
+}
+
+async function latestTimestamp(hre: HardhatRuntimeEnvironment): Promise<bigint> {
+    const block = await hre.ethers.provider.getBlock("latest");
+    if (block === null) {
+        throw new HardhatPluginError(PLUGIN_NAME, "Could not read the latest block");
+    }
+    return BigInt(block.timestamp);
+}
+
+async function requireOwner(auction: Auction, signer: Signer): Promise<void> {
+    const [owner, signerAddress] = await Promise.all([auction.owner(), signer.getAddress()]);
+    if (owner.toLowerCase() !== signerAddress.toLowerCase()) {
+        throw new HardhatPluginError(
+            PLUGIN_NAME,
+            `Signer ${signerAddress} is not the auction owner (${owner})`
+        );
+    }
+}
+
+async function requireOwnerOrOperator(auction: Auction, signer: Signer): Promise<void> {
+    const signerAddress = await signer.getAddress();
+    const [owner, isOperator] = await Promise.all([auction.owner(), auction.operators(signerAddress)]);
+    if (!isOperator && owner.toLowerCase() !== signerAddress.toLowerCase()) {
+        throw new HardhatPluginError(
+            PLUGIN_NAME,
+            `Signer ${signerAddress} is not the auction owner (${owner}) or an operator`
+        );
+    }
+}
+
+async function requireEndTimePassed(hre: HardhatRuntimeEnvironment, auction: Auction): Promise<void> {
+    const [endTime, now] = await Promise.all([auction.auctionEndTime(), latestTimestamp(hre)]);
+    if (now < endTime) {
+        throw new HardhatPluginError(
+            PLUGIN_NAME,
+            `Auction is still running: it ends at ${formatTimestamp(endTime)}, ${endTime - now} seconds from now`
+        );
+    }
+}
+
+function formatTimestamp(timestamp: bigint): string {
+    return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+// The payment token of a token auction, with the symbol and decimals its
+// amounts are printed in. ETH auctions have no token, and neither do Dutch
+// auctions, which status also reads and which have no paymentToken().
+async function loadPaymentUnit(
+    hre: HardhatRuntimeEnvironment,
+    auction: Auction
+): Promise<{ token?: IERC20Metadata; symbol: string; decimals: bigint }> {
+    const paymentToken = await auction.paymentToken().catch(() => hre.ethers.ZeroAddress);
+    if (paymentToken === hre.ethers.ZeroAddress) {
+        return { symbol: "ETH", decimals: BigInt(18) };
+    }
+    const token = await hre.ethers.getContractAt("IERC20Metadata", paymentToken);
+    const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+    return { token, symbol, decimals };
+}
+
+async function revertReason(error: any): Promise<string> {
+    // Loaded lazily: the decoder needs the typechain bindings, which don't
+    // exist yet when this file is loaded by the config for the first compile
+    const { decodeRevert } = await import("../scripts/lib/errors");
+    return decodeRevert(error)?.message ?? error?.shortMessage ?? error?.message ?? String(error);
+}
+
+async function send(
+    action: string,
+    sendTransaction: () => Promise<ContractTransactionResponse>
+): Promise<string> {
+    try {
+        const tx = await sendTransaction();
+        await tx.wait();
+        return tx.hash;
+    } catch (error: any) {
+        throw new HardhatPluginError(PLUGIN_NAME, `${action} failed: ${await revertReason(error)}`, error);
+    }
+}
+
+task("auction:status", "Prints the status of a deployed Auction")
+    .addParam("address", "Address of the deployed Auction")
+    .setAction(async (args: AuctionTaskArgs, hre): Promise<AuctionStatus> => {
+        const { auction } = await loadAuction(hre, args);
+
+        const [
+            [endTime, timeRemaining, isEnded, isPaused, bonusRateBps, remainingBonusReserve],
+            owner,
+            highestBidder,
+            highestBid,
+            { symbol, decimals },
+        ] =
+            await Promise.all([
+                auction.getAuctionStatus(),
+                auction.owner(),
+                auction.highestBidder(),
+                auction.highestBid(),
+                loadPaymentUnit(hre, auction),
+            ]);
+
+        console.log(`Auction ${args.address} on ${hre.network.name}`);
+        console.log("  Owner:", owner);
+        console.log("  End Time:", formatTimestamp(endTime));
+        console.log("  Time Remaining:", timeRemaining.toString(), "seconds");
+        console.log("  Is Ended:", isEnded);
+        console.log("  Is Paused:", isPaused);
+        console.log("  Bonus Rate:", bonusRateBps.toString(), "bps");
+        console.log("  Bonus Reserve:", hre.ethers.formatUnits(remainingBonusReserve, decimals), symbol);
+        console.log("  Highest Bidder:", highestBidder);
+        console.log("  Highest Bid:", hre.ethers.formatUnits(highestBid, decimals), symbol);
+
+        return {
+            address: args.address,
+            owner,
+            endTime,
+            timeRemaining,
+            isEnded,
+            isPaused,
+            bonusRateBps,
+            remainingBonusReserve,
+            highestBidder,
+            highestBid,
+        };
+    });
+
+task("auction:end", "Ends a deployed Auction once its end time has passed")
+    .addParam("address", "Address of the deployed Auction")
+    .addOptionalParam("from", "Address of the account that sends the transaction")
+    .setAction(async (args: AuctionTaskArgs, hre): Promise<string> => {
+        const { auction } = await loadAuction(hre, args);
+
+        await requireEndTimePassed(hre, auction);
+        if (await auction.auctionEnded()) {
+            throw new HardhatPluginError(PLUGIN_NAME, "Auction has already been ended");
+        }
+        if (await auction.emergencyExitAvailable()) {
+            throw new HardhatPluginError(
+                PLUGIN_NAME,
+                "Auction can no longer be ended: its emergency exit is open to bidders"
+            );
+        }
+
+        const { symbol, decimals } = await loadPaymentUnit(hre, auction);
+        const hash = await send("endAuction", () => auction.endAuction());
+        console.log(`Auction ended in transaction ${hash}`);
+        console.log("  Winner:", await auction.highestBidder());
+        console.log("  Winning Bid:", hre.ethers.formatUnits(await auction.highestBid(), decimals), symbol);
+
+        return hash;
+    });
+
+task("auction:withdraw", "Withdraws the proceeds of an ended Auction to its owner")
+    .addParam("address", "Address of the deployed Auction")
+    .addOptionalParam("from", "Address of the account that sends the transaction")
+    .setAction(async (args: AuctionTaskArgs, hre): Promise<string> => {
+        const { auction, signer } = await loadAuction(hre, args);
+
+        await requireOwner(auction, signer);
+        await requireEndTimePassed(hre, auction);
+        if (!(await auction.auctionEnded())) {
+            throw new HardhatPluginError(
+                PLUGIN_NAME,
+                "Auction has not been ended yet, run auction:end first"
+            );
+        }
+        if (await auction.paused()) {
+            throw new HardhatPluginError(
+                PLUGIN_NAME,
+                "Auction is paused, resume it with auction:pause --paused false first"
+            );
+        }
+
+        // Token auctions hold their bids and refunds in the payment token
+        const { token, symbol, decimals } = await loadPaymentUnit(hre, auction);
+        const balance = token
+            ? await token.balanceOf(args.address)
+            : await hre.ethers.provider.getBalance(args.address);
+        const proceeds = balance - (await auction.totalPendingReturns());
+        const hash = await send("withdraw", () => auction.withdraw());
+        console.log(`Withdrew ${hre.ethers.formatUnits(proceeds, decimals)} ${symbol} in transaction ${hash}`);
+
+        return hash;
+    });
+
+task("auction:pause", "Pauses or resumes bidding on a deployed Auction")
+    .addParam("address", "Address of the deployed Auction")
+    .addOptionalParam("from", "Address of the account that sends the transaction")
+    .addOptionalParam("paused", "Whether the auction should be paused", true, types.boolean)
+    .setAction(async (args: PauseTaskArgs, hre): Promise<string> => {
+        const { auction, signer } = await loadAuction(hre, args);
+
+        await requireOwnerOrOperator(auction, signer);
+        if ((await auction.paused()) === args.paused) {
+            throw new HardhatPluginError(
+                PLUGIN_NAME,
+                `Auction is already ${args.paused ? "paused" : "running"}`
+            );
+        }
+
+        const hash = await send("setPaused", () => auction.setPaused(args.paused));
+        console.log(`Auction ${args.paused ? "paused" : "resumed"} in transaction ${hash}`);
+
+        return hash;
+    });
@@ -0,0 +1,82 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+    AllowlistError,
+    allowlistLeaf,
+    buildAllowlist,
+    getAllowlistProof,
+    parseAllowlistCsv,
+} from "../scripts/lib/allowlist";
+
+describe("Allowlist helper", function () {
+    const addresses = [
+        "0x1000000000000000000000000000000000000001",
+        "0x2000000000000000000000000000000000000002",
+        "0x3000000000000000000000000000000000000003",
+    ];
+
+    // Recomputes the root from a leaf and its proof the way MerkleProof does
+    function rootFrom(leaf: string, proof: string[]) {
+        return proof.reduce((hash, sibling) => {
+            const [a, b] = BigInt(hash) < BigInt(sibling) ? [hash, sibling] : [sibling, hash];
+            return hre.ethers.keccak256(hre.ethers.concat([a, b]));
+        }, leaf);
+    }
+
+    describe("parseAllowlistCsv", function () {
+        it("should read addresses with and without caps", function () {
+            const csv = [
+                "address,cap",
+                "# KYC batch 1",
+                `${addresses[0]},1.5`,
+                "",
+                addresses[1].toLowerCase(),
+                `${addresses[2]}, 2 `,
+            ].join("\n");
+
+            expect(parseAllowlistCsv(csv)).to.deep.equal([
+                { address: addresses[0], cap: hre.ethers.parseEther("1.5") },
+                { address: addresses[1], cap: BigInt(0) },
+                { address: addresses[2], cap: hre.ethers.parseEther("2") },
+            ]);
+            expect(parseAllowlistCsv(`${addresses[0]},1.5`, 6)).to.deep.equal([
+                { address: addresses[0], cap: BigInt(1_500_000) },
+            ]);
+        });
+
+        it("should report the line of a malformed entry", function () {
+            expect(() => parseAllowlistCsv(`${addresses[0]}\n0x1234`)).to.throw(AllowlistError, "Line 2");
+            expect(() => parseAllowlistCsv(`${addresses[0]},one`)).to.throw(AllowlistError, '"one" is not a cap');
+            expect(() => parseAllowlistCsv(`${addresses[0]},1,2`)).to.throw(AllowlistError, "Line 1");
+        });
+    });
+
+    describe("buildAllowlist", function () {
+        it("should give every entry a proof of its leaf", function () {
+            const entries = addresses.map((address, index) => ({ address, cap: BigInt(index) }));
+
+            const allowlist = buildAllowlist(entries);
+
+            for (const entry of entries) {
+                const { cap, proof } = getAllowlistProof(allowlist, entry.address.toLowerCase());
+                expect(cap).to.equal(entry.cap);
+                expect(rootFrom(allowlistLeaf(entry), proof)).to.equal(allowlist.root);
+            }
+            expect(buildAllowlist([...entries].reverse()).root).to.equal(allowlist.root);
+        });
+
+        it("should reject empty lists, duplicates and unknown addresses", function () {
+            const allowlist = buildAllowlist([{ address: addresses[0], cap: BigInt(0) }]);
+
+            expect(allowlist.root).to.equal(allowlistLeaf({ address: addresses[0], cap: BigInt(0) }));
+            expect(() => buildAllowlist([])).to.throw(AllowlistError, "empty");
+            expect(() =>
+                buildAllowlist([
+                    { address: addresses[0], cap: BigInt(0) },
+                    { address: addresses[0].toLowerCase(), cap: BigInt(1) },
+                ])
+            ).to.throw(AllowlistError, "more than once");
+            expect(() => getAllowlistProof(allowlist, addresses[1])).to.throw(AllowlistError, "not on the allowlist");
+        });
+    });
+});
@@ -0,0 +1,284 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import hre from "hardhat";
+import { createApiServer } from "../scripts/lib/api";
+import type { ApiOptions, UnsignedTransaction } from "../scripts/lib/api";
+import { auctionConfig, createAuction } from "../scripts/lib/auctionFactory";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("Auction API", function () {
+    const duration = 3600;
+    const bid1 = hre.ethers.parseEther("1");
+    const bid2 = hre.ethers.parseEther("2");
+
+    let server: Server | undefined;
+    let baseUrl: string;
+
+    async function startServer(options: Omit<ApiOptions, "provider">) {
+        server = createApiServer({ provider: hre.ethers.provider, ...options });
+        await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    }
+
+    afterEach(async function () {
+        if (server) {
+            await new Promise((resolve) => server!.close(resolve));
+            server = undefined;
+        }
+    });
+
+    async function get(path: string) {
+        const response = await fetch(`${baseUrl}${path}`);
+        return { status: response.status, body: await response.json() };
+    }
+
+    async function post(path: string, body: unknown) {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: typeof body === "string" ? body : JSON.stringify(body),
+        });
+        return { status: response.status, body: await response.json() };
+    }
+
+    async function signAndSend(signer: HardhatEthersSigner, transaction: UnsignedTransaction) {
+        return signer.sendTransaction({
+            to: transaction.to,
+            data: transaction.data,
+            value: BigInt(transaction.value),
+            gasLimit: BigInt(transaction.gasLimit),
+            chainId: BigInt(transaction.chainId),
+        });
+    }
+
+    async function deployFactoryFixture() {
+        const [owner, bidder1, bidder2, other] = await hre.ethers.getSigners();
+        const implementation = await (await hre.ethers.getContractFactory("Auction")).deploy(
+            auctionConfig({ duration: 1 })
+        );
+        const factory = await (await hre.ethers.getContractFactory("AuctionFactory")).deploy(implementation.target);
+        const { auction: first } = await createAuction(factory.connect(owner), auctionConfig({ duration }));
+        const { auction: second } = await createAuction(factory.connect(owner), auctionConfig({ duration }));
+        await first.connect(bidder1)["bid()"]({ value: bid1 });
+        await first.connect(bidder2)["bid()"]({ value: bid2 });
+
+        return { factory, first, second, owner, bidder1, bidder2, other };
+    }
+
+    describe("reading auctions", function () {
+        it("should list every auction from the factory", async function () {
+            const { factory, first, second } = await loadFixture(deployFactoryFixture);
+            await startServer({ factoryAddress: await factory.getAddress() });
+
+            const { status, body } = await get("/auctions");
+
+            expect(status).to.equal(200);
+            expect(body.auctions.map((auction: any) => auction.address)).to.deep.equal([
+                await first.getAddress(),
+                await second.getAddress(),
+            ]);
+        });
+
+        it("should return an auction's status, configuration and pause flag", async function () {
+            const { factory, first, owner, bidder2 } = await loadFixture(deployFactoryFixture);
+            await first.connect(owner).setPaused(true);
+            await startServer({ factoryAddress: await factory.getAddress() });
+
+            const { status, body } = await get(`/auctions/${await first.getAddress()}`);
+
+            expect(status).to.equal(200);
+            expect(body.owner).to.equal(owner.address);
+            expect(body.highestBidder).to.equal(bidder2.address);
+            expect(body.highestBid).to.equal(bid2.toString());
+            expect(body.bidCount).to.equal("2");
+            expect(body.paused).to.equal(true);
+            expect(body.ended).to.equal(false);
+            expect(body.endTime).to.equal((await first.auctionEndTime()).toString());
+            expect(BigInt(body.timeRemaining)).to.be.greaterThan(0);
+            expect(body.item.standard).to.equal("0");
+        });
+
+        it("should page through the bid history", async function () {
+            const { factory, first, bidder1, bidder2 } = await loadFixture(deployFactoryFixture);
+            await startServer({ factoryAddress: await factory.getAddress() });
+            const address = await first.getAddress();
+
+            const all = await get(`/auctions/${address}/bids`);
+            const second = await get(`/auctions/${address}/bids?offset=1&limit=5`);
+            const past = await get(`/auctions/${address}/bids?offset=9`);
+
+            expect(all.body.total).to.equal("2");
+            expect(all.body.bids.map((bid: any) => [bid.bidder, bid.amount])).to.deep.equal([
+                [bidder1.address, bid1.toString()],
+                [bidder2.address, bid2.toString()],
+            ]);
+            expect(second.body.bids.map((bid: any) => bid.bidder)).to.deep.equal([bidder2.address]);
+            expect(past.body.bids).to.deep.equal([]);
+        });
+
+        it("should serve auctions listed by address", async function () {
+            const { first, second } = await loadFixture(deployFactoryFixture);
+            await startServer({ auctionAddresses: [await first.getAddress()] });
+
+            expect((await get("/auctions")).body.auctions).to.have.lengthOf(1);
+            expect((await get(`/auctions/${await first.getAddress()}`)).status).to.equal(200);
+
+            const { status, body } = await get(`/auctions/${await second.getAddress()}`);
+            expect(status).to.equal(404);
+            expect(body.error.code).to.equal("AUCTION_NOT_FOUND");
+        });
+
+        it("should reject unknown auctions, bad addresses and unknown routes", async function () {
+            const { factory, first, other } = await loadFixture(deployFactoryFixture);
+            await startServer({ factoryAddress: await factory.getAddress() });
+
+            expect((await get(`/auctions/${other.address}`)).body.error.code).to.equal("AUCTION_NOT_FOUND");
+            expect((await get("/auctions/not-an-address")).body.error.code).to.equal("INVALID_ADDRESS");
+            expect((await get(`/auctions/${await first.getAddress()}/bids?limit=-1`)).body.error.code).to.equal(
+                "INVALID_QUERY"
+            );
+            expect((await get("/status")).status).to.equal(404);
+        });
+    });
+
+    describe("building transactions", function () {
+        it("should build a bid that a wallet can sign and send", async function () {
+            const { factory, first, other } = await loadFixture(deployFactoryFixture);
+            await startServer({ factoryAddress: await factory.getAddress() });
+            const amount = hre.ethers.parseEther("3");
+
+            const { status, body } = await post(`/auctions/${await first.getAddress()}/bid`, {
+                from: other.address,
+                amount: amount.toString(),
+            });
+
+            expect(status).to.equal(200);
+            expect(body.transaction.to).to.equal(await first.getAddress());
+            expect(body.transaction.value).to.equal(amount.toString());
+            expect(body.transaction.chainId).to.equal("31337");
+            await signAndSend(other, body.transaction);
+            expect(await first.highestBidder()).to.equal(other.address);
+            expect(await first.highestBid()).to.equal(amount);
+        });
+
+        it("should build endAuction and withdraw once the auction is over", async function () {
+            const { factory, first, owner, other } = await loadFixture(deployFactoryFixture);
+            await startServer({ factoryAddress: await factory.getAddress() });
+            const address = await first.getAddress();
+            await time.increaseTo(await first.auctionEndTime());
+
+            const end = await post(`/auctions/${address}/end`, { from: other.address });
+            expect(end.status).to.equal(200);
+            await signAndSend(other, end.body.transaction);
+            expect(await first.auctionEnded()).to.equal(true);
+
+            const withdraw = await post(`/auctions/${address}/withdraw`, { from: owner.address });
+            expect(withdraw.status).to.equal(200);
+            await expect(signAndSend(owner, withdraw.body.transaction)).to.changeEtherBalance(owner, bid2);
+        });
+
+        it("should build a token bid without a value", async function () {
+            const [owner, bidder] = await hre.ethers.getSigners();
+            const token = await (await hre.ethers.getContractFactory("MockERC20")).deploy();
+            const auction = await (await hre.ethers.getContractFactory("Auction"))
+                .connect(owner)
+                .deploy(auctionConfig({ paymentToken: token.target }));
+            await token.mint(bidder.address, bid1);
+            await token.connect(bidder).approve(auction.target, bid1);
+            await startServer({ auctionAddresses: [await auction.getAddress()] });
+
+            const { body } = await post(`/auctions/${await auction.getAddress()}/bid`, {
+                from: bidder.address,
+                amount: bid1.toString(),
+            });
+
+            expect(body.transaction.value).to.equal("0");
+            await signAndSend(bidder, body.transaction);
+            expect(await auction.highestBid()).to.equal(bid1);
+        });
+    });
+
+    describe("revert mapping", function () {
+        it("should map a paused auction to AUCTION_PAUSED", async function () {
+            const { factory, first, owner, other } = await loadFixture(deployFactoryFixture);
+            await first.connect(owner).setPaused(true);
+            await startServer({ factoryAddress: await factory.getAddress() });
+
+            const { status, body } = await post(`/auctions/${await first.getAddress()}/bid`, {
+                from: other.address,
+                amount: hre.ethers.parseEther("3").toString(),
+            });
+
+            expect(status).to.equal(409);
+            expect(body.error).to.deep.equal({
+                code: "AUCTION_PAUSED",
+                message: "Transaction would revert: AuctionIsPaused()",
+                reason: "AuctionIsPaused",
+                args: {},
+            });
+        });
+
+        it("should map a bid that is not higher to BID_TOO_LOW", async function () {
+            const { factory, first, other } = await loadFixture(deployFactoryFixture);
+            await startServer({ factoryAddress: await factory.getAddress() });
+            const address = await first.getAddress();
+
+            const notHigher = await post(`/auctions/${address}/bid`, { from: other.address, amount: bid1.toString() });
+            expect(notHigher.body.error.code).to.equal("BID_TOO_LOW");
+        });
+
+        it("should map lifecycle reverts to their codes", async function () {
+            const { factory, first, owner, other } = await loadFixture(deployFactoryFixture);
+            await startServer({ factoryAddress: await factory.getAddress() });
+            const address = await first.getAddress();
+
+            expect((await post(`/auctions/${address}/end`, { from: other.address })).body.error.code).to.equal(
+                "AUCTION_NOT_ENDED"
+            );
+
+            await time.increaseTo(await first.auctionEndTime());
+            const late = await post(`/auctions/${address}/bid`, { from: other.address, amount: "1" });
+            expect(late.body.error.code).to.equal("AUCTION_ENDED");
+
+            await first.endAuction();
+            expect((await post(`/auctions/${address}/withdraw`, { from: other.address })).body.error.code).to.equal(
+                "NOT_OWNER"
+            );
+            expect((await post(`/auctions/${address}/end`, { from: owner.address })).body.error.code).to.equal(
+                "AUCTION_ALREADY_ENDED"
+            );
+        });
+
+        it("should return the custom error's name and arguments", async function () {
+            const [owner, bidder] = await hre.ethers.getSigners();
+            const auction = await (await hre.ethers.getContractFactory("Auction"))
+                .connect(owner)
+                .deploy(auctionConfig({ startingPrice: bid2 }));
+            await startServer({ auctionAddresses: [await auction.getAddress()] });
+
+            const { status, body } = await post(`/auctions/${await auction.getAddress()}/bid`, {
+                from: bidder.address,
+                amount: bid1.toString(),
+            });
+
+            expect(status).to.equal(409);
+            expect(body.error.code).to.equal("BID_TOO_LOW");
+            expect(body.error.reason).to.equal("BidBelowStartingPrice");
+            expect(body.error.args).to.deep.equal({ amount: bid1.toString(), startingPrice: bid2.toString() });
+        });
+
+        it("should reject malformed requests", async function () {
+            const { factory, first } = await loadFixture(deployFactoryFixture);
+            await startServer({ factoryAddress: await factory.getAddress() });
+            const path = `/auctions/${await first.getAddress()}/bid`;
+
+            expect((await post(path, "{not json")).body.error.code).to.equal("INVALID_BODY");
+            expect((await post(path, { amount: "1" })).body.error.code).to.equal("INVALID_ADDRESS");
+            expect(
+                (await post(path, { from: hre.ethers.ZeroAddress, amount: 1.5 })).body.error.code
+            ).to.equal("INVALID_AMOUNT");
+        });
+    });
+});
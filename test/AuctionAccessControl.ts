@@ -0,0 +1,259 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { auctionConfig, createAuction, ItemStandard } from "../scripts/lib/auctionFactory";
+
+describe("Auction access control", function () {
+    const bid1 = hre.ethers.parseEther("1");
+    const bid2 = hre.ethers.parseEther("2");
+    const bonusReserve = hre.ethers.parseEther("1");
+
+    async function deployAuctionFixture() {
+        const [owner, newOwner, operator, bidder1, bidder2, other] = await hre.ethers.getSigners();
+
+        const Auction = await hre.ethers.getContractFactory("Auction");
+        const auction = await Auction.deploy(auctionConfig());
+        await auction.connect(owner)["fundBonusReserve()"]({ value: bonusReserve });
+
+        return { auction, owner, newOwner, operator, bidder1, bidder2, other };
+    }
+
+    async function deployWithOperatorFixture() {
+        const fixture = await deployAuctionFixture();
+        await fixture.auction.connect(fixture.owner).setOperator(fixture.operator.address, true);
+        return fixture;
+    }
+
+    async function deployWithBidsFixture() {
+        const fixture = await deployAuctionFixture();
+        await fixture.auction.connect(fixture.bidder1)["bid()"]({ value: bid1 });
+        await fixture.auction.connect(fixture.bidder2)["bid()"]({ value: bid2 });
+        return fixture;
+    }
+
+    describe("ownership transfer", function () {
+        it("should only let the owner start a transfer", async function () {
+            const { auction, newOwner, other } = await loadFixture(deployAuctionFixture);
+
+            await expect(auction.connect(other).transferOwnership(newOwner.address))
+                .to.be.revertedWithCustomError(auction, "NotOwner")
+                .withArgs(other.address);
+        });
+
+        it("should keep the current owner until the transfer is accepted", async function () {
+            const { auction, owner, newOwner } = await loadFixture(deployAuctionFixture);
+
+            await expect(auction.connect(owner).transferOwnership(newOwner.address))
+                .to.emit(auction, "OwnershipTransferStarted")
+                .withArgs(owner.address, newOwner.address);
+            expect(await auction.owner()).to.equal(owner.address);
+            expect(await auction.pendingOwner()).to.equal(newOwner.address);
+        });
+
+        it("should hand over ownership when the pending owner accepts", async function () {
+            const { auction, owner, newOwner } = await loadFixture(deployAuctionFixture);
+            await auction.connect(owner).transferOwnership(newOwner.address);
+
+            await expect(auction.connect(newOwner).acceptOwnership())
+                .to.emit(auction, "OwnershipTransferred")
+                .withArgs(owner.address, newOwner.address);
+            expect(await auction.owner()).to.equal(newOwner.address);
+            expect(await auction.pendingOwner()).to.equal(hre.ethers.ZeroAddress);
+
+            await expect(auction.connect(owner).setPaused(true))
+                .to.be.revertedWithCustomError(auction, "NotOwnerOrOperator")
+                .withArgs(owner.address);
+            await expect(auction.connect(newOwner).setPaused(true)).not.to.be.reverted;
+        });
+
+        it("should only let the pending owner accept", async function () {
+            const { auction, owner, newOwner, other } = await loadFixture(deployAuctionFixture);
+            await auction.connect(owner).transferOwnership(newOwner.address);
+
+            await expect(auction.connect(other).acceptOwnership())
+                .to.be.revertedWithCustomError(auction, "NotPendingOwner")
+                .withArgs(other.address);
+        });
+
+        it("should let the owner withdraw a pending offer", async function () {
+            const { auction, owner, newOwner } = await loadFixture(deployAuctionFixture);
+            await auction.connect(owner).transferOwnership(newOwner.address);
+            await auction.connect(owner).transferOwnership(hre.ethers.ZeroAddress);
+
+            await expect(auction.connect(newOwner).acceptOwnership())
+                .to.be.revertedWithCustomError(auction, "NotPendingOwner")
+                .withArgs(newOwner.address);
+        });
+
+        it("should pay the proceeds to the new owner", async function () {
+            const { auction, owner, newOwner } = await loadFixture(deployWithBidsFixture);
+            await auction.connect(owner).transferOwnership(newOwner.address);
+            await auction.connect(newOwner).acceptOwnership();
+            await time.increaseTo(await auction.auctionEndTime());
+            await auction.endAuction();
+
+            await expect(auction.connect(owner).withdraw())
+                .to.be.revertedWithCustomError(auction, "NotOwner")
+                .withArgs(owner.address);
+            await expect(auction.connect(newOwner).withdraw()).to.emit(auction, "FundsWithdrawn");
+        });
+    });
+
+    describe("operators", function () {
+        it("should only let the owner manage operators", async function () {
+            const { auction, owner, operator, other } = await loadFixture(deployAuctionFixture);
+
+            await expect(auction.connect(other).setOperator(operator.address, true))
+                .to.be.revertedWithCustomError(auction, "NotOwner")
+                .withArgs(other.address);
+            await expect(auction.connect(owner).setOperator(operator.address, true))
+                .to.emit(auction, "OperatorUpdated")
+                .withArgs(operator.address, true);
+            expect(await auction.operators(operator.address)).to.equal(true);
+        });
+
+        it("should reject the zero address as an operator", async function () {
+            const { auction, owner } = await loadFixture(deployAuctionFixture);
+
+            await expect(auction.connect(owner).setOperator(hre.ethers.ZeroAddress, true))
+                .to.be.revertedWithCustomError(auction, "InvalidOperator");
+        });
+
+        it("should let an operator pause and resume the auction", async function () {
+            const { auction, operator } = await loadFixture(deployWithOperatorFixture);
+
+            await expect(auction.connect(operator).setPaused(true))
+                .to.emit(auction, "AuctionPaused")
+                .withArgs(true);
+            await expect(auction.connect(operator).setPaused(false))
+                .to.emit(auction, "AuctionPaused")
+                .withArgs(false);
+        });
+
+        it("should not let anyone else pause the auction", async function () {
+            const { auction, other } = await loadFixture(deployWithOperatorFixture);
+
+            await expect(auction.connect(other).setPaused(true))
+                .to.be.revertedWithCustomError(auction, "NotOwnerOrOperator")
+                .withArgs(other.address);
+        });
+
+        it("should not give operators the owner's other powers", async function () {
+            const { auction, operator, other } = await loadFixture(deployWithOperatorFixture);
+            const asOperator = auction.connect(operator);
+
+            for (const call of [
+                () => asOperator.cancelAuction(),
+                () => asOperator.setOperator(other.address, true),
+                () => asOperator.transferOwnership(operator.address),
+                () => asOperator["fundBonusReserve()"]({ value: 1 }),
+            ]) {
+                await expect(call()).to.be.revertedWithCustomError(auction, "NotOwner").withArgs(operator.address);
+            }
+        });
+
+        it("should stop a removed operator from pausing", async function () {
+            const { auction, owner, operator } = await loadFixture(deployWithOperatorFixture);
+
+            await expect(auction.connect(owner).setOperator(operator.address, false))
+                .to.emit(auction, "OperatorUpdated")
+                .withArgs(operator.address, false);
+            await expect(auction.connect(operator).setPaused(true))
+                .to.be.revertedWithCustomError(auction, "NotOwnerOrOperator")
+                .withArgs(operator.address);
+        });
+    });
+
+    describe("cancelAuction", function () {
+        it("should only let the owner cancel", async function () {
+            const { auction, other } = await loadFixture(deployAuctionFixture);
+
+            await expect(auction.connect(other).cancelAuction())
+                .to.be.revertedWithCustomError(auction, "NotOwner")
+                .withArgs(other.address);
+        });
+
+        it("should end an auction with no bids", async function () {
+            const { auction, owner, bidder1 } = await loadFixture(deployAuctionFixture);
+
+            await expect(auction.connect(owner).cancelAuction())
+                .to.emit(auction, "AuctionCancelled")
+                .withArgs(hre.ethers.ZeroAddress, 0);
+
+            expect(await auction.cancelled()).to.equal(true);
+            expect(await auction.auctionEnded()).to.equal(true);
+            expect(await auction.auctionEndTime()).to.equal(await time.latest());
+            await expect(auction.connect(bidder1)["bid()"]({ value: bid1 }))
+                .to.be.revertedWithCustomError(auction, "AuctionHasEnded");
+            await expect(auction.endAuction()).to.be.revertedWithCustomError(auction, "AuctionAlreadyEnded");
+        });
+
+        it("should credit every bidder back when there are bids", async function () {
+            const { auction, owner, bidder1, bidder2 } = await loadFixture(deployWithBidsFixture);
+            const outbidRefund = bid1 + bid2 / BigInt(10);
+
+            await expect(auction.connect(owner).cancelAuction())
+                .to.emit(auction, "AuctionCancelled")
+                .withArgs(bidder2.address, bid2);
+            expect(await auction.highestBidder()).to.equal(hre.ethers.ZeroAddress);
+            expect(await auction.pendingReturns(bidder2.address)).to.equal(bid2);
+
+            await expect(auction.connect(bidder1).withdrawRefund()).to.changeEtherBalance(bidder1, outbidRefund);
+            await expect(auction.connect(bidder2).withdrawRefund()).to.changeEtherBalance(bidder2, bid2);
+        });
+
+        it("should let the owner withdraw only the unused bonus reserve", async function () {
+            const { auction, owner } = await loadFixture(deployWithBidsFixture);
+            await auction.connect(owner).cancelAuction();
+            const remainingReserve = bonusReserve - bid2 / BigInt(10);
+
+            await expect(auction.connect(owner).withdraw())
+                .to.emit(auction, "FundsWithdrawn")
+                .withArgs(owner.address, remainingReserve);
+        });
+
+        it("should return the escrowed item to the owner", async function () {
+            const [owner, bidder1] = await hre.ethers.getSigners();
+            const tokenId = 1;
+            const nft = await (await hre.ethers.getContractFactory("MockERC721")).deploy();
+            await nft.mint(owner.address, tokenId);
+            const implementation = await (await hre.ethers.getContractFactory("Auction")).deploy(
+                auctionConfig({ duration: 1 })
+            );
+            const factory = await (await hre.ethers.getContractFactory("AuctionFactory")).deploy(
+                implementation.target
+            );
+            await nft.connect(owner).approve(factory.target, tokenId);
+            const { auction } = await createAuction(
+                factory.connect(owner),
+                auctionConfig({ item: { standard: ItemStandard.ERC721, token: nft.target, tokenId, amount: 1 } })
+            );
+            await auction.connect(bidder1)["bid()"]({ value: bid1 });
+
+            await expect(auction.connect(owner).cancelAuction())
+                .to.emit(auction, "ItemDelivered")
+                .withArgs(owner.address, nft.target, tokenId, 1);
+            expect(await nft.ownerOf(tokenId)).to.equal(owner.address);
+        });
+
+        it("should not cancel an auction that has already ended", async function () {
+            const { auction, owner } = await loadFixture(deployWithBidsFixture);
+            await time.increaseTo(await auction.auctionEndTime());
+            await auction.endAuction();
+
+            await expect(auction.connect(owner).cancelAuction())
+                .to.be.revertedWithCustomError(auction, "AuctionAlreadyEnded");
+        });
+
+        it("should not cancel once the end time has passed", async function () {
+            const { auction, owner, bidder2 } = await loadFixture(deployWithBidsFixture);
+            const endTime = await auction.auctionEndTime();
+            await time.increaseTo(endTime);
+
+            await expect(auction.connect(owner).cancelAuction())
+                .to.be.revertedWithCustomError(auction, "AuctionHasEnded")
+                .withArgs(endTime);
+            expect(await auction.highestBidder()).to.equal(bidder2.address);
+        });
+    });
+});
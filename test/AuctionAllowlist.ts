@@ -0,0 +1,195 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { auctionConfig } from "../scripts/lib/auctionFactory";
+import { buildAllowlist, getAllowlistProof } from "../scripts/lib/allowlist";
+import type { Allowlist } from "../scripts/lib/allowlist";
+import type { Auction } from "../typechain-types";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("Auction start time and allowlist", function () {
+    const e = (eth: string) => hre.ethers.parseEther(eth);
+    const duration = 3600;
+    const delay = 600;
+
+    async function deployScheduledFixture() {
+        const [owner, bidder] = await hre.ethers.getSigners();
+        const startTime = (await time.latest()) + delay;
+
+        const Auction = await hre.ethers.getContractFactory("Auction");
+        const auction = await Auction.deploy(auctionConfig({ duration, startTime }));
+
+        return { auction, owner, bidder, startTime };
+    }
+
+    async function deployAllowlistFixture() {
+        const [owner, bidder1, bidder2, outsider] = await hre.ethers.getSigners();
+        // bidder1 may bid up to 2 ETH, bidder2 without a cap
+        const allowlist = buildAllowlist([
+            { address: bidder1.address, cap: e("2") },
+            { address: bidder2.address, cap: BigInt(0) },
+        ]);
+
+        const Auction = await hre.ethers.getContractFactory("Auction");
+        const auction = await Auction.deploy(auctionConfig({ allowlistRoot: allowlist.root }));
+
+        return { auction, allowlist, owner, bidder1, bidder2, outsider };
+    }
+
+    function join(auction: Auction, allowlist: Allowlist, bidder: HardhatEthersSigner) {
+        const { cap, proof } = getAllowlistProof(allowlist, bidder.address);
+        return auction.connect(bidder).joinAllowlist(cap, proof);
+    }
+
+    describe("start time", function () {
+        it("should run the duration from the start time", async function () {
+            const { auction, startTime } = await loadFixture(deployScheduledFixture);
+
+            expect(await auction.startTime()).to.equal(startTime);
+            expect(await auction.auctionEndTime()).to.equal(startTime + duration);
+            expect((await auction.getAuctionInfo()).startTime).to.equal(startTime);
+        });
+
+        it("should open bidding at the start time and not a second before", async function () {
+            const { auction, bidder, startTime } = await loadFixture(deployScheduledFixture);
+
+            await time.setNextBlockTimestamp(startTime - 1);
+            await expect(auction.connect(bidder)["bid()"]({ value: e("1") }))
+                .to.be.revertedWithCustomError(auction, "AuctionNotStarted")
+                .withArgs(startTime);
+
+            await time.setNextBlockTimestamp(startTime);
+            await expect(auction.connect(bidder)["bid()"]({ value: e("1") }))
+                .to.emit(auction, "NewBid")
+                .withArgs(bidder.address, e("1"));
+        });
+
+        it("should open bidding at deployment without a start time", async function () {
+            const auction = await (await hre.ethers.getContractFactory("Auction")).deploy(auctionConfig({ duration }));
+
+            const startTime = await time.latest();
+            expect(await auction.startTime()).to.equal(startTime);
+            expect(await auction.auctionEndTime()).to.equal(startTime + duration);
+        });
+
+        it("should reject a start time in the past", async function () {
+            const Auction = await hre.ethers.getContractFactory("Auction");
+            const startTime = (await time.latest()) - 1;
+
+            await expect(Auction.deploy(auctionConfig({ startTime })))
+                .to.be.revertedWithCustomError(Auction, "InvalidStartTime")
+                .withArgs(startTime);
+        });
+    });
+
+    describe("allowlist", function () {
+        it("should let listed bidders join with a valid proof and bid", async function () {
+            const { auction, allowlist, bidder1 } = await loadFixture(deployAllowlistFixture);
+            expect(await auction.isAllowlisted(bidder1.address)).to.equal(false);
+
+            await expect(join(auction, allowlist, bidder1))
+                .to.emit(auction, "AllowlistJoined")
+                .withArgs(bidder1.address, e("2"));
+
+            expect(await auction.isAllowlisted(bidder1.address)).to.equal(true);
+            expect(await auction.bidCap(bidder1.address)).to.equal(e("2"));
+            await auction.connect(bidder1)["bid()"]({ value: e("1") });
+            expect(await auction.highestBidder()).to.equal(bidder1.address);
+        });
+
+        it("should reject bids from bidders who have not joined", async function () {
+            const { auction, outsider } = await loadFixture(deployAllowlistFixture);
+
+            await expect(auction.connect(outsider)["bid()"]({ value: e("1") }))
+                .to.be.revertedWithCustomError(auction, "NotAllowlisted")
+                .withArgs(outsider.address);
+        });
+
+        it("should reject invalid proofs", async function () {
+            const { auction, allowlist, bidder1, bidder2, outsider } = await loadFixture(deployAllowlistFixture);
+            const { cap, proof } = getAllowlistProof(allowlist, bidder1.address);
+
+            // Another bidder's proof, a raised cap and an empty proof
+            await expect(auction.connect(outsider).joinAllowlist(cap, proof)).to.be.revertedWithCustomError(
+                auction,
+                "InvalidAllowlistProof"
+            );
+            await expect(auction.connect(bidder1).joinAllowlist(e("100"), proof)).to.be.revertedWithCustomError(
+                auction,
+                "InvalidAllowlistProof"
+            );
+            await expect(auction.connect(bidder2).joinAllowlist(0, [])).to.be.revertedWithCustomError(
+                auction,
+                "InvalidAllowlistProof"
+            );
+        });
+
+        it("should hold bids and proxy maximums to the bidder's cap", async function () {
+            const { auction, allowlist, bidder1, bidder2 } = await loadFixture(deployAllowlistFixture);
+            await join(auction, allowlist, bidder1);
+            await join(auction, allowlist, bidder2);
+
+            await expect(auction.connect(bidder1)["bid()"]({ value: e("3") }))
+                .to.be.revertedWithCustomError(auction, "BidAboveCap")
+                .withArgs(e("3"), e("2"));
+            await auction.connect(bidder1)["proxyBid()"]({ value: e("1.5") });
+            await expect(auction.connect(bidder1)["proxyBid()"]({ value: e("1") }))
+                .to.be.revertedWithCustomError(auction, "BidAboveCap")
+                .withArgs(e("2.5"), e("2"));
+
+            // A cap of 0 leaves bids uncapped
+            await auction.connect(bidder2)["bid()"]({ value: e("50") });
+            expect(await auction.highestBidder()).to.equal(bidder2.address);
+        });
+    });
+
+    describe("root rotation", function () {
+        it("should let the owner replace the root before the first bid", async function () {
+            const { auction, allowlist, owner, bidder1, outsider } = await loadFixture(deployAllowlistFixture);
+            await join(auction, allowlist, bidder1);
+            const rotated = buildAllowlist([{ address: outsider.address, cap: BigInt(0) }]);
+
+            await expect(auction.connect(owner).setAllowlistRoot(rotated.root))
+                .to.emit(auction, "AllowlistUpdated")
+                .withArgs(rotated.root);
+
+            // Joining under the old root no longer counts
+            expect(await auction.isAllowlisted(bidder1.address)).to.equal(false);
+            await expect(join(auction, allowlist, bidder1)).to.be.revertedWithCustomError(
+                auction,
+                "InvalidAllowlistProof"
+            );
+            await join(auction, rotated, outsider);
+            await auction.connect(outsider)["bid()"]({ value: e("1") });
+            expect(await auction.highestBidder()).to.equal(outsider.address);
+        });
+
+        it("should open bidding to everyone with the zero root", async function () {
+            const { auction, owner, outsider } = await loadFixture(deployAllowlistFixture);
+
+            await auction.connect(owner).setAllowlistRoot(hre.ethers.ZeroHash);
+
+            await auction.connect(outsider)["bid()"]({ value: e("1") });
+            expect(await auction.highestBidder()).to.equal(outsider.address);
+        });
+
+        it("should lock the root once bidding has started", async function () {
+            const { auction, allowlist, owner, bidder1 } = await loadFixture(deployAllowlistFixture);
+            await join(auction, allowlist, bidder1);
+            await auction.connect(bidder1)["bid()"]({ value: e("1") });
+
+            await expect(auction.connect(owner).setAllowlistRoot(hre.ethers.ZeroHash)).to.be.revertedWithCustomError(
+                auction,
+                "AllowlistLocked"
+            );
+        });
+
+        it("should only let the owner replace the root", async function () {
+            const { auction, bidder1 } = await loadFixture(deployAllowlistFixture);
+
+            await expect(auction.connect(bidder1).setAllowlistRoot(hre.ethers.ZeroHash))
+                .to.be.revertedWithCustomError(auction, "NotOwner")
+                .withArgs(bidder1.address);
+        });
+    });
+});
@@ -0,0 +1,212 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { auctionConfig } from "../scripts/lib/auctionFactory";
+
+describe("Auction emergency exit", function () {
+    const duration = 3600;
+    const emergencyDelay = 86400;
+    const bid1 = hre.ethers.parseEther("1");
+    const bid2 = hre.ethers.parseEther("2");
+    const bonus = bid2 / BigInt(10);
+    const bonusReserve = hre.ethers.parseEther("1");
+
+    async function deployWithBidsFixture() {
+        const [owner, bidder1, bidder2, other] = await hre.ethers.getSigners();
+
+        const Auction = await hre.ethers.getContractFactory("Auction");
+        const auction = await Auction.deploy(auctionConfig({ duration, emergencyDelay }));
+        await auction.connect(owner)["fundBonusReserve()"]({ value: bonusReserve });
+        await auction.connect(bidder1)["bid()"]({ value: bid1 });
+        await auction.connect(bidder2)["bid()"]({ value: bid2 });
+
+        return { auction, owner, bidder1, bidder2, other };
+    }
+
+    async function pausedFixture() {
+        const fixture = await deployWithBidsFixture();
+        await fixture.auction.connect(fixture.owner).setPaused(true);
+        return { ...fixture, pausedAt: await fixture.auction.pausedAt() };
+    }
+
+    describe("availability", function () {
+        it("should not be available while the auction runs normally", async function () {
+            const { auction, bidder2 } = await loadFixture(deployWithBidsFixture);
+
+            expect(await auction.emergencyExitAvailable()).to.equal(false);
+            await expect(auction.connect(bidder2).emergencyWithdraw()).to.be.revertedWithCustomError(
+                auction,
+                "EmergencyExitUnavailable"
+            );
+        });
+
+        it("should record when the auction was paused", async function () {
+            const { auction, pausedAt } = await loadFixture(pausedFixture);
+
+            expect(pausedAt).to.equal(await time.latest());
+            expect(await auction.emergencyExitAvailable()).to.equal(false);
+        });
+
+        it("should open once the auction has been paused for the delay", async function () {
+            const { auction, pausedAt } = await loadFixture(pausedFixture);
+
+            await time.increaseTo(pausedAt + BigInt(emergencyDelay) - BigInt(1));
+            expect(await auction.emergencyExitAvailable()).to.equal(false);
+
+            await time.increaseTo(pausedAt + BigInt(emergencyDelay));
+            expect(await auction.emergencyExitAvailable()).to.equal(true);
+        });
+
+        it("should not restart the clock when pausing an already paused auction", async function () {
+            const { auction, owner, pausedAt } = await loadFixture(pausedFixture);
+            await time.increase(100);
+
+            await auction.connect(owner).setPaused(true);
+            expect(await auction.pausedAt()).to.equal(pausedAt);
+        });
+
+        it("should open once the auction is unsettled for the delay after its end", async function () {
+            const { auction } = await loadFixture(deployWithBidsFixture);
+            const endTime = await auction.auctionEndTime();
+
+            await time.increaseTo(endTime + BigInt(emergencyDelay) - BigInt(1));
+            expect(await auction.emergencyExitAvailable()).to.equal(false);
+
+            await time.increaseTo(endTime + BigInt(emergencyDelay));
+            expect(await auction.emergencyExitAvailable()).to.equal(true);
+            await expect(auction.endAuction()).to.be.revertedWithCustomError(auction, "EmergencyExitAvailable");
+        });
+
+        it("should never open when the delay is zero", async function () {
+            const [owner] = await hre.ethers.getSigners();
+            const auction = await (await hre.ethers.getContractFactory("Auction")).deploy(auctionConfig({ duration }));
+            await auction.connect(owner).setPaused(true);
+
+            await time.increase(duration + emergencyDelay * 10);
+            expect(await auction.emergencyExitAvailable()).to.equal(false);
+        });
+    });
+
+    describe("emergencyWithdraw", function () {
+        async function emergencyFixture() {
+            const fixture = await pausedFixture();
+            await time.increaseTo(fixture.pausedAt + BigInt(emergencyDelay));
+            return fixture;
+        }
+
+        it("should return the highest bid and end the auction", async function () {
+            const { auction, bidder2 } = await loadFixture(emergencyFixture);
+
+            const tx = auction.connect(bidder2).emergencyWithdraw();
+            await expect(tx).to.emit(auction, "EmergencyExitActivated").withArgs(bidder2.address, bid2);
+            await expect(tx).to.changeEtherBalances([bidder2, auction], [bid2, -bid2]);
+
+            expect(await auction.emergencyExited()).to.equal(true);
+            expect(await auction.auctionEnded()).to.equal(true);
+            expect(await auction.highestBidder()).to.equal(hre.ethers.ZeroAddress);
+        });
+
+        it("should pay outbid bidders their pending refunds", async function () {
+            const { auction, bidder1, bidder2 } = await loadFixture(emergencyFixture);
+            await auction.connect(bidder2).emergencyWithdraw();
+
+            await expect(auction.connect(bidder1).emergencyWithdraw()).to.changeEtherBalance(bidder1, bid1 + bonus);
+        });
+
+        it("should let the first caller be any bidder", async function () {
+            const { auction, bidder1, bidder2 } = await loadFixture(emergencyFixture);
+
+            await expect(auction.connect(bidder1).emergencyWithdraw())
+                .to.emit(auction, "EmergencyExitActivated")
+                .withArgs(bidder2.address, bid2);
+            expect(await auction.pendingReturns(bidder2.address)).to.equal(bid2);
+        });
+
+        it("should revert for an account with nothing to withdraw", async function () {
+            const { auction, other } = await loadFixture(emergencyFixture);
+
+            await expect(auction.connect(other).emergencyWithdraw())
+                .to.be.revertedWithCustomError(auction, "NoRefundAvailable");
+        });
+
+        it("should stay open after the auction is resumed", async function () {
+            const { auction, owner, bidder1, bidder2 } = await loadFixture(emergencyFixture);
+            await auction.connect(bidder2).emergencyWithdraw();
+            await auction.connect(owner).setPaused(false);
+
+            await expect(auction.connect(bidder1).emergencyWithdraw()).to.changeEtherBalance(bidder1, bid1 + bonus);
+        });
+
+        it("should close bidding when the exit opens before the end time", async function () {
+            const [owner, bidder1, bidder2] = await hre.ethers.getSigners();
+            const auction = await (await hre.ethers.getContractFactory("Auction")).deploy(
+                auctionConfig({ duration: emergencyDelay * 2, emergencyDelay })
+            );
+            await auction.connect(bidder1)["bid()"]({ value: bid1 });
+            await auction.connect(owner).setPaused(true);
+            await time.increaseTo((await auction.pausedAt()) + BigInt(emergencyDelay));
+            await auction.connect(bidder1).emergencyWithdraw();
+            const endTime = await auction.auctionEndTime();
+            expect(endTime).to.equal(await time.latest());
+
+            await auction.connect(owner).setPaused(false);
+            await expect(auction.connect(bidder2)["bid()"]({ value: bid2 }))
+                .to.be.revertedWithCustomError(auction, "AuctionHasEnded")
+                .withArgs(endTime);
+            await expect(auction.connect(bidder2)["proxyBid()"]({ value: bid2 }))
+                .to.be.revertedWithCustomError(auction, "AuctionHasEnded")
+                .withArgs(endTime);
+            await expect(auction.connect(owner).withdraw()).to.changeEtherBalance(owner, 0);
+        });
+
+        it("should leave the owner only the unused bonus reserve", async function () {
+            const { auction, owner, bidder2 } = await loadFixture(emergencyFixture);
+            await auction.connect(bidder2).emergencyWithdraw();
+
+            await expect(auction.connect(owner).withdraw()).to.be.revertedWithCustomError(auction, "AuctionIsPaused");
+
+            await auction.connect(owner).setPaused(false);
+            await expect(auction.connect(owner).withdraw())
+                .to.emit(auction, "FundsWithdrawn")
+                .withArgs(owner.address, bonusReserve - bonus);
+            expect(await hre.ethers.provider.getBalance(auction.target)).to.equal(
+                await auction.totalPendingReturns()
+            );
+        });
+    });
+
+    describe("owner recovery", function () {
+        it("should close the exit when the owner resumes in time", async function () {
+            const { auction, owner, other, pausedAt } = await loadFixture(pausedFixture);
+            await time.increaseTo(pausedAt + BigInt(duration / 2));
+
+            await auction.connect(owner).setPaused(false);
+            expect(await auction.pausedAt()).to.equal(0);
+
+            await expect(auction.connect(other)["bid()"]({ value: hre.ethers.parseEther("3") })).not.to.be.reverted;
+        });
+
+        it("should restart the clock on the next pause", async function () {
+            const { auction, owner, pausedAt } = await loadFixture(pausedFixture);
+            await time.increaseTo(pausedAt + BigInt(600));
+            await auction.connect(owner).setPaused(false);
+            await auction.connect(owner).setPaused(true);
+
+            await time.increaseTo(pausedAt + BigInt(emergencyDelay));
+            expect(await auction.emergencyExitAvailable()).to.equal(false);
+        });
+
+        it("should settle normally when the auction is ended before the delay passes", async function () {
+            const { auction, owner, bidder2 } = await loadFixture(deployWithBidsFixture);
+            const endTime = await auction.auctionEndTime();
+            await time.increaseTo(endTime + BigInt(emergencyDelay) - BigInt(10));
+
+            await expect(auction.endAuction()).to.emit(auction, "AuctionEnded").withArgs(bidder2.address, bid2);
+            await time.increase(emergencyDelay);
+            expect(await auction.emergencyExitAvailable()).to.equal(false);
+            await expect(auction.connect(owner).withdraw())
+                .to.emit(auction, "FundsWithdrawn")
+                .withArgs(owner.address, bid2 + bonusReserve - bonus);
+        });
+    });
+});
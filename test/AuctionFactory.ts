@@ -0,0 +1,230 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import AuctionFactoryModule from "../ignition/modules/AuctionFactory";
+import {
+    auctionConfig,
+    connectAuctionFactory,
+    createAuction,
+    listAuctions,
+} from "../scripts/lib/auctionFactory";
+
+describe("AuctionFactory", function () {
+    async function deployFactoryFixture() {
+        const [deployer, creator1, creator2, bidder1, bidder2] = await hre.ethers.getSigners();
+
+        const Auction = await hre.ethers.getContractFactory("Auction");
+        const implementation = await Auction.deploy(auctionConfig({ duration: 1 }));
+
+        const AuctionFactory = await hre.ethers.getContractFactory("AuctionFactory");
+        const factory = await AuctionFactory.deploy(implementation.target);
+
+        return { factory, implementation, deployer, creator1, creator2, bidder1, bidder2 };
+    }
+
+    describe("Deployment", function () {
+        it("should store the implementation", async function () {
+            const { factory, implementation } = await loadFixture(deployFactoryFixture);
+
+            expect(await factory.implementation()).to.equal(implementation.target);
+            expect(await factory.auctionCount()).to.equal(0);
+        });
+
+        it("should not accept an implementation without code", async function () {
+            const { creator1 } = await loadFixture(deployFactoryFixture);
+            const AuctionFactory = await hre.ethers.getContractFactory("AuctionFactory");
+
+            await expect(AuctionFactory.deploy(creator1.address)).to.be.revertedWith(
+                "Implementation must be a contract"
+            );
+        });
+
+        it("should deploy through the Ignition module", async function () {
+            const { factory, implementation } = await hre.ignition.deploy(AuctionFactoryModule);
+
+            expect(await factory.implementation()).to.equal(implementation.target);
+            expect(await implementation.auctionEndTime()).to.equal(await time.latest());
+        });
+    });
+
+    describe("createAuction", function () {
+        it("should initialize the clone with the creator as owner", async function () {
+            const { factory, creator1 } = await loadFixture(deployFactoryFixture);
+            const config = auctionConfig({ duration: 7200, startingPrice: hre.ethers.parseEther("1") });
+
+            const created = await createAuction(factory.connect(creator1), config);
+            const createdAt = await time.latest();
+
+            expect(created.creator).to.equal(creator1.address);
+            expect(await created.auction.owner()).to.equal(creator1.address);
+            expect(await created.auction.auctionEndTime()).to.equal(createdAt + 7200);
+            expect(created.endTime).to.equal(createdAt + 7200);
+            expect(await created.auction.startingPrice()).to.equal(hre.ethers.parseEther("1"));
+            expect(await factory.isAuction(created.address)).to.be.true;
+        });
+
+        it("should emit AuctionCreated event", async function () {
+            const { factory, creator1 } = await loadFixture(deployFactoryFixture);
+            const predicted = await factory.connect(creator1).createAuction.staticCall(auctionConfig());
+            const createdAt = (await time.latest()) + 10;
+            await time.setNextBlockTimestamp(createdAt);
+
+            await expect(factory.connect(creator1).createAuction(auctionConfig()))
+                .to.emit(factory, "AuctionCreated")
+                .withArgs(creator1.address, predicted, createdAt + 3600);
+        });
+
+        it("should emit AuctionInitialized from the clone", async function () {
+            const { factory, creator1 } = await loadFixture(deployFactoryFixture);
+            const predicted = await factory.connect(creator1).createAuction.staticCall(auctionConfig());
+            const clone = await hre.ethers.getContractAt("Auction", predicted);
+            const createdAt = (await time.latest()) + 10;
+            await time.setNextBlockTimestamp(createdAt);
+
+            await expect(factory.connect(creator1).createAuction(auctionConfig()))
+                .to.emit(clone, "AuctionInitialized")
+                .withArgs(creator1.address, 3600, createdAt + 3600);
+        });
+
+        it("should validate the configuration", async function () {
+            const { factory, implementation, creator1 } = await loadFixture(deployFactoryFixture);
+
+            await expect(
+                factory.connect(creator1).createAuction(auctionConfig({ duration: 0 }))
+            ).to.be.revertedWithCustomError(implementation, "InvalidDuration");
+        });
+
+        it("should not allow re-initializing a clone", async function () {
+            const { factory, creator1, bidder1 } = await loadFixture(deployFactoryFixture);
+            const { auction } = await createAuction(factory.connect(creator1), auctionConfig());
+
+            await expect(
+                auction.connect(bidder1).initialize(bidder1.address, auctionConfig())
+            ).to.be.revertedWithCustomError(auction, "AlreadyInitialized");
+        });
+
+        it("should not allow initializing the implementation", async function () {
+            const { implementation, bidder1 } = await loadFixture(deployFactoryFixture);
+
+            await expect(
+                implementation.connect(bidder1).initialize(bidder1.address, auctionConfig())
+            ).to.be.revertedWithCustomError(implementation, "AlreadyInitialized");
+        });
+
+        it("should cost less gas than deploying an Auction directly", async function () {
+            const { factory, creator1 } = await loadFixture(deployFactoryFixture);
+            const config = auctionConfig();
+
+            const Auction = await hre.ethers.getContractFactory("Auction", creator1);
+            const direct = await Auction.deploy(config);
+            const directReceipt = await direct.deploymentTransaction()!.wait();
+
+            const cloneTx = await factory.connect(creator1).createAuction(config);
+            const cloneReceipt = await cloneTx.wait();
+
+            expect(cloneReceipt!.gasUsed).to.be.lessThan(directReceipt!.gasUsed);
+        });
+    });
+
+    describe("clone isolation", function () {
+        async function deployTwoAuctionsFixture() {
+            const fixture = await deployFactoryFixture();
+            const first = await createAuction(fixture.factory.connect(fixture.creator1), auctionConfig());
+            const second = await createAuction(
+                fixture.factory.connect(fixture.creator2),
+                auctionConfig({ duration: 7200 })
+            );
+            return { ...fixture, first: first.auction, second: second.auction };
+        }
+
+        it("should keep bids separate between clones", async function () {
+            const { first, second, bidder1, bidder2 } = await loadFixture(deployTwoAuctionsFixture);
+            const amount = hre.ethers.parseEther("1");
+
+            await first.connect(bidder1)["bid()"]({ value: amount });
+
+            expect(await first.highestBidder()).to.equal(bidder1.address);
+            expect(await second.highestBidder()).to.equal(hre.ethers.ZeroAddress);
+            expect(await second.highestBid()).to.equal(0);
+            await expect(second.connect(bidder2)["bid()"]({ value: amount - BigInt(1) })).not.to.be.reverted;
+        });
+
+        it("should keep ETH balances separate between clones", async function () {
+            const { first, second, bidder1, bidder2 } = await loadFixture(deployTwoAuctionsFixture);
+
+            await first.connect(bidder1)["bid()"]({ value: hre.ethers.parseEther("1") });
+            await second.connect(bidder2)["bid()"]({ value: hre.ethers.parseEther("3") });
+
+            expect(await hre.ethers.provider.getBalance(first.target)).to.equal(hre.ethers.parseEther("1"));
+            expect(await hre.ethers.provider.getBalance(second.target)).to.equal(hre.ethers.parseEther("3"));
+        });
+
+        it("should keep ownership and pause state separate between clones", async function () {
+            const { first, second, creator1, creator2 } = await loadFixture(deployTwoAuctionsFixture);
+
+            await first.connect(creator1).setPaused(true);
+
+            expect(await first.paused()).to.be.true;
+            expect(await second.paused()).to.be.false;
+            await expect(first.connect(creator2).setPaused(false))
+                .to.be.revertedWithCustomError(first, "NotOwnerOrOperator")
+                .withArgs(creator2.address);
+        });
+
+        it("should settle each clone independently", async function () {
+            const { first, second, creator1, bidder1 } = await loadFixture(deployTwoAuctionsFixture);
+            const amount = hre.ethers.parseEther("1");
+            await first.connect(bidder1)["bid()"]({ value: amount });
+
+            await time.increase(3601);
+            await first.endAuction();
+
+            await expect(first.connect(creator1).withdraw()).to.changeEtherBalances(
+                [creator1, first],
+                [amount, -amount]
+            );
+            expect(await second.auctionEnded()).to.be.false;
+            await expect(second.endAuction()).to.be.revertedWithCustomError(second, "AuctionStillRunning");
+        });
+    });
+
+    describe("listing auctions", function () {
+        it("should index auctions by creator", async function () {
+            const { factory, creator1, creator2 } = await loadFixture(deployFactoryFixture);
+
+            const a = await createAuction(factory.connect(creator1), auctionConfig());
+            const b = await createAuction(factory.connect(creator2), auctionConfig());
+            const c = await createAuction(factory.connect(creator1), auctionConfig());
+
+            expect(await factory.auctionCount()).to.equal(3);
+            expect(await factory.getAuctions()).to.deep.equal([a.address, b.address, c.address]);
+            expect(await factory.getAuctionsByCreator(creator1.address)).to.deep.equal([a.address, c.address]);
+            expect(await factory.getAuctionsByCreator(creator2.address)).to.deep.equal([b.address]);
+        });
+
+        it("should list auction summaries through the helper", async function () {
+            const { factory, creator1, creator2, bidder1 } = await loadFixture(deployFactoryFixture);
+            const a = await createAuction(factory.connect(creator1), auctionConfig());
+            await createAuction(factory.connect(creator2), auctionConfig());
+            await a.auction.connect(bidder1)["bid()"]({ value: hre.ethers.parseEther("1") });
+
+            const client = connectAuctionFactory(await factory.getAddress(), hre.ethers.provider);
+            const all = await listAuctions(client);
+            const mine = await listAuctions(client, creator1.address);
+
+            expect(all).to.have.length(2);
+            expect(mine).to.have.length(1);
+            expect(mine[0].address).to.equal(a.address);
+            expect(mine[0].owner).to.equal(creator1.address);
+            expect(mine[0].highestBidder).to.equal(bidder1.address);
+            expect(mine[0].highestBid).to.equal(hre.ethers.parseEther("1"));
+            expect(mine[0].isEnded).to.be.false;
+        });
+
+        it("should return an empty list for a creator without auctions", async function () {
+            const { factory, bidder1 } = await loadFixture(deployFactoryFixture);
+
+            expect(await listAuctions(factory, bidder1.address)).to.deep.equal([]);
+        });
+    });
+});
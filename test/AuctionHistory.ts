@@ -0,0 +1,198 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { auctionConfig } from "../scripts/lib/auctionFactory";
+
+describe("Auction bid history", function () {
+    const bonusReserve = hre.ethers.parseEther("2");
+    const amounts = ["1", "2", "3", "4", "5"].map((eth) => hre.ethers.parseEther(eth));
+
+    async function deployAuctionFixture() {
+        const [owner, bidder1, bidder2, other] = await hre.ethers.getSigners();
+
+        const Auction = await hre.ethers.getContractFactory("Auction");
+        const auction = await Auction.deploy(auctionConfig({ bonusBps: 1000 }));
+        await auction.connect(owner)["fundBonusReserve()"]({ value: bonusReserve });
+
+        return { auction, owner, bidder1, bidder2, other };
+    }
+
+    // Five bids, alternating between the two bidders
+    async function deployWithBidsFixture() {
+        const fixture = await deployAuctionFixture();
+        const timestamps: bigint[] = [];
+        for (const [index, amount] of amounts.entries()) {
+            const bidder = index % 2 === 0 ? fixture.bidder1 : fixture.bidder2;
+            await fixture.auction.connect(bidder)["bid()"]({ value: amount });
+            timestamps.push(BigInt(await time.latest()));
+        }
+        return { ...fixture, timestamps };
+    }
+
+    describe("getBids", function () {
+        it("should list every bid in order with bidder, amount and timestamp", async function () {
+            const { auction, bidder1, bidder2, timestamps } = await loadFixture(deployWithBidsFixture);
+
+            const page = await auction.getBids(0, 10);
+
+            expect(await auction.bidCount()).to.equal(amounts.length);
+            expect(page.map((record) => record.bidder)).to.deep.equal([
+                bidder1.address,
+                bidder2.address,
+                bidder1.address,
+                bidder2.address,
+                bidder1.address,
+            ]);
+            expect(page.map((record) => record.amount)).to.deep.equal(amounts);
+            expect(page.map((record) => record.timestamp)).to.deep.equal(timestamps);
+        });
+
+        it("should walk the history page by page", async function () {
+            const { auction } = await loadFixture(deployWithBidsFixture);
+
+            const pages = [await auction.getBids(0, 2), await auction.getBids(2, 2), await auction.getBids(4, 2)];
+
+            expect(pages.map((page) => page.length)).to.deep.equal([2, 2, 1]);
+            expect(pages.flat().map((record) => record.amount)).to.deep.equal(amounts);
+        });
+
+        it("should return an empty page for an auction without bids", async function () {
+            const { auction } = await loadFixture(deployAuctionFixture);
+
+            expect(await auction.bidCount()).to.equal(0);
+            expect(await auction.getBids(0, 10)).to.deep.equal([]);
+        });
+
+        it("should return an empty page for a zero limit", async function () {
+            const { auction } = await loadFixture(deployWithBidsFixture);
+
+            expect(await auction.getBids(0, 0)).to.deep.equal([]);
+        });
+
+        it("should return an empty page for an offset at or past the end", async function () {
+            const { auction } = await loadFixture(deployWithBidsFixture);
+
+            expect(await auction.getBids(amounts.length, 1)).to.deep.equal([]);
+            expect(await auction.getBids(amounts.length + 10, 1)).to.deep.equal([]);
+            expect(await auction.getBids(hre.ethers.MaxUint256, 1)).to.deep.equal([]);
+        });
+
+        it("should clamp a limit that runs past the end", async function () {
+            const { auction } = await loadFixture(deployWithBidsFixture);
+
+            const lastPage = await auction.getBids(3, hre.ethers.MaxUint256);
+            expect(lastPage.map((record) => record.amount)).to.deep.equal(amounts.slice(3));
+        });
+    });
+
+    describe("getBidderInfo", function () {
+        it("should report each bidder's bids, total, latest bid and pending refund", async function () {
+            const { auction, bidder1, bidder2 } = await loadFixture(deployWithBidsFixture);
+            // bidder1 was outbid by the 2 and 4 ETH bids, bidder2 by the 3 and 5 ETH bids
+            const bonus = (amount: bigint) => amount / BigInt(10);
+
+            const [placedBids1, total1, latest1, pending1] = await auction.getBidderInfo(bidder1.address);
+            expect(placedBids1).to.equal(3);
+            expect(total1).to.equal(amounts[0] + amounts[2] + amounts[4]);
+            expect(latest1).to.equal(amounts[4]);
+            expect(pending1).to.equal(amounts[0] + bonus(amounts[1]) + amounts[2] + bonus(amounts[3]));
+
+            const [placedBids2, total2, latest2, pending2] = await auction.getBidderInfo(bidder2.address);
+            expect(placedBids2).to.equal(2);
+            expect(total2).to.equal(amounts[1] + amounts[3]);
+            expect(latest2).to.equal(amounts[3]);
+            expect(pending2).to.equal(amounts[1] + bonus(amounts[2]) + amounts[3] + bonus(amounts[4]));
+        });
+
+        it("should report zeros for an account that never bid", async function () {
+            const { auction, other } = await loadFixture(deployWithBidsFixture);
+
+            expect(await auction.getBidderInfo(other.address)).to.deep.equal([0, 0, 0, 0]);
+        });
+
+        it("should keep the total after refunds are withdrawn", async function () {
+            const { auction, bidder2 } = await loadFixture(deployWithBidsFixture);
+            await auction.connect(bidder2).withdrawRefund();
+
+            const [, total, , pending] = await auction.getBidderInfo(bidder2.address);
+            expect(total).to.equal(amounts[1] + amounts[3]);
+            expect(pending).to.equal(0);
+        });
+    });
+
+    describe("getAuctionInfo", function () {
+        it("should return the bidding state and configuration in one call", async function () {
+            const { auction, owner, bidder1 } = await loadFixture(deployWithBidsFixture);
+
+            const info = await auction.getAuctionInfo();
+
+            expect(info.owner).to.equal(owner.address);
+            expect(info.highestBidder).to.equal(bidder1.address);
+            expect(info.highestBid).to.equal(amounts[4]);
+            expect(info.minimumNextBid).to.equal(await auction.minimumNextBid());
+            expect(info.bidCount).to.equal(amounts.length);
+            expect(info.endTime).to.equal(await auction.auctionEndTime());
+            expect(info.ended).to.equal(false);
+            expect(info.paused).to.equal(false);
+            expect(info.cancelled).to.equal(false);
+            expect(info.settled).to.equal(false);
+            expect(info.bonusBps).to.equal(1000);
+            expect(info.bonusReserve).to.equal(await auction.bonusReserve());
+            expect(info.totalPendingReturns).to.equal(await auction.totalPendingReturns());
+            expect(info.paymentToken).to.equal(hre.ethers.ZeroAddress);
+            expect(info.item.token).to.equal(hre.ethers.ZeroAddress);
+        });
+
+        it("should reflect the configuration the auction was created with", async function () {
+            const [owner, , , treasury] = await hre.ethers.getSigners();
+            const config = auctionConfig({
+                startingPrice: 100,
+                reservePrice: 200,
+                minIncrement: 10,
+                minIncrementBps: 50,
+                extensionWindow: 60,
+                extensionDuration: 120,
+                maxExtension: 600,
+                emergencyDelay: 86400,
+                beneficiary: owner.address,
+                feeRecipient: treasury.address,
+                feeBps: 250,
+                keeperRewardBps: 100,
+                maxKeeperReward: 1000,
+                maxRoyaltyBps: 500,
+            });
+            const auction = await (await hre.ethers.getContractFactory("Auction")).deploy(config);
+
+            const info = await auction.getAuctionInfo();
+
+            expect(info.startingPrice).to.equal(config.startingPrice);
+            expect(info.reservePrice).to.equal(config.reservePrice);
+            expect(info.minIncrement).to.equal(config.minIncrement);
+            expect(info.minIncrementBps).to.equal(config.minIncrementBps);
+            expect(info.extensionWindow).to.equal(config.extensionWindow);
+            expect(info.extensionDuration).to.equal(config.extensionDuration);
+            expect(info.maxEndTime).to.equal(info.endTime + BigInt(600));
+            expect(info.emergencyDelay).to.equal(config.emergencyDelay);
+            expect(info.beneficiary).to.equal(owner.address);
+            expect(info.feeRecipient).to.equal(treasury.address);
+            expect(info.feeBps).to.equal(config.feeBps);
+            expect(info.keeperRewardBps).to.equal(config.keeperRewardBps);
+            expect(info.maxKeeperReward).to.equal(config.maxKeeperReward);
+            expect(info.maxRoyaltyBps).to.equal(config.maxRoyaltyBps);
+            expect(info.bidCount).to.equal(0);
+            expect(info.minimumNextBid).to.equal(100);
+        });
+
+        it("should report the auction as ended and settled", async function () {
+            const { auction, owner } = await loadFixture(deployWithBidsFixture);
+            await time.increaseTo(await auction.auctionEndTime());
+            await auction.settle();
+            await auction.connect(owner).setPaused(true);
+
+            const info = await auction.getAuctionInfo();
+            expect(info.ended).to.equal(true);
+            expect(info.settled).to.equal(true);
+            expect(info.paused).to.equal(true);
+        });
+    });
+});
@@ -0,0 +1,266 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import type { Signer } from "ethers";
+import { auctionConfig, createAuction, ItemStandard } from "../scripts/lib/auctionFactory";
+import type { AuctionConfig } from "../scripts/lib/auctionFactory";
+
+describe("Auction item escrow", function () {
+    const tokenId = 7;
+    const editionAmount = 5;
+    const bid1 = hre.ethers.parseEther("1");
+    const bid2 = hre.ethers.parseEther("2");
+
+    async function deployTokensFixture() {
+        const [owner, bidder1, bidder2, other] = await hre.ethers.getSigners();
+
+        const nft = await (await hre.ethers.getContractFactory("MockERC721")).deploy();
+        const edition = await (await hre.ethers.getContractFactory("MockERC1155")).deploy();
+        await nft.mint(owner.address, tokenId);
+        await edition.mint(owner.address, tokenId, editionAmount);
+
+        const Auction = await hre.ethers.getContractFactory("Auction");
+        const implementation = await Auction.deploy(auctionConfig({ duration: 1 }));
+        const factory = await (await hre.ethers.getContractFactory("AuctionFactory")).deploy(
+            implementation.target
+        );
+
+        return { nft, edition, factory, owner, bidder1, bidder2, other };
+    }
+
+    // Deploys an Auction directly. The constructor pulls the item, so the
+    // owner approves the address the auction is about to be deployed at.
+    async function deployDirect(
+        owner: Signer,
+        config: AuctionConfig,
+        approve: (auctionAddress: string) => Promise<unknown>
+    ) {
+        const predicted = hre.ethers.getCreateAddress({
+            from: await owner.getAddress(),
+            nonce: (await owner.getNonce()) + 1,
+        });
+        await approve(predicted);
+        const Auction = await hre.ethers.getContractFactory("Auction", owner);
+        return Auction.deploy(config);
+    }
+
+    async function deployERC721AuctionFixture() {
+        const fixture = await deployTokensFixture();
+        const { nft, owner } = fixture;
+        const config = auctionConfig({
+            reservePrice: bid2,
+            item: { standard: ItemStandard.ERC721, token: nft.target, tokenId, amount: 1 },
+        });
+
+        const auction = await deployDirect(owner, config, (auctionAddress) =>
+            nft.connect(owner).approve(auctionAddress, tokenId)
+        );
+
+        return { ...fixture, auction };
+    }
+
+    async function deployERC1155AuctionFixture() {
+        const fixture = await deployTokensFixture();
+        const { edition, factory, owner } = fixture;
+        const config = auctionConfig({
+            item: { standard: ItemStandard.ERC1155, token: edition.target, tokenId, amount: editionAmount },
+        });
+
+        await edition.connect(owner).setApprovalForAll(factory.target, true);
+        const { auction } = await createAuction(factory.connect(owner), config);
+
+        return { ...fixture, auction };
+    }
+
+    async function endAfterDuration(auction: { endAuction: () => Promise<unknown> }) {
+        await time.increase(3601);
+        return auction.endAuction();
+    }
+
+    describe("ERC-721", function () {
+        it("should escrow the token when deployed directly", async function () {
+            const { auction, nft } = await loadFixture(deployERC721AuctionFixture);
+
+            expect(await nft.ownerOf(tokenId)).to.equal(auction.target);
+            const item = await auction.item();
+            expect(item.standard).to.equal(ItemStandard.ERC721);
+            expect(item.token).to.equal(nft.target);
+            expect(item.tokenId).to.equal(tokenId);
+            expect(item.amount).to.equal(1);
+        });
+
+        it("should emit ItemEscrowed event", async function () {
+            const { auction, nft } = await loadFixture(deployERC721AuctionFixture);
+
+            await expect(auction.deploymentTransaction())
+                .to.emit(auction, "ItemEscrowed")
+                .withArgs(nft.target, tokenId, 1);
+        });
+
+        it("should escrow the token through the factory", async function () {
+            const { nft, factory, owner } = await loadFixture(deployTokensFixture);
+            await nft.connect(owner).approve(factory.target, tokenId);
+
+            const { auction } = await createAuction(
+                factory.connect(owner),
+                auctionConfig({ item: { standard: ItemStandard.ERC721, token: nft.target, tokenId, amount: 1 } })
+            );
+
+            expect(await nft.ownerOf(tokenId)).to.equal(auction.target);
+        });
+
+        it("should not deploy without approval for the token", async function () {
+            const { nft, owner } = await loadFixture(deployTokensFixture);
+            const Auction = await hre.ethers.getContractFactory("Auction", owner);
+
+            await expect(
+                Auction.deploy(
+                    auctionConfig({ item: { standard: ItemStandard.ERC721, token: nft.target, tokenId, amount: 1 } })
+                )
+            ).to.be.revertedWithCustomError(nft, "ERC721InsufficientApproval");
+        });
+
+        it("should transfer the token to the winner when the auction ends", async function () {
+            const { auction, nft, bidder1, bidder2 } = await loadFixture(deployERC721AuctionFixture);
+            await auction.connect(bidder1)["bid()"]({ value: bid1 });
+            await auction.connect(bidder2)["bid()"]({ value: bid2 });
+
+            await expect(endAfterDuration(auction))
+                .to.emit(auction, "ItemDelivered")
+                .withArgs(bidder2.address, nft.target, tokenId, 1);
+            expect(await nft.ownerOf(tokenId)).to.equal(bidder2.address);
+        });
+
+        it("should deliver the token to a winner that cannot receive ETH or tokens", async function () {
+            const { auction, nft } = await loadFixture(deployERC721AuctionFixture);
+            const maliciousBidder = await (await hre.ethers.getContractFactory("MaliciousBidder")).deploy(
+                auction.target
+            );
+            await maliciousBidder.bid({ value: bid2 });
+
+            await endAfterDuration(auction);
+            expect(await nft.ownerOf(tokenId)).to.equal(maliciousBidder.target);
+        });
+
+        it("should return the token to the owner when nobody bid", async function () {
+            const { auction, nft, owner } = await loadFixture(deployERC721AuctionFixture);
+
+            await expect(endAfterDuration(auction))
+                .to.emit(auction, "ItemDelivered")
+                .withArgs(owner.address, nft.target, tokenId, 1);
+            expect(await nft.ownerOf(tokenId)).to.equal(owner.address);
+        });
+
+        it("should return the token to the owner when the reserve is not met", async function () {
+            const { auction, nft, owner, bidder1 } = await loadFixture(deployERC721AuctionFixture);
+            await auction.connect(bidder1)["bid()"]({ value: bid2 - BigInt(1) });
+
+            await endAfterDuration(auction);
+            expect(await nft.ownerOf(tokenId)).to.equal(owner.address);
+            expect(await auction.pendingReturns(bidder1.address)).to.equal(bid2 - BigInt(1));
+        });
+
+        it("should reject an ERC-721 item with an amount other than one", async function () {
+            const { nft, owner } = await loadFixture(deployTokensFixture);
+            const Auction = await hre.ethers.getContractFactory("Auction", owner);
+
+            await expect(
+                Auction.deploy(
+                    auctionConfig({ item: { standard: ItemStandard.ERC721, token: nft.target, tokenId, amount: 2 } })
+                )
+            ).to.be.revertedWithCustomError(Auction, "InvalidItem");
+        });
+    });
+
+    describe("ERC-1155", function () {
+        it("should escrow the amount through the factory", async function () {
+            const { auction, edition, owner } = await loadFixture(deployERC1155AuctionFixture);
+
+            expect(await edition.balanceOf(auction.target, tokenId)).to.equal(editionAmount);
+            expect(await edition.balanceOf(owner.address, tokenId)).to.equal(0);
+        });
+
+        it("should escrow the amount when deployed directly", async function () {
+            const { edition, owner } = await loadFixture(deployTokensFixture);
+            const config = auctionConfig({
+                item: { standard: ItemStandard.ERC1155, token: edition.target, tokenId, amount: 2 },
+            });
+
+            const auction = await deployDirect(owner, config, (auctionAddress) =>
+                edition.connect(owner).setApprovalForAll(auctionAddress, true)
+            );
+
+            expect(await edition.balanceOf(auction.target, tokenId)).to.equal(2);
+            expect(await edition.balanceOf(owner.address, tokenId)).to.equal(editionAmount - 2);
+        });
+
+        it("should transfer the amount to the winner when the auction ends", async function () {
+            const { auction, edition, bidder1, bidder2 } = await loadFixture(deployERC1155AuctionFixture);
+            await auction.connect(bidder1)["bid()"]({ value: bid1 });
+            await auction.connect(bidder2)["bid()"]({ value: bid2 });
+
+            await expect(endAfterDuration(auction))
+                .to.emit(auction, "ItemDelivered")
+                .withArgs(bidder2.address, edition.target, tokenId, editionAmount);
+            expect(await edition.balanceOf(bidder2.address, tokenId)).to.equal(editionAmount);
+            expect(await edition.balanceOf(auction.target, tokenId)).to.equal(0);
+        });
+
+        it("should return the amount to the owner when nobody bid", async function () {
+            const { auction, edition, owner } = await loadFixture(deployERC1155AuctionFixture);
+
+            await endAfterDuration(auction);
+            expect(await edition.balanceOf(owner.address, tokenId)).to.equal(editionAmount);
+        });
+
+        it("should let a winner that rejects the token claim it to another address", async function () {
+            const { auction, edition, other } = await loadFixture(deployERC1155AuctionFixture);
+            const maliciousBidder = await (await hre.ethers.getContractFactory("MaliciousBidder")).deploy(
+                auction.target
+            );
+            await maliciousBidder.bid({ value: bid1 });
+
+            await expect(endAfterDuration(auction))
+                .to.emit(auction, "ItemDeliveryFailed")
+                .withArgs(maliciousBidder.target);
+            expect(await auction.auctionEnded()).to.be.true;
+            expect(await auction.itemClaimant()).to.equal(maliciousBidder.target);
+
+            await expect(maliciousBidder.claimItem(other.address))
+                .to.emit(auction, "ItemDelivered")
+                .withArgs(other.address, edition.target, tokenId, editionAmount);
+            expect(await edition.balanceOf(other.address, tokenId)).to.equal(editionAmount);
+            expect(await auction.itemClaimant()).to.equal(hre.ethers.ZeroAddress);
+        });
+
+        it("should not let anyone else claim the item", async function () {
+            const { auction, bidder1 } = await loadFixture(deployERC1155AuctionFixture);
+            await auction.connect(bidder1)["bid()"]({ value: bid1 });
+            await endAfterDuration(auction);
+
+            await expect(auction.connect(bidder1).claimItem(bidder1.address))
+                .to.be.revertedWithCustomError(auction, "NoItemToClaim");
+        });
+
+        it("should reject tokens sent after initialization", async function () {
+            const { auction, edition, owner } = await loadFixture(deployERC1155AuctionFixture);
+            await edition.mint(owner.address, tokenId + 1, 1);
+
+            await expect(
+                edition.connect(owner).safeTransferFrom(owner.address, auction.target, tokenId + 1, 1, "0x")
+            ).to.be.revertedWithCustomError(auction, "UnexpectedTokenTransfer");
+        });
+
+        it("should reject an ERC-1155 item with a zero amount", async function () {
+            const { edition, factory, owner } = await loadFixture(deployTokensFixture);
+            const Auction = await hre.ethers.getContractFactory("Auction");
+            await edition.connect(owner).setApprovalForAll(factory.target, true);
+
+            await expect(
+                factory.connect(owner).createAuction(
+                    auctionConfig({ item: { standard: ItemStandard.ERC1155, token: edition.target, tokenId, amount: 0 } })
+                )
+            ).to.be.revertedWithCustomError(Auction, "InvalidItem");
+        });
+    });
+});
@@ -0,0 +1,66 @@
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import AuctionModule from "../ignition/modules/Auction";
+import hardhatParameters from "../ignition/parameters/hardhat.json";
+
+describe("AuctionModule", function () {
+    it("should deploy Auction with the duration from the hardhat parameter file", async function () {
+        const { auction } = await hre.ignition.deploy(AuctionModule, {
+            parameters: hardhatParameters,
+        });
+
+        const deployedAt = await time.latest();
+        expect(await auction.auctionEndTime()).to.equal(
+            deployedAt + hardhatParameters.AuctionModule.duration
+        );
+        expect(await auction.bonusBps()).to.equal(hardhatParameters.AuctionModule.bonusBps);
+    });
+
+    it("should use overridden duration, bonus, pricing and extension parameters", async function () {
+        const duration = 7200;
+        const bonusBps = 250;
+        const startingPrice = hre.ethers.parseEther("0.1");
+        const reservePrice = hre.ethers.parseEther("1");
+        const { auction } = await hre.ignition.deploy(AuctionModule, {
+            parameters: {
+                AuctionModule: {
+                    duration,
+                    bonusBps,
+                    startingPrice,
+                    reservePrice,
+                    minIncrementBps: 500,
+                    extensionWindow: 300,
+                    extensionDuration: 600,
+                    maxExtension: 3600,
+                },
+            },
+        });
+
+        const deployedAt = await time.latest();
+        expect(await auction.auctionEndTime()).to.equal(deployedAt + duration);
+        expect(await auction.bonusBps()).to.equal(bonusBps);
+        expect(await auction.startingPrice()).to.equal(startingPrice);
+        expect(await auction.reservePrice()).to.equal(reservePrice);
+        expect(await auction.minIncrement()).to.equal(0);
+        expect(await auction.minIncrementBps()).to.equal(500);
+        expect(await auction.extensionWindow()).to.equal(300);
+        expect(await auction.extensionDuration()).to.equal(600);
+        expect(await auction.maxEndTime()).to.equal(deployedAt + duration + 3600);
+    });
+
+    it("should fall back to a one hour duration and 10% bonus without parameters", async function () {
+        const { auction } = await hre.ignition.deploy(AuctionModule);
+
+        const deployedAt = await time.latest();
+        expect(await auction.auctionEndTime()).to.equal(deployedAt + 3600);
+        expect(await auction.bonusBps()).to.equal(1000);
+    });
+
+    it("should make the deployer the auction owner", async function () {
+        const [deployer] = await hre.ethers.getSigners();
+        const { auction } = await hre.ignition.deploy(AuctionModule);
+
+        expect(await auction.owner()).to.equal(deployer.address);
+    });
+});
@@ -0,0 +1,283 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { auctionConfig } from "../scripts/lib/auctionFactory";
+
+describe("Auction proxy bidding", function () {
+    const e = (eth: string) => hre.ethers.parseEther(eth);
+    const startingPrice = e("1");
+    const minIncrement = e("0.1");
+    const bonusReserve = e("5");
+
+    async function deployAuctionFixture() {
+        const [owner, bidder1, bidder2, bidder3] = await hre.ethers.getSigners();
+
+        const Auction = await hre.ethers.getContractFactory("Auction");
+        const auction = await Auction.deploy(auctionConfig({ startingPrice, minIncrement }));
+        await auction.connect(owner)["fundBonusReserve()"]({ value: bonusReserve });
+
+        return { auction, owner, bidder1, bidder2, bidder3 };
+    }
+
+    // bidder1 holds the lead with a 5 ETH maximum
+    async function deployWithProxyFixture() {
+        const fixture = await deployAuctionFixture();
+        await fixture.auction.connect(fixture.bidder1)["proxyBid()"]({ value: e("5") });
+        return fixture;
+    }
+
+    async function deployWithReserveFixture() {
+        const [owner, bidder1, bidder2] = await hre.ethers.getSigners();
+
+        const Auction = await hre.ethers.getContractFactory("Auction");
+        const auction = await Auction.deploy(auctionConfig({ startingPrice, reservePrice: e("3"), minIncrement }));
+
+        return { auction, owner, bidder1, bidder2 };
+    }
+
+    describe("placing a maximum", function () {
+        it("should open at the starting price and hold the whole deposit", async function () {
+            const { auction, bidder1 } = await loadFixture(deployAuctionFixture);
+
+            const tx = auction.connect(bidder1)["proxyBid()"]({ value: e("5") });
+
+            await expect(tx).to.emit(auction, "NewBid").withArgs(bidder1.address, startingPrice);
+            await expect(tx).to.changeEtherBalance(auction, e("5"));
+
+            expect(await auction.highestBidder()).to.equal(bidder1.address);
+            expect(await auction.highestBid()).to.equal(startingPrice);
+            expect(await auction.bids(bidder1.address)).to.equal(startingPrice);
+            expect(await auction.minimumNextBid()).to.equal(startingPrice + minIncrement);
+        });
+
+        it("should apply the same minimums as a manual bid", async function () {
+            const { auction, bidder2 } = await loadFixture(deployWithProxyFixture);
+
+            await expect(auction.connect(bidder2)["proxyBid()"]({ value: e("1.05") }))
+                .to.be.revertedWithCustomError(auction, "BidIncrementTooLow")
+                .withArgs(e("1.05"), e("1.1"));
+            await expect(auction.connect(bidder2)["proxyBid(uint256)"](e("2"))).to.be.revertedWithCustomError(
+                auction,
+                "PaidInEther"
+            );
+        });
+
+        it("should jump to the reserve price when the maximum covers it", async function () {
+            const { auction, bidder1 } = await loadFixture(deployWithReserveFixture);
+
+            await auction.connect(bidder1)["proxyBid()"]({ value: e("4") });
+
+            expect(await auction.highestBid()).to.equal(e("3"));
+        });
+    });
+
+    describe("automatic bidding", function () {
+        it("should answer a lower manual bid one increment above it, without a bonus", async function () {
+            const { auction, bidder1, bidder2 } = await loadFixture(deployWithProxyFixture);
+
+            await expect(auction.connect(bidder2)["bid()"]({ value: e("2") }))
+                .to.emit(auction, "Refund")
+                .withArgs(bidder2.address, e("2"), 0)
+                .and.to.emit(auction, "NewBid")
+                .withArgs(bidder1.address, e("2.1"));
+
+            expect(await auction.highestBidder()).to.equal(bidder1.address);
+            expect(await auction.highestBid()).to.equal(e("2.1"));
+            expect(await auction.bids(bidder2.address)).to.equal(e("2"));
+            expect(await auction.pendingReturns(bidder2.address)).to.equal(e("2"));
+            expect(await auction.bonusReserve()).to.equal(bonusReserve);
+
+            const history = await auction.getBids(0, 10);
+            expect(history.map((record) => [record.bidder, record.amount])).to.deep.equal([
+                [bidder1.address, startingPrice],
+                [bidder2.address, e("2")],
+                [bidder1.address, e("2.1")],
+            ]);
+        });
+
+        it("should price a higher maximum at the second-highest maximum plus the increment", async function () {
+            const { auction, bidder1, bidder2 } = await loadFixture(deployWithProxyFixture);
+
+            await expect(auction.connect(bidder2)["proxyBid()"]({ value: e("8") }))
+                .to.emit(auction, "Refund")
+                .withArgs(bidder1.address, e("5") + e("0.51"), e("0.51"))
+                .and.to.emit(auction, "NewBid")
+                .withArgs(bidder2.address, e("5.1"));
+
+            expect(await auction.highestBidder()).to.equal(bidder2.address);
+            expect(await auction.highestBid()).to.equal(e("5.1"));
+            expect(await auction.pendingReturns(bidder1.address)).to.equal(e("5.51"));
+        });
+
+        it("should not pay a bonus when the proxy leader bids manually", async function () {
+            const { auction, bidder1 } = await loadFixture(deployWithProxyFixture);
+
+            await expect(auction.connect(bidder1)["bid()"]({ value: e("6") }))
+                .to.emit(auction, "Refund")
+                .withArgs(bidder1.address, e("5"), 0);
+            expect(await auction.highestBidder()).to.equal(bidder1.address);
+            expect(await auction.pendingReturns(bidder1.address)).to.equal(e("5"));
+            expect(await auction.bonusReserve()).to.equal(bonusReserve);
+        });
+
+        it("should not bid past the maximum", async function () {
+            const { auction, bidder1, bidder2, bidder3 } = await loadFixture(deployWithProxyFixture);
+
+            // Within one increment of the leader, the new maximum is the price
+            await auction.connect(bidder2)["proxyBid()"]({ value: e("5.05") });
+            expect(await auction.highestBid()).to.equal(e("5.05"));
+
+            // The old leader's maximum is used up, so it no longer answers
+            await auction.connect(bidder3)["bid()"]({ value: e("6") });
+            expect(await auction.highestBidder()).to.equal(bidder3.address);
+            expect(await auction.bids(bidder1.address)).to.equal(startingPrice);
+        });
+
+        it("should let the earlier maximum win a tie", async function () {
+            const { auction, bidder1, bidder2, bidder3 } = await loadFixture(deployWithProxyFixture);
+
+            await expect(auction.connect(bidder2)["proxyBid()"]({ value: e("5") }))
+                .to.emit(auction, "NewBid")
+                .withArgs(bidder1.address, e("5"));
+            expect(await auction.highestBidder()).to.equal(bidder1.address);
+            expect(await auction.highestBid()).to.equal(e("5"));
+            expect(await auction.pendingReturns(bidder2.address)).to.equal(e("5"));
+
+            // The visible price now equals the maximum, so only a higher bid gets through
+            await expect(auction.connect(bidder3)["bid()"]({ value: e("5") }))
+                .to.be.revertedWithCustomError(auction, "BidNotHigher")
+                .withArgs(e("5"), e("5"));
+        });
+
+        it("should let the leader raise their maximum without raising the price", async function () {
+            const { auction, bidder1, bidder2 } = await loadFixture(deployWithProxyFixture);
+
+            await expect(auction.connect(bidder1)["proxyBid()"]({ value: e("2") })).not.to.emit(auction, "NewBid");
+            expect(await auction.highestBid()).to.equal(startingPrice);
+
+            await auction.connect(bidder2)["proxyBid()"]({ value: e("6") });
+            expect(await auction.highestBidder()).to.equal(bidder1.address);
+            expect(await auction.highestBid()).to.equal(e("6.1"));
+        });
+
+        it("should raise the price to the reserve once a top-up covers it", async function () {
+            const { auction, bidder1 } = await loadFixture(deployWithReserveFixture);
+            await auction.connect(bidder1)["proxyBid()"]({ value: e("2") });
+            expect(await auction.highestBid()).to.equal(startingPrice);
+
+            await auction.connect(bidder1)["proxyBid()"]({ value: e("1") });
+
+            expect(await auction.highestBid()).to.equal(e("3"));
+            await expect(auction.connect(bidder1)["proxyBid()"]({ value: 0 }))
+                .to.be.revertedWithCustomError(auction, "BidNotHigher")
+                .withArgs(e("3"), e("3"));
+        });
+    });
+
+    describe("racing bids", function () {
+        // Sends both bids into the mempool and mines them into one block, in order
+        async function mineTogether(sends: (() => Promise<unknown>)[]) {
+            await hre.network.provider.send("evm_setAutomine", [false]);
+            try {
+                for (const send of sends) {
+                    await send();
+                }
+                await hre.network.provider.send("evm_mine");
+            } finally {
+                await hre.network.provider.send("evm_setAutomine", [true]);
+            }
+        }
+
+        it("should keep a proxy bid that lands before an equal manual bid", async function () {
+            const { auction, bidder1, bidder2 } = await loadFixture(deployAuctionFixture);
+            const gasLimit = 500_000;
+
+            await mineTogether([
+                () => auction.connect(bidder1)["proxyBid()"]({ value: e("3"), gasLimit }),
+                () => auction.connect(bidder2)["bid()"]({ value: e("3"), gasLimit }),
+            ]);
+
+            expect(await auction.highestBidder()).to.equal(bidder1.address);
+            expect(await auction.highestBid()).to.equal(e("3"));
+            expect(await auction.pendingReturns(bidder2.address)).to.equal(e("3"));
+        });
+
+        it("should keep a manual bid that lands before an equal proxy bid", async function () {
+            const { auction, bidder1, bidder2 } = await loadFixture(deployAuctionFixture);
+            const gasLimit = 500_000;
+
+            await mineTogether([
+                () => auction.connect(bidder2)["bid()"]({ value: e("3"), gasLimit }),
+                () => auction.connect(bidder1)["proxyBid()"]({ value: e("3"), gasLimit }),
+            ]);
+
+            expect(await auction.highestBidder()).to.equal(bidder2.address);
+            expect(await auction.highestBid()).to.equal(e("3"));
+            expect(await hre.ethers.provider.getBalance(auction.target)).to.equal(bonusReserve + e("3"));
+        });
+    });
+
+    describe("settlement", function () {
+        it("should credit the unused deposit back to the winner when the auction ends", async function () {
+            const { auction, owner, bidder1, bidder2 } = await loadFixture(deployWithProxyFixture);
+            await auction.connect(bidder2)["bid()"]({ value: e("2") });
+            await time.increaseTo(await auction.auctionEndTime());
+
+            await expect(auction.endAuction())
+                .to.emit(auction, "Refund")
+                .withArgs(bidder1.address, e("2.9"), 0)
+                .and.to.emit(auction, "AuctionEnded")
+                .withArgs(bidder1.address, e("2.1"));
+
+            expect(await auction.pendingReturns(bidder1.address)).to.equal(e("2.9"));
+            await expect(auction.connect(owner).withdraw()).to.changeEtherBalance(owner, e("2.1") + bonusReserve);
+            await expect(auction.connect(bidder1).withdrawRefund()).to.changeEtherBalance(bidder1, e("2.9"));
+            expect(await hre.ethers.provider.getBalance(auction.target)).to.equal(e("2"));
+        });
+
+        it("should refund the whole deposit when the reserve is not met", async function () {
+            const { auction, bidder1 } = await loadFixture(deployWithReserveFixture);
+            await auction.connect(bidder1)["proxyBid()"]({ value: e("2") });
+            await time.increaseTo(await auction.auctionEndTime());
+
+            await auction.endAuction();
+
+            expect(await auction.highestBidder()).to.equal(hre.ethers.ZeroAddress);
+            expect(await auction.pendingReturns(bidder1.address)).to.equal(e("2"));
+        });
+
+        it("should refund the whole deposit when the auction is cancelled", async function () {
+            const { auction, owner, bidder1 } = await loadFixture(deployWithProxyFixture);
+
+            await expect(auction.connect(owner).cancelAuction())
+                .to.emit(auction, "AuctionCancelled")
+                .withArgs(bidder1.address, e("5"));
+
+            expect(await auction.pendingReturns(bidder1.address)).to.equal(e("5"));
+        });
+    });
+
+    describe("ERC-20 payments", function () {
+        it("should hold the maximum in tokens", async function () {
+            const [owner, bidder1, bidder2] = await hre.ethers.getSigners();
+            const token = await (await hre.ethers.getContractFactory("MockERC20")).deploy();
+            const Auction = await hre.ethers.getContractFactory("Auction");
+            const auction = await Auction.deploy(auctionConfig({ minIncrement, paymentToken: token.target }));
+            for (const bidder of [bidder1, bidder2]) {
+                await token.mint(bidder.address, e("100"));
+                await token.connect(bidder).approve(auction.target, hre.ethers.MaxUint256);
+            }
+
+            await auction.connect(bidder1)["proxyBid(uint256)"](e("10"));
+            await auction.connect(bidder2)["bid(uint256)"](e("4"));
+
+            expect(await auction.highestBidder()).to.equal(bidder1.address);
+            expect(await auction.highestBid()).to.equal(e("4.1"));
+            expect(await token.balanceOf(auction.target)).to.equal(e("14"));
+            await expect(auction.connect(owner)["proxyBid()"]({ value: e("1") })).to.be.revertedWithCustomError(
+                auction,
+                "PaidInTokens"
+            );
+        });
+    });
+});
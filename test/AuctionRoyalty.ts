@@ -0,0 +1,317 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { auctionConfig, createAuction, ItemStandard } from "../scripts/lib/auctionFactory";
+import type { AuctionConfig } from "../scripts/lib/auctionFactory";
+import type { BlocklistERC20, MockERC20, MockERC721, MockERC721Royalty } from "../typechain-types";
+
+describe("Auction fee and royalty split", function () {
+    const tokenId = 7;
+    const feeBps = 250;
+    const royaltyBps = 750;
+    const maxRoyaltyBps = 1000;
+    const keeperRewardBps = 100;
+    const maxKeeperReward = hre.ethers.parseEther("1");
+    // Odd amounts so that every basis-point share rounds down
+    const bid1 = hre.ethers.parseEther("1") + BigInt(3);
+    const bid2 = hre.ethers.parseEther("1.5") + BigInt(7);
+
+    function share(amount: bigint, bps: number) {
+        return (amount * BigInt(bps)) / BigInt(10_000);
+    }
+
+    async function createItemAuction(nft: MockERC721 | MockERC721Royalty, overrides: Partial<AuctionConfig> = {}) {
+        const [owner, bidder1, bidder2, treasury, creator, beneficiary, keeper] = await hre.ethers.getSigners();
+
+        await nft.mint(owner.address, tokenId);
+        const implementation = await (await hre.ethers.getContractFactory("Auction")).deploy(
+            auctionConfig({ duration: 1 })
+        );
+        const factory = await (await hre.ethers.getContractFactory("AuctionFactory")).deploy(implementation.target);
+        await nft.connect(owner).approve(factory.target, tokenId);
+
+        const { auction } = await createAuction(
+            factory.connect(owner),
+            auctionConfig({
+                item: { standard: ItemStandard.ERC721, token: nft.target, tokenId, amount: 1 },
+                beneficiary: beneficiary.address,
+                feeRecipient: treasury.address,
+                feeBps,
+                maxRoyaltyBps,
+                keeperRewardBps,
+                maxKeeperReward,
+                ...overrides,
+            })
+        );
+        await auction.connect(bidder1)["bid()"]({ value: bid1 });
+        await auction.connect(bidder2)["bid()"]({ value: bid2 });
+
+        return { auction, owner, bidder1, bidder2, treasury, creator, beneficiary, keeper };
+    }
+
+    async function deploy(overrides: Partial<AuctionConfig> = {}) {
+        const nft = await (await hre.ethers.getContractFactory("MockERC721Royalty")).deploy();
+        return { nft, ...(await createItemAuction(nft, overrides)) };
+    }
+
+    async function deployRoyaltyFixture() {
+        const fixture = await deploy();
+        await fixture.nft.setTokenRoyalty(tokenId, fixture.creator.address, royaltyBps);
+        await time.increaseTo(await fixture.auction.auctionEndTime());
+        return fixture;
+    }
+
+    describe("getProceedsSplit", function () {
+        it("should report the split before settlement", async function () {
+            const { auction, creator } = await loadFixture(deployRoyaltyFixture);
+
+            const split = await auction.getProceedsSplit();
+
+            expect(split.sale).to.equal(bid2);
+            expect(split.fee).to.equal(share(bid2, feeBps));
+            expect(split.royaltyReceiver).to.equal(creator.address);
+            expect(split.royalty).to.equal(share(bid2, royaltyBps));
+            expect(split.keeperReward).to.equal(share(bid2, keeperRewardBps));
+            expect(split.fee + split.royalty + split.keeperReward + split.sellerProceeds).to.equal(bid2);
+        });
+
+        it("should report nothing once settled", async function () {
+            const { auction, keeper } = await loadFixture(deployRoyaltyFixture);
+            await auction.connect(keeper).settle();
+
+            const split = await auction.getProceedsSplit();
+            expect(split.sale).to.equal(0);
+            expect(split.sellerProceeds).to.equal(0);
+        });
+
+        it("should report nothing while the bids are below the reserve", async function () {
+            const { auction } = await deploy({ reservePrice: bid2 + BigInt(1) });
+
+            expect((await auction.getProceedsSplit()).sale).to.equal(0);
+        });
+    });
+
+    describe("settle", function () {
+        it("should pay exactly the reported split and leave no dust", async function () {
+            const { auction, bidder1, treasury, creator, beneficiary, keeper } = await loadFixture(
+                deployRoyaltyFixture
+            );
+            const split = await auction.getProceedsSplit();
+
+            const tx = auction.connect(keeper).settle();
+            await expect(tx).to.emit(auction, "FeePaid").withArgs(treasury.address, split.fee);
+            await expect(tx).to.emit(auction, "RoyaltyPaid").withArgs(creator.address, split.royalty);
+            await expect(tx)
+                .to.emit(auction, "ProceedsDistributed")
+                .withArgs(bid2, split.fee, creator.address, split.royalty, split.keeperReward, split.sellerProceeds);
+            await expect(tx).to.changeEtherBalances(
+                [treasury, creator, keeper, beneficiary, auction],
+                [split.fee, split.royalty, split.keeperReward, split.sellerProceeds, -bid2]
+            );
+
+            await auction.connect(bidder1).withdrawRefund();
+            expect(await hre.ethers.provider.getBalance(auction.target)).to.equal(0);
+        });
+    });
+
+    describe("recipients that reject payment", function () {
+        it("should credit a rejected royalty and still pay the seller", async function () {
+            const { nft, auction, bidder1, treasury, beneficiary, keeper } = await deploy();
+            const receiver = await (await hre.ethers.getContractFactory("MaliciousBidder")).deploy(auction.target);
+            await nft.setTokenRoyalty(tokenId, receiver.target, royaltyBps);
+            await time.increaseTo(await auction.auctionEndTime());
+            const split = await auction.getProceedsSplit();
+
+            const tx = auction.connect(keeper).settle();
+            await expect(tx).to.emit(auction, "PaymentCredited").withArgs(receiver.target, split.royalty);
+            await expect(tx).not.to.emit(auction, "RoyaltyPaid");
+            await expect(tx).to.changeEtherBalances(
+                [treasury, keeper, beneficiary],
+                [split.fee, split.keeperReward, split.sellerProceeds]
+            );
+
+            expect(await auction.pendingReturns(receiver.target)).to.equal(split.royalty);
+            await auction.connect(bidder1).withdrawRefund();
+            expect(await hre.ethers.provider.getBalance(auction.target)).to.equal(split.royalty);
+        });
+
+        it("should credit a rejected fee and still pay the seller", async function () {
+            const MaliciousBidder = await hre.ethers.getContractFactory("MaliciousBidder");
+            const treasury = await MaliciousBidder.deploy(hre.ethers.ZeroAddress);
+            const { nft, auction, owner, creator, beneficiary } = await deploy({ feeRecipient: treasury.target });
+            await nft.setTokenRoyalty(tokenId, creator.address, royaltyBps);
+            await time.increaseTo(await auction.auctionEndTime());
+            await auction.endAuction();
+            const split = await auction.getProceedsSplit();
+
+            const tx = auction.connect(owner).withdraw();
+            await expect(tx).to.emit(auction, "PaymentCredited").withArgs(treasury.target, split.fee);
+            await expect(tx).not.to.emit(auction, "FeePaid");
+            await expect(tx).to.changeEtherBalances(
+                [creator, beneficiary],
+                [split.royalty, split.sellerProceeds + split.keeperReward]
+            );
+            expect(await auction.pendingReturns(treasury.target)).to.equal(split.fee);
+        });
+    });
+
+    describe("withdraw", function () {
+        it("should give the seller the keeper reward instead", async function () {
+            const { auction, owner, treasury, creator, beneficiary } = await loadFixture(deployRoyaltyFixture);
+            await auction.endAuction();
+            const fee = share(bid2, feeBps);
+            const royalty = share(bid2, royaltyBps);
+
+            const tx = auction.connect(owner).withdraw();
+            await expect(tx)
+                .to.emit(auction, "ProceedsDistributed")
+                .withArgs(bid2, fee, creator.address, royalty, 0, bid2 - fee - royalty);
+            await expect(tx).to.changeEtherBalances(
+                [treasury, creator, beneficiary, owner],
+                [fee, royalty, bid2 - fee - royalty, 0]
+            );
+            expect(await hre.ethers.provider.getBalance(auction.target)).to.equal(
+                await auction.totalPendingReturns()
+            );
+        });
+
+        it("should only distribute the sale once", async function () {
+            const { auction, owner } = await loadFixture(deployRoyaltyFixture);
+            await auction.endAuction();
+            await auction.connect(owner).withdraw();
+
+            await expect(auction.connect(owner).withdraw()).not.to.emit(auction, "ProceedsDistributed");
+        });
+    });
+
+    describe("royalty", function () {
+        it("should cap the royalty at maxRoyaltyBps", async function () {
+            const { auction, nft, creator } = await loadFixture(deployRoyaltyFixture);
+            await nft.setTokenRoyalty(tokenId, creator.address, 2500);
+
+            const split = await auction.getProceedsSplit();
+            expect(split.royalty).to.equal(share(bid2, maxRoyaltyBps));
+            expect(split.fee + split.royalty + split.keeperReward + split.sellerProceeds).to.equal(bid2);
+        });
+
+        it("should pay no royalty when maxRoyaltyBps is zero", async function () {
+            const { auction, nft, creator, keeper } = await deploy({ maxRoyaltyBps: 0 });
+            await nft.setTokenRoyalty(tokenId, creator.address, royaltyBps);
+            await time.increaseTo(await auction.auctionEndTime());
+
+            const split = await auction.getProceedsSplit();
+            expect(split.royaltyReceiver).to.equal(hre.ethers.ZeroAddress);
+            expect(split.royalty).to.equal(0);
+            await expect(auction.connect(keeper).settle()).not.to.emit(auction, "RoyaltyPaid");
+        });
+
+        it("should pay no royalty for an item without ERC-2981", async function () {
+            const nft = await (await hre.ethers.getContractFactory("MockERC721")).deploy();
+            const { auction, keeper } = await createItemAuction(nft);
+            await time.increaseTo(await auction.auctionEndTime());
+
+            expect((await auction.getProceedsSplit()).royalty).to.equal(0);
+            await expect(auction.connect(keeper).settle()).not.to.emit(auction, "RoyaltyPaid");
+        });
+
+        it("should pay no royalty when the token names no receiver", async function () {
+            const { auction } = await deploy();
+
+            const split = await auction.getProceedsSplit();
+            expect(split.royaltyReceiver).to.equal(hre.ethers.ZeroAddress);
+            expect(split.royalty).to.equal(0);
+        });
+    });
+
+    describe("configuration", function () {
+        it("should reject a fee, royalty cap and keeper reward above 100%", async function () {
+            const Auction = await hre.ethers.getContractFactory("Auction");
+            const [, , , treasury] = await hre.ethers.getSigners();
+
+            await expect(
+                Auction.deploy(
+                    auctionConfig({
+                        feeRecipient: treasury.address,
+                        feeBps: 5_000,
+                        maxRoyaltyBps: 4_000,
+                        keeperRewardBps: 1_001,
+                    })
+                )
+            ).to.be.revertedWithCustomError(Auction, "SplitTooHigh");
+        });
+    });
+
+    describe("token payments", function () {
+        const amount = hre.ethers.parseEther("3") + BigInt(11);
+
+        async function deployTokenAuction(token: MockERC20 | BlocklistERC20) {
+            const [owner, bidder, treasury, creator, beneficiary] = await hre.ethers.getSigners();
+            await token.mint(bidder.address, amount);
+
+            const nft = await (await hre.ethers.getContractFactory("MockERC721Royalty")).deploy();
+            await nft.mint(owner.address, tokenId);
+            await nft.setTokenRoyalty(tokenId, creator.address, royaltyBps);
+            const implementation = await (await hre.ethers.getContractFactory("Auction")).deploy(
+                auctionConfig({ duration: 1 })
+            );
+            const factory = await (await hre.ethers.getContractFactory("AuctionFactory")).deploy(
+                implementation.target
+            );
+            await nft.connect(owner).approve(factory.target, tokenId);
+            const { auction } = await createAuction(
+                factory.connect(owner),
+                auctionConfig({
+                    item: { standard: ItemStandard.ERC721, token: nft.target, tokenId, amount: 1 },
+                    paymentToken: token.target,
+                    beneficiary: beneficiary.address,
+                    feeRecipient: treasury.address,
+                    feeBps,
+                    maxRoyaltyBps,
+                })
+            );
+            await token.connect(bidder).approve(auction.target, amount);
+            await auction.connect(bidder)["bid(uint256)"](amount);
+            await time.increaseTo(await auction.auctionEndTime());
+            await auction.endAuction();
+
+            return { auction, owner, treasury, creator, beneficiary };
+        }
+
+        it("should pay the split in the payment token with no dust left", async function () {
+            const token = await (await hre.ethers.getContractFactory("MockERC20")).deploy();
+            const { auction, owner, treasury, creator, beneficiary } = await deployTokenAuction(token);
+
+            const fee = share(amount, feeBps);
+            const royalty = share(amount, royaltyBps);
+            await expect(auction.connect(owner).withdraw()).to.changeTokenBalances(
+                token,
+                [treasury, creator, beneficiary],
+                [fee, royalty, amount - fee - royalty]
+            );
+            expect(await token.balanceOf(auction.target)).to.equal(0);
+        });
+
+        it("should credit a fee and royalty the token refuses to send and still pay the seller", async function () {
+            const token = await (await hre.ethers.getContractFactory("BlocklistERC20")).deploy();
+            const { auction, owner, treasury, creator, beneficiary } = await deployTokenAuction(token);
+            await token.setBlocked(treasury.address, true);
+            await token.setBlocked(creator.address, true);
+
+            const fee = share(amount, feeBps);
+            const royalty = share(amount, royaltyBps);
+            const tx = auction.connect(owner).withdraw();
+            await expect(tx).to.emit(auction, "PaymentCredited").withArgs(treasury.address, fee);
+            await expect(tx).to.emit(auction, "PaymentCredited").withArgs(creator.address, royalty);
+            await expect(tx).not.to.emit(auction, "FeePaid");
+            await expect(tx).not.to.emit(auction, "RoyaltyPaid");
+            await expect(tx).to.changeTokenBalance(token, beneficiary, amount - fee - royalty);
+
+            expect(await auction.pendingReturns(treasury.address)).to.equal(fee);
+            expect(await auction.pendingReturns(creator.address)).to.equal(royalty);
+            expect(await token.balanceOf(auction.target)).to.equal(fee + royalty);
+
+            await token.setBlocked(treasury.address, false);
+            await expect(auction.connect(treasury).withdrawRefund()).to.changeTokenBalance(token, treasury, fee);
+        });
+    });
+});
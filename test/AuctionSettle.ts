@@ -0,0 +1,268 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { auctionConfig, createAuction, ItemStandard } from "../scripts/lib/auctionFactory";
+import type { AuctionConfig } from "../scripts/lib/auctionFactory";
+
+describe("Auction settlement", function () {
+    const duration = 3600;
+    const bid1 = hre.ethers.parseEther("1");
+    const bid2 = hre.ethers.parseEther("2");
+    const bonus = bid2 / BigInt(10);
+    const bonusReserve = hre.ethers.parseEther("1");
+    const feeBps = 500;
+    const keeperRewardBps = 100;
+    const maxKeeperReward = hre.ethers.parseEther("1");
+
+    async function deploy(overrides: Partial<AuctionConfig> = {}) {
+        const [owner, bidder1, bidder2, beneficiary, feeRecipient, keeper] = await hre.ethers.getSigners();
+
+        const Auction = await hre.ethers.getContractFactory("Auction");
+        const auction = await Auction.deploy(
+            auctionConfig({
+                duration,
+                beneficiary: beneficiary.address,
+                feeRecipient: feeRecipient.address,
+                feeBps,
+                keeperRewardBps,
+                maxKeeperReward,
+                ...overrides,
+            })
+        );
+        await auction.connect(owner)["fundBonusReserve()"]({ value: bonusReserve });
+        await auction.connect(bidder1)["bid()"]({ value: bid1 });
+        await auction.connect(bidder2)["bid()"]({ value: bid2 });
+
+        return { auction, owner, bidder1, bidder2, beneficiary, feeRecipient, keeper };
+    }
+
+    async function deployWithBidsFixture() {
+        return deploy();
+    }
+
+    async function endedFixture() {
+        const fixture = await deploy();
+        await time.increaseTo(await fixture.auction.auctionEndTime());
+        return fixture;
+    }
+
+    describe("settle", function () {
+        it("should not settle before the end time", async function () {
+            const { auction, keeper } = await loadFixture(deployWithBidsFixture);
+
+            await expect(auction.connect(keeper).settle())
+                .to.be.revertedWithCustomError(auction, "AuctionStillRunning");
+        });
+
+        it("should let anyone end and settle the auction", async function () {
+            const { auction, bidder2, keeper } = await loadFixture(endedFixture);
+            const reward = (bid2 * BigInt(keeperRewardBps)) / BigInt(10_000);
+
+            await expect(auction.connect(keeper).settle())
+                .to.emit(auction, "AuctionEnded")
+                .withArgs(bidder2.address, bid2)
+                .and.to.emit(auction, "AuctionSettled")
+                .withArgs(keeper.address, reward);
+            expect(await auction.auctionEnded()).to.equal(true);
+            expect(await auction.settled()).to.equal(true);
+        });
+
+        it("should split the proceeds between the beneficiary, fee recipient, keeper and owner", async function () {
+            const { auction, owner, beneficiary, feeRecipient, keeper } = await loadFixture(endedFixture);
+            const fee = (bid2 * BigInt(feeBps)) / BigInt(10_000);
+            const reward = (bid2 * BigInt(keeperRewardBps)) / BigInt(10_000);
+            const leftoverReserve = bonusReserve - bonus;
+
+            const tx = auction.connect(keeper).settle();
+            await expect(tx).to.emit(auction, "FeePaid").withArgs(feeRecipient.address, fee);
+            await expect(tx)
+                .to.emit(auction, "FundsWithdrawn")
+                .withArgs(beneficiary.address, bid2 - fee - reward);
+            await expect(tx).to.emit(auction, "FundsWithdrawn").withArgs(owner.address, leftoverReserve);
+            await expect(tx).to.changeEtherBalances(
+                [beneficiary, feeRecipient, keeper, owner, auction],
+                [bid2 - fee - reward, fee, reward, leftoverReserve, -(bid2 + leftoverReserve)]
+            );
+            expect(await hre.ethers.provider.getBalance(auction.target)).to.equal(
+                await auction.totalPendingReturns()
+            );
+        });
+
+        it("should cap the keeper reward", async function () {
+            const cap = hre.ethers.parseEther("0.001");
+            const { auction, keeper } = await deploy({ maxKeeperReward: cap });
+            await time.increaseTo(await auction.auctionEndTime());
+
+            expect(await auction.keeperReward()).to.equal(cap);
+            await expect(auction.connect(keeper).settle()).to.changeEtherBalance(keeper, cap);
+        });
+
+        it("should pay the sale to the owner when no beneficiary is set", async function () {
+            const { auction, owner, keeper } = await deploy({
+                beneficiary: hre.ethers.ZeroAddress,
+                feeRecipient: hre.ethers.ZeroAddress,
+                feeBps: 0,
+                keeperRewardBps: 0,
+            });
+            await time.increaseTo(await auction.auctionEndTime());
+
+            await expect(auction.connect(keeper).settle())
+                .to.emit(auction, "FundsWithdrawn")
+                .withArgs(owner.address, bid2 + bonusReserve - bonus)
+                .and.to.emit(auction, "AuctionSettled")
+                .withArgs(keeper.address, 0);
+        });
+
+        it("should deliver the item to the winner", async function () {
+            const [owner, bidder1, keeper] = await hre.ethers.getSigners();
+            const tokenId = 1;
+            const nft = await (await hre.ethers.getContractFactory("MockERC721")).deploy();
+            await nft.mint(owner.address, tokenId);
+            const implementation = await (await hre.ethers.getContractFactory("Auction")).deploy(
+                auctionConfig({ duration: 1 })
+            );
+            const factory = await (await hre.ethers.getContractFactory("AuctionFactory")).deploy(
+                implementation.target
+            );
+            await nft.connect(owner).approve(factory.target, tokenId);
+            const { auction } = await createAuction(
+                factory.connect(owner),
+                auctionConfig({ item: { standard: ItemStandard.ERC721, token: nft.target, tokenId, amount: 1 } })
+            );
+            await auction.connect(bidder1)["bid()"]({ value: bid1 });
+            await time.increaseTo(await auction.auctionEndTime());
+
+            await expect(auction.connect(keeper).settle())
+                .to.emit(auction, "ItemDelivered")
+                .withArgs(bidder1.address, nft.target, tokenId, 1);
+            expect(await nft.ownerOf(tokenId)).to.equal(bidder1.address);
+        });
+
+        it("should settle an auction that was already ended", async function () {
+            const { auction, keeper } = await loadFixture(endedFixture);
+            await auction.endAuction();
+
+            await expect(auction.connect(keeper).settle()).to.emit(auction, "AuctionSettled");
+        });
+
+        it("should only settle once", async function () {
+            const { auction, keeper } = await loadFixture(endedFixture);
+            await auction.connect(keeper).settle();
+
+            await expect(auction.connect(keeper).settle())
+                .to.be.revertedWithCustomError(auction, "AuctionAlreadySettled");
+            expect(await auction.keeperReward()).to.equal(0);
+        });
+
+        it("should not settle after the owner has withdrawn", async function () {
+            const { auction, owner, keeper } = await loadFixture(endedFixture);
+            await auction.endAuction();
+            await auction.connect(owner).withdraw();
+
+            await expect(auction.connect(keeper).settle())
+                .to.be.revertedWithCustomError(auction, "AuctionAlreadySettled");
+        });
+
+        it("should not pay the sale twice when the owner withdraws after settlement", async function () {
+            const { auction, owner, keeper } = await loadFixture(endedFixture);
+            await auction.connect(keeper).settle();
+
+            await expect(auction.connect(owner).withdraw()).to.changeEtherBalance(owner, 0);
+        });
+
+        it("should not settle while paused", async function () {
+            const { auction, owner, keeper } = await loadFixture(endedFixture);
+            await auction.connect(owner).setPaused(true);
+
+            await expect(auction.connect(keeper).settle()).to.be.revertedWithCustomError(auction, "AuctionIsPaused");
+        });
+
+        it("should refund the top bidder and pay no reward when the reserve is not met", async function () {
+            const { auction, bidder2, keeper } = await deploy({ reservePrice: hre.ethers.parseEther("5") });
+            await time.increaseTo(await auction.auctionEndTime());
+
+            expect(await auction.keeperReward()).to.equal(0);
+            await expect(auction.connect(keeper).settle())
+                .to.emit(auction, "ReserveNotMet")
+                .and.to.emit(auction, "AuctionSettled")
+                .withArgs(keeper.address, 0);
+            expect(await auction.pendingReturns(bidder2.address)).to.equal(bid2);
+        });
+    });
+
+    describe("withdraw", function () {
+        it("should take the fee but pay no keeper reward", async function () {
+            const { auction, owner, beneficiary, feeRecipient } = await loadFixture(endedFixture);
+            const fee = (bid2 * BigInt(feeBps)) / BigInt(10_000);
+            await auction.endAuction();
+
+            const tx = auction.connect(owner).withdraw();
+            await expect(tx).to.emit(auction, "FeePaid").withArgs(feeRecipient.address, fee);
+            await expect(tx).not.to.emit(auction, "AuctionSettled");
+            await expect(tx).to.changeEtherBalances(
+                [beneficiary, feeRecipient, owner],
+                [bid2 - fee, fee, bonusReserve - bonus]
+            );
+        });
+    });
+
+    describe("keeperReward", function () {
+        it("should report the reward once the winning bid is known", async function () {
+            const { auction } = await loadFixture(deployWithBidsFixture);
+
+            expect(await auction.keeperReward()).to.equal((bid2 * BigInt(keeperRewardBps)) / BigInt(10_000));
+        });
+    });
+
+    describe("configuration", function () {
+        it("should reject a fee, royalty and keeper reward above 100%", async function () {
+            const Auction = await hre.ethers.getContractFactory("Auction");
+            const [, , , , feeRecipient] = await hre.ethers.getSigners();
+
+            await expect(
+                Auction.deploy(
+                    auctionConfig({ feeRecipient: feeRecipient.address, feeBps: 9_000, keeperRewardBps: 1_001 })
+                )
+            ).to.be.revertedWithCustomError(Auction, "SplitTooHigh");
+        });
+
+        it("should require a fee recipient when a fee is set", async function () {
+            const Auction = await hre.ethers.getContractFactory("Auction");
+
+            await expect(Auction.deploy(auctionConfig({ feeBps: 100 })))
+                .to.be.revertedWithCustomError(Auction, "InvalidFeeRecipient");
+        });
+    });
+
+    describe("token payments", function () {
+        it("should pay the split in the payment token", async function () {
+            const [owner, bidder, beneficiary, feeRecipient, keeper] = await hre.ethers.getSigners();
+            const token = await (await hre.ethers.getContractFactory("MockERC20")).deploy();
+            const amount = hre.ethers.parseEther("100");
+            await token.mint(bidder.address, amount);
+
+            const auction = await (await hre.ethers.getContractFactory("Auction")).deploy(
+                auctionConfig({
+                    duration,
+                    paymentToken: token.target,
+                    beneficiary: beneficiary.address,
+                    feeRecipient: feeRecipient.address,
+                    feeBps,
+                    keeperRewardBps,
+                    maxKeeperReward,
+                })
+            );
+            await token.connect(bidder).approve(auction.target, amount);
+            await auction.connect(bidder)["bid(uint256)"](amount);
+            await time.increaseTo(await auction.auctionEndTime());
+
+            const fee = (amount * BigInt(feeBps)) / BigInt(10_000);
+            const reward = (amount * BigInt(keeperRewardBps)) / BigInt(10_000);
+            await expect(auction.connect(keeper).settle()).to.changeTokenBalances(
+                token,
+                [beneficiary, feeRecipient, keeper, owner],
+                [amount - fee - reward, fee, reward, 0]
+            );
+        });
+    });
+});
@@ -0,0 +1,289 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import type { AuctionStatus } from "../tasks/auction";
+
+describe("Auction tasks", function () {
+    const auctionDuration = 3600;
+    const bonusBps = 1000;
+    const config = {
+        duration: auctionDuration,
+        bonusBps,
+        startingPrice: 0,
+        reservePrice: 0,
+        minIncrement: 0,
+        minIncrementBps: 0,
+        extensionWindow: 0,
+        extensionDuration: 0,
+        maxExtension: 0,
+        item: { standard: 0, token: hre.ethers.ZeroAddress, tokenId: 0, amount: 0 },
+        paymentToken: hre.ethers.ZeroAddress,
+        emergencyDelay: 0,
+        beneficiary: hre.ethers.ZeroAddress,
+        feeRecipient: hre.ethers.ZeroAddress,
+        feeBps: 0,
+        keeperRewardBps: 0,
+        maxKeeperReward: 0,
+        maxRoyaltyBps: 0,
+        startTime: 0,
+        allowlistRoot: hre.ethers.ZeroHash,
+    };
+
+    async function deployAuctionFixture() {
+        const [owner, bidder1, bidder2] = await hre.ethers.getSigners();
+
+        const Auction = await hre.ethers.getContractFactory("Auction");
+        const auction = await Auction.deploy(config);
+        const address = await auction.getAddress();
+
+        return { auction, address, owner, bidder1, bidder2 };
+    }
+
+    async function deployWithBidFixture() {
+        const fixture = await deployAuctionFixture();
+        await fixture.auction.connect(fixture.bidder1)["bid()"]({ value: hre.ethers.parseEther("1") });
+        return fixture;
+    }
+
+    // A token auction with 6 decimals and a bid of 2.5 tokens
+    async function deployTokenAuctionFixture() {
+        const [owner, bidder] = await hre.ethers.getSigners();
+        const token = await (await hre.ethers.getContractFactory("MockERC20")).deploy();
+        await token.setDecimals(6);
+        const auction = await (await hre.ethers.getContractFactory("Auction")).deploy({
+            ...config,
+            paymentToken: token.target,
+        });
+        const address = await auction.getAddress();
+        const bidAmount = BigInt(2_500_000);
+        await token.mint(bidder.address, bidAmount);
+        await token.connect(bidder).approve(address, bidAmount);
+        await auction.connect(bidder)["bid(uint256)"](bidAmount);
+
+        return { auction, address, token, owner, bidder, bidAmount };
+    }
+
+    // Runs a task and returns what it printed
+    async function capture<T>(runTask: () => Promise<T>): Promise<{ result: T; lines: string[] }> {
+        const lines: string[] = [];
+        const log = console.log;
+        console.log = (...args: unknown[]) => lines.push(args.join(" "));
+        try {
+            return { result: await runTask(), lines };
+        } finally {
+            console.log = log;
+        }
+    }
+
+    describe("auction:status", function () {
+        it("should report the auction state", async function () {
+            const { address, owner, bidder1 } = await loadFixture(deployWithBidFixture);
+
+            const status: AuctionStatus = await hre.run("auction:status", { address });
+
+            expect(status.owner).to.equal(owner.address);
+            expect(status.timeRemaining).to.be.closeTo(auctionDuration, 5);
+            expect(status.isEnded).to.be.false;
+            expect(status.isPaused).to.be.false;
+            expect(status.bonusRateBps).to.equal(bonusBps);
+            expect(status.highestBidder).to.equal(bidder1.address);
+            expect(status.highestBid).to.equal(hre.ethers.parseEther("1"));
+        });
+
+        it("should print the amounts of a token auction in the payment token", async function () {
+            const { address } = await loadFixture(deployTokenAuctionFixture);
+
+            const { lines } = await capture(() => hre.run("auction:status", { address }));
+
+            expect(lines).to.include("  Bonus Reserve: 0.0 MTK");
+            expect(lines).to.include("  Highest Bid: 2.5 MTK");
+        });
+
+        it("should report zero time remaining after the end time", async function () {
+            const { address } = await loadFixture(deployAuctionFixture);
+            await time.increase(auctionDuration + 1);
+
+            const status: AuctionStatus = await hre.run("auction:status", { address });
+
+            expect(status.timeRemaining).to.equal(0);
+        });
+
+        it("should reject an address without a contract", async function () {
+            const { bidder2 } = await loadFixture(deployAuctionFixture);
+
+            await expect(
+                hre.run("auction:status", { address: bidder2.address })
+            ).to.be.rejectedWith("No contract is deployed at");
+        });
+
+        it("should reject a malformed address", async function () {
+            await expect(
+                hre.run("auction:status", { address: "0x1234" })
+            ).to.be.rejectedWith("is not a valid address");
+        });
+    });
+
+    describe("auction:end", function () {
+        it("should end the auction after the end time", async function () {
+            const { auction, address } = await loadFixture(deployWithBidFixture);
+            await time.increase(auctionDuration + 1);
+
+            await hre.run("auction:end", { address });
+
+            expect(await auction.auctionEnded()).to.be.true;
+        });
+
+        it("should print the winning bid of a token auction in the payment token", async function () {
+            const { address, bidder } = await loadFixture(deployTokenAuctionFixture);
+            await time.increase(auctionDuration + 1);
+
+            const { result: hash, lines } = await capture(() => hre.run("auction:end", { address }));
+
+            expect(lines).to.deep.equal([
+                `Auction ended in transaction ${hash}`,
+                `  Winner: ${bidder.address}`,
+                "  Winning Bid: 2.5 MTK",
+            ]);
+        });
+
+        it("should refuse to end the auction before the end time", async function () {
+            const { auction, address } = await loadFixture(deployAuctionFixture);
+
+            await expect(hre.run("auction:end", { address })).to.be.rejectedWith(
+                "Auction is still running"
+            );
+            expect(await auction.auctionEnded()).to.be.false;
+        });
+
+        it("should refuse to end the auction twice", async function () {
+            const { address } = await loadFixture(deployAuctionFixture);
+            await time.increase(auctionDuration + 1);
+            await hre.run("auction:end", { address });
+
+            await expect(hre.run("auction:end", { address })).to.be.rejectedWith(
+                "Auction has already been ended"
+            );
+        });
+
+        it("should refuse to end the auction once its emergency exit is open", async function () {
+            const Auction = await hre.ethers.getContractFactory("Auction");
+            const auction = await Auction.deploy({ ...config, emergencyDelay: 600 });
+            await time.increase(auctionDuration + 600);
+
+            await expect(hre.run("auction:end", { address: await auction.getAddress() })).to.be.rejectedWith(
+                "emergency exit is open"
+            );
+        });
+    });
+
+    describe("auction:withdraw", function () {
+        it("should send the proceeds to the owner", async function () {
+            const { auction, address, owner } = await loadFixture(deployWithBidFixture);
+            await time.increase(auctionDuration + 1);
+            await hre.run("auction:end", { address });
+
+            const bidAmount = hre.ethers.parseEther("1");
+            const hash: string = await hre.run("auction:withdraw", { address });
+            await expect(hre.ethers.provider.getTransaction(hash)).to.changeEtherBalances(
+                [owner, auction],
+                [bidAmount, -bidAmount]
+            );
+        });
+
+        it("should withdraw the proceeds of a token auction", async function () {
+            const { auction, address, token, owner, bidAmount } = await loadFixture(deployTokenAuctionFixture);
+            await time.increase(auctionDuration + 1);
+            await hre.run("auction:end", { address });
+
+            const { result: hash, lines } = await capture(() => hre.run("auction:withdraw", { address }));
+
+            expect(lines).to.deep.equal([`Withdrew 2.5 MTK in transaction ${hash}`]);
+            await expect(hre.ethers.provider.getTransaction(hash)).to.changeTokenBalances(
+                token,
+                [owner, auction],
+                [bidAmount, -bidAmount]
+            );
+        });
+
+        it("should refuse to withdraw before the auction is ended", async function () {
+            const { address } = await loadFixture(deployWithBidFixture);
+            await time.increase(auctionDuration + 1);
+
+            await expect(hre.run("auction:withdraw", { address })).to.be.rejectedWith(
+                "run auction:end first"
+            );
+        });
+
+        it("should refuse to withdraw before the end time", async function () {
+            const { address } = await loadFixture(deployWithBidFixture);
+
+            await expect(hre.run("auction:withdraw", { address })).to.be.rejectedWith(
+                "Auction is still running"
+            );
+        });
+
+        it("should refuse to withdraw while the auction is paused", async function () {
+            const { auction, address } = await loadFixture(deployWithBidFixture);
+            await time.increase(auctionDuration + 1);
+            await hre.run("auction:end", { address });
+            await auction.setPaused(true);
+
+            await expect(hre.run("auction:withdraw", { address })).to.be.rejectedWith("Auction is paused");
+        });
+
+        it("should refuse to withdraw for a signer that is not the owner", async function () {
+            const { address, bidder1 } = await loadFixture(deployWithBidFixture);
+            await time.increase(auctionDuration + 1);
+            await hre.run("auction:end", { address });
+
+            await expect(
+                hre.run("auction:withdraw", { address, from: bidder1.address })
+            ).to.be.rejectedWith("is not the auction owner");
+        });
+    });
+
+    describe("auction:pause", function () {
+        it("should pause and resume the auction", async function () {
+            const { auction, address } = await loadFixture(deployAuctionFixture);
+
+            await hre.run("auction:pause", { address });
+            expect(await auction.paused()).to.be.true;
+
+            await hre.run("auction:pause", { address, paused: false });
+            expect(await auction.paused()).to.be.false;
+        });
+
+        it("should refuse to pause an auction that is already paused", async function () {
+            const { address } = await loadFixture(deployAuctionFixture);
+            await hre.run("auction:pause", { address });
+
+            await expect(hre.run("auction:pause", { address })).to.be.rejectedWith(
+                "Auction is already paused"
+            );
+        });
+
+        it("should refuse to pause for a signer that is not the owner", async function () {
+            const { address, bidder1 } = await loadFixture(deployAuctionFixture);
+
+            await expect(
+                hre.run("auction:pause", { address, from: bidder1.address })
+            ).to.be.rejectedWith("is not the auction owner");
+        });
+
+        it("should pause for an operator", async function () {
+            const { auction, address, bidder1 } = await loadFixture(deployAuctionFixture);
+            await auction.setOperator(bidder1.address, true);
+
+            await hre.run("auction:pause", { address, from: bidder1.address });
+            expect(await auction.paused()).to.be.true;
+        });
+
+        it("should still pause after the end time", async function () {
+            const { auction, address } = await loadFixture(deployAuctionFixture);
+            await time.increase(auctionDuration + 1);
+
+            await hre.run("auction:pause", { address });
+            expect(await auction.paused()).to.be.true;
+        });
+    });
+});
@@ -0,0 +1,265 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import type { Signer } from "ethers";
+import type { MockERC20 } from "../typechain-types";
+import { auctionConfig } from "../scripts/lib/auctionFactory";
+
+describe("Auction ERC-20 payments", function () {
+    const bid1 = hre.ethers.parseEther("10");
+    const bid2 = hre.ethers.parseEther("20");
+    const bonusReserve = hre.ethers.parseEther("5");
+    const balance = hre.ethers.parseEther("1000");
+
+    async function signPermit(token: MockERC20, holder: Signer, spender: string, value: bigint, deadline: number) {
+        const { chainId } = await hre.ethers.provider.getNetwork();
+        const signature = await holder.signTypedData(
+            {
+                name: await token.name(),
+                version: "1",
+                chainId,
+                verifyingContract: await token.getAddress(),
+            },
+            {
+                Permit: [
+                    { name: "owner", type: "address" },
+                    { name: "spender", type: "address" },
+                    { name: "value", type: "uint256" },
+                    { name: "nonce", type: "uint256" },
+                    { name: "deadline", type: "uint256" },
+                ],
+            },
+            {
+                owner: await holder.getAddress(),
+                spender,
+                value,
+                nonce: await token.nonces(await holder.getAddress()),
+                deadline,
+            }
+        );
+        return hre.ethers.Signature.from(signature);
+    }
+
+    async function deployTokenAuctionFixture() {
+        const [owner, bidder1, bidder2] = await hre.ethers.getSigners();
+
+        const token = await (await hre.ethers.getContractFactory("MockERC20")).deploy();
+        const Auction = await hre.ethers.getContractFactory("Auction");
+        const auction = await Auction.deploy(auctionConfig({ paymentToken: token.target }));
+
+        for (const account of [owner, bidder1, bidder2]) {
+            await token.mint(account.address, balance);
+            await token.connect(account).approve(auction.target, hre.ethers.MaxUint256);
+        }
+        await auction.connect(owner)["fundBonusReserve(uint256)"](bonusReserve);
+
+        return { token, auction, owner, bidder1, bidder2 };
+    }
+
+    async function deployFeeTokenAuctionFixture() {
+        const [owner, bidder1, bidder2] = await hre.ethers.getSigners();
+        const feeBps = 100;
+
+        const token = await (await hre.ethers.getContractFactory("FeeOnTransferERC20")).deploy(feeBps);
+        const Auction = await hre.ethers.getContractFactory("Auction");
+        const auction = await Auction.deploy(auctionConfig({ paymentToken: token.target }));
+
+        for (const account of [owner, bidder1, bidder2]) {
+            await token.mint(account.address, balance);
+            await token.connect(account).approve(auction.target, hre.ethers.MaxUint256);
+        }
+
+        return { token, auction, owner, bidder1, bidder2, feeBps };
+    }
+
+    async function deployReturnFalseTokenAuctionFixture() {
+        const [owner, bidder1, bidder2] = await hre.ethers.getSigners();
+
+        const token = await (await hre.ethers.getContractFactory("ReturnFalseERC20")).deploy();
+        const Auction = await hre.ethers.getContractFactory("Auction");
+        const auction = await Auction.deploy(auctionConfig({ paymentToken: token.target }));
+
+        for (const account of [bidder1, bidder2]) {
+            await token.mint(account.address, balance);
+            await token.connect(account).approve(auction.target, hre.ethers.MaxUint256);
+        }
+
+        return { token, auction, owner, bidder1, bidder2 };
+    }
+
+    describe("configuration", function () {
+        it("should store the payment token", async function () {
+            const { token, auction } = await loadFixture(deployTokenAuctionFixture);
+
+            expect(await auction.paymentToken()).to.equal(token.target);
+        });
+
+        it("should default to ETH payments", async function () {
+            const auction = await (await hre.ethers.getContractFactory("Auction")).deploy(auctionConfig());
+
+            expect(await auction.paymentToken()).to.equal(hre.ethers.ZeroAddress);
+        });
+
+        it("should reject ETH bids and ETH reserve funding on a token auction", async function () {
+            const { auction, owner, bidder1 } = await loadFixture(deployTokenAuctionFixture);
+
+            await expect(auction.connect(bidder1)["bid()"]({ value: bid1 }))
+                .to.be.revertedWithCustomError(auction, "PaidInTokens");
+            await expect(auction.connect(owner)["fundBonusReserve()"]({ value: bid1 }))
+                .to.be.revertedWithCustomError(auction, "PaidInTokens");
+        });
+
+        it("should reject token bids and token reserve funding on an ETH auction", async function () {
+            const [owner, bidder1] = await hre.ethers.getSigners();
+            const auction = await (await hre.ethers.getContractFactory("Auction")).deploy(auctionConfig());
+
+            await expect(auction.connect(bidder1)["bid(uint256)"](bid1))
+                .to.be.revertedWithCustomError(auction, "PaidInEther");
+            await expect(auction.connect(owner)["fundBonusReserve(uint256)"](bid1))
+                .to.be.revertedWithCustomError(auction, "PaidInEther");
+        });
+    });
+
+    describe("bid", function () {
+        it("should pull the bid from the bidder", async function () {
+            const { token, auction, bidder1 } = await loadFixture(deployTokenAuctionFixture);
+
+            const tx = auction.connect(bidder1)["bid(uint256)"](bid1);
+            await expect(tx).to.emit(auction, "NewBid").withArgs(bidder1.address, bid1);
+            await expect(tx).to.changeTokenBalances(token, [bidder1, auction], [-bid1, bid1]);
+            expect(await auction.highestBidder()).to.equal(bidder1.address);
+            expect(await auction.highestBid()).to.equal(bid1);
+        });
+
+        it("should credit the outbid bidder with their bid plus a token bonus", async function () {
+            const { auction, bidder1, bidder2 } = await loadFixture(deployTokenAuctionFixture);
+            const bonus = bid2 / BigInt(10);
+
+            await auction.connect(bidder1)["bid(uint256)"](bid1);
+            await expect(auction.connect(bidder2)["bid(uint256)"](bid2))
+                .to.emit(auction, "Refund")
+                .withArgs(bidder1.address, bid1 + bonus, bonus);
+            expect(await auction.pendingReturns(bidder1.address)).to.equal(bid1 + bonus);
+            expect(await auction.bonusReserve()).to.equal(bonusReserve - bonus);
+        });
+
+        it("should revert when the bidder has not approved the auction", async function () {
+            const { token, auction, bidder1 } = await loadFixture(deployTokenAuctionFixture);
+            await token.connect(bidder1).approve(auction.target, 0);
+
+            await expect(auction.connect(bidder1)["bid(uint256)"](bid1)).to.be.revertedWithCustomError(
+                token,
+                "ERC20InsufficientAllowance"
+            );
+        });
+    });
+
+    describe("bidWithPermit", function () {
+        it("should bid without a prior approval", async function () {
+            const { token, auction, bidder1 } = await loadFixture(deployTokenAuctionFixture);
+            await token.connect(bidder1).approve(auction.target, 0);
+            const deadline = (await time.latest()) + 3600;
+            const { v, r, s } = await signPermit(token, bidder1, await auction.getAddress(), bid1, deadline);
+
+            const tx = auction.connect(bidder1).bidWithPermit(bid1, deadline, v, r, s);
+            await expect(tx).to.emit(auction, "NewBid").withArgs(bidder1.address, bid1);
+            await expect(tx).to.changeTokenBalances(token, [bidder1, auction], [-bid1, bid1]);
+        });
+
+        it("should still bid when the permit was already used by someone else", async function () {
+            const { token, auction, bidder1, bidder2 } = await loadFixture(deployTokenAuctionFixture);
+            await token.connect(bidder1).approve(auction.target, 0);
+            const deadline = (await time.latest()) + 3600;
+            const { v, r, s } = await signPermit(token, bidder1, await auction.getAddress(), bid1, deadline);
+
+            await token.connect(bidder2).permit(bidder1.address, auction.target, bid1, deadline, v, r, s);
+
+            await expect(auction.connect(bidder1).bidWithPermit(bid1, deadline, v, r, s))
+                .to.emit(auction, "NewBid")
+                .withArgs(bidder1.address, bid1);
+        });
+    });
+
+    describe("withdrawRefund", function () {
+        it("should pay the refund in tokens", async function () {
+            const { token, auction, bidder1, bidder2 } = await loadFixture(deployTokenAuctionFixture);
+            const refund = bid1 + bid2 / BigInt(10);
+            await auction.connect(bidder1)["bid(uint256)"](bid1);
+            await auction.connect(bidder2)["bid(uint256)"](bid2);
+
+            const tx = auction.connect(bidder1).withdrawRefund();
+            await expect(tx).to.emit(auction, "RefundWithdrawn").withArgs(bidder1.address, refund);
+            await expect(tx).to.changeTokenBalances(token, [bidder1, auction], [refund, -refund]);
+        });
+    });
+
+    describe("withdraw", function () {
+        it("should pay the owner the token proceeds and keep unclaimed refunds", async function () {
+            const { token, auction, owner, bidder1, bidder2 } = await loadFixture(deployTokenAuctionFixture);
+            const bonus = bid2 / BigInt(10);
+            await auction.connect(bidder1)["bid(uint256)"](bid1);
+            await auction.connect(bidder2)["bid(uint256)"](bid2);
+            await time.increaseTo(await auction.auctionEndTime());
+            await auction.endAuction();
+
+            const proceeds = bid2 + bonusReserve - bonus;
+            const tx = auction.connect(owner).withdraw();
+            await expect(tx).to.emit(auction, "FundsWithdrawn").withArgs(owner.address, proceeds);
+            await expect(tx).to.changeTokenBalances(token, [owner, auction], [proceeds, -proceeds]);
+            expect(await token.balanceOf(auction.target)).to.equal(bid1 + bonus);
+        });
+    });
+
+    describe("fee-on-transfer tokens", function () {
+        it("should record the amount the auction received as the bid", async function () {
+            const { auction, bidder1, feeBps } = await loadFixture(deployFeeTokenAuctionFixture);
+            const received = bid1 - (bid1 * BigInt(feeBps)) / BigInt(10_000);
+
+            await expect(auction.connect(bidder1)["bid(uint256)"](bid1))
+                .to.emit(auction, "NewBid")
+                .withArgs(bidder1.address, received);
+            expect(await auction.highestBid()).to.equal(received);
+            expect(await auction.bids(bidder1.address)).to.equal(received);
+        });
+
+        it("should leave the auction empty once refunds and proceeds are paid out", async function () {
+            const { token, auction, owner, bidder1, bidder2 } = await loadFixture(deployFeeTokenAuctionFixture);
+            await auction.connect(owner)["fundBonusReserve(uint256)"](bonusReserve);
+            await auction.connect(bidder1)["bid(uint256)"](bid1);
+            await auction.connect(bidder2)["bid(uint256)"](bid2);
+            await time.increaseTo(await auction.auctionEndTime());
+            await auction.endAuction();
+
+            await auction.connect(bidder1).withdrawRefund();
+            await auction.connect(owner).withdraw();
+
+            expect(await auction.totalPendingReturns()).to.equal(0);
+            expect(await token.balanceOf(auction.target)).to.equal(0);
+        });
+    });
+
+    describe("tokens that return false", function () {
+        it("should revert the bid when the transfer returns false", async function () {
+            const { token, auction, bidder1 } = await loadFixture(deployReturnFalseTokenAuctionFixture);
+            await token.setFailTransfers(true);
+
+            await expect(auction.connect(bidder1)["bid(uint256)"](bid1))
+                .to.be.revertedWithCustomError(auction, "SafeERC20FailedOperation")
+                .withArgs(token.target);
+            expect(await auction.highestBid()).to.equal(0);
+        });
+
+        it("should keep the refund pending when the refund transfer returns false", async function () {
+            const { token, auction, bidder1, bidder2 } = await loadFixture(deployReturnFalseTokenAuctionFixture);
+            await auction.connect(bidder1)["bid(uint256)"](bid1);
+            await auction.connect(bidder2)["bid(uint256)"](bid2);
+            await token.setFailTransfers(true);
+
+            await expect(auction.connect(bidder1).withdrawRefund()).to.be.revertedWithCustomError(
+                auction,
+                "SafeERC20FailedOperation"
+            );
+            expect(await auction.pendingReturns(bidder1.address)).to.equal(bid1);
+        });
+    });
+});
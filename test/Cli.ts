@@ -0,0 +1,340 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+    CliError,
+    formatEvent,
+    formatResult,
+    parseAmount,
+    parseCliArgs,
+    paymentUnit,
+    runCommand,
+    watchAuction,
+} from "../scripts/lib/cli";
+import type { CliOptions, StatusResult, TransactionResult, WatchedEvent } from "../scripts/lib/cli";
+import { auctionConfig } from "../scripts/lib/auctionFactory";
+import { ContractRevertError } from "../scripts/lib/errors";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("Operator CLI", function () {
+    const duration = 3600;
+    const bid1 = hre.ethers.parseEther("1");
+    const bid2 = hre.ethers.parseEther("2");
+
+    async function deployAuctionFixture() {
+        const [owner, bidder1, bidder2] = await hre.ethers.getSigners();
+        const auction = await (await hre.ethers.getContractFactory("Auction"))
+            .connect(owner)
+            .deploy(auctionConfig({ duration }));
+        await auction.connect(bidder1)["bid()"]({ value: bid1 });
+
+        return { auction, address: await auction.getAddress(), owner, bidder1, bidder2 };
+    }
+
+    function run(signer: HardhatEthersSigner, argv: string[]) {
+        return runCommand(parseCliArgs(argv), { provider: hre.ethers.provider, signer });
+    }
+
+    async function expectRevert(promise: Promise<unknown>, message: string, modifier?: string) {
+        const error = await promise.then(
+            () => expect.fail("expected the command to fail"),
+            (error) => error
+        );
+        expect(error).to.be.instanceOf(CliError);
+        expect(error.message).to.equal(message);
+        expect(error.modifier).to.equal(modifier);
+        expect(error.revert).to.be.instanceOf(ContractRevertError);
+    }
+
+    describe("parseAmount", function () {
+        it("should parse amounts with and without units", function () {
+            expect(parseAmount("0.01")).to.equal(hre.ethers.parseEther("0.01"));
+            expect(parseAmount("0.01 ether")).to.equal(hre.ethers.parseEther("0.01"));
+            expect(parseAmount("2ETH")).to.equal(hre.ethers.parseEther("2"));
+            expect(parseAmount("10gwei")).to.equal(hre.ethers.parseUnits("10", "gwei"));
+            expect(parseAmount("1000 wei")).to.equal(BigInt(1000));
+        });
+
+        it("should parse token amounts in the token's decimals", function () {
+            expect(parseAmount("2.5", 6)).to.equal(BigInt(2_500_000));
+            expect(parseAmount("1", 0)).to.equal(BigInt(1));
+            expect(() => parseAmount("2.5 ether", 6)).to.throw(CliError, "give it in whole tokens without a unit");
+            expect(() => parseAmount("0.0000001", 6)).to.throw(CliError, "has more decimals than the token allows");
+        });
+
+        it("should reject malformed amounts", function () {
+            expect(() => parseAmount("-1")).to.throw(CliError, "is not an amount");
+            expect(() => parseAmount("1 btc")).to.throw(CliError, "is not an amount");
+            expect(() => parseAmount("1.5 wei")).to.throw(CliError, "has more decimals than wei allows");
+        });
+    });
+
+    describe("parseCliArgs", function () {
+        it("should parse a command and its options", function () {
+            const address = "0x0000000000000000000000000000000000000001";
+            const options = parseCliArgs([
+                "bid",
+                "--network",
+                "localhost",
+                "--address",
+                address,
+                "--amount",
+                "0.5 ether",
+                "--json",
+            ]);
+
+            expect(options).to.deep.equal({
+                command: "bid",
+                network: "localhost",
+                address,
+                amount: "0.5 ether",
+                from: undefined,
+                duration: 3600,
+                bonusBps: 1000,
+                interval: 5,
+                resume: false,
+                json: true,
+            } satisfies CliOptions);
+        });
+
+        it("should reject unknown commands and missing or malformed options", function () {
+            const address = "0x0000000000000000000000000000000000000001";
+
+            expect(() => parseCliArgs([])).to.throw(CliError, "Expected one command");
+            expect(() => parseCliArgs(["demo"])).to.throw(CliError, "Expected one command");
+            expect(() => parseCliArgs(["status"])).to.throw(CliError, "--address is required");
+            expect(() => parseCliArgs(["status", "--address", "0x1234"])).to.throw(CliError, "is not a valid address");
+            expect(() => parseCliArgs(["bid", "--address", address])).to.throw(CliError, "--amount is required");
+            expect(() => parseCliArgs(["deploy", "--duration", "1h"])).to.throw(CliError, "--duration must be");
+            expect(() => parseCliArgs(["status", "--address", address, "--verbose"])).to.throw(CliError);
+        });
+    });
+
+    describe("runCommand", function () {
+        it("should deploy an auction and fund its bonus reserve", async function () {
+            const [owner] = await hre.ethers.getSigners();
+
+            const result = (await run(owner, [
+                "deploy",
+                "--duration",
+                "600",
+                "--bonus-bps",
+                "500",
+                "--amount",
+                "0.1",
+            ])) as TransactionResult;
+
+            const auction = await hre.ethers.getContractAt("Auction", result.address);
+            expect(await auction.owner()).to.equal(owner.address);
+            expect(await auction.bonusBps()).to.equal(500);
+            expect(await auction.bonusReserve()).to.equal(hre.ethers.parseEther("0.1"));
+            expect(result.gasUsed).to.be.greaterThan(0);
+            expect(result.gasUsed).to.be.at.most(result.gasEstimate);
+        });
+
+        it("should report the status and configuration of an auction", async function () {
+            const { address, owner, bidder1 } = await loadFixture(deployAuctionFixture);
+
+            const status = (await run(owner, ["status", "--address", address])) as StatusResult;
+
+            expect(status.command).to.equal("status");
+            expect(status.owner).to.equal(owner.address);
+            expect(status.highestBidder).to.equal(bidder1.address);
+            expect(status.highestBid).to.equal(bid1);
+            expect(status.paused).to.equal(false);
+            expect(status.timeRemaining).to.be.greaterThan(0);
+        });
+
+        it("should simulate and send a bid", async function () {
+            const { auction, address, bidder2 } = await loadFixture(deployAuctionFixture);
+
+            const result = (await run(bidder2, [
+                "bid",
+                "--address",
+                address,
+                "--amount",
+                "2 ether",
+            ])) as TransactionResult;
+
+            expect(result.method).to.equal("bid()");
+            expect(result.from).to.equal(bidder2.address);
+            expect(await auction.highestBidder()).to.equal(bidder2.address);
+            expect(await auction.highestBid()).to.equal(bid2);
+        });
+
+        it("should bid in the payment token's decimals once the auction is approved", async function () {
+            const [owner, bidder] = await hre.ethers.getSigners();
+            const token = await (await hre.ethers.getContractFactory("MockERC20")).deploy();
+            await token.setDecimals(6);
+            const auction = await (await hre.ethers.getContractFactory("Auction"))
+                .connect(owner)
+                .deploy(auctionConfig({ duration, paymentToken: token.target }));
+            const address = await auction.getAddress();
+            const amount = BigInt(2_500_000);
+            await token.mint(bidder.address, amount);
+
+            await expect(run(bidder, ["bid", "--address", address, "--amount", "2.5"])).to.be.rejectedWith(
+                CliError,
+                `Approve the auction to spend 2.5 MTK first: call approve(${address}, ${amount}) ` +
+                    `on ${token.target}, the current allowance is 0.0 MTK`
+            );
+
+            await token.connect(bidder).approve(address, amount);
+            const result = (await run(bidder, ["bid", "--address", address, "--amount", "2.5"])) as TransactionResult;
+
+            expect(result.method).to.equal("bid(uint256)");
+            expect(await auction.highestBid()).to.equal(amount);
+            expect(await token.balanceOf(address)).to.equal(amount);
+        });
+
+        it("should end, withdraw, pause and resume an auction", async function () {
+            const { auction, address, owner } = await loadFixture(deployAuctionFixture);
+
+            await run(owner, ["pause", "--address", address]);
+            expect(await auction.paused()).to.equal(true);
+            await run(owner, ["pause", "--address", address, "--resume"]);
+            expect(await auction.paused()).to.equal(false);
+
+            await time.increaseTo(await auction.auctionEndTime());
+            await run(owner, ["end", "--address", address]);
+            expect(await auction.auctionEnded()).to.equal(true);
+
+            const withdraw = (await run(owner, ["withdraw", "--address", address])) as TransactionResult;
+            await expect(hre.ethers.provider.getTransaction(withdraw.hash)).to.changeEtherBalance(owner, bid1);
+        });
+
+        it("should reject an address without a contract", async function () {
+            const { owner, bidder2 } = await loadFixture(deployAuctionFixture);
+
+            await expect(run(owner, ["status", "--address", bidder2.address])).to.be.rejectedWith(
+                CliError,
+                "No contract is deployed at"
+            );
+        });
+    });
+
+    describe("formatting", function () {
+        it("should print amounts in ether", async function () {
+            const { address, owner } = await loadFixture(deployAuctionFixture);
+
+            const status = (await run(owner, ["status", "--address", address])) as StatusResult;
+
+            expect(formatResult(status).split("\n")).to.include(`  highestBid: 1.0 ETH (${bid1})`);
+        });
+
+        it("should print the amounts of a token auction in the payment token", async function () {
+            const [owner, bidder] = await hre.ethers.getSigners();
+            const token = await (await hre.ethers.getContractFactory("MockERC20")).deploy();
+            await token.setDecimals(6);
+            const auction = await (await hre.ethers.getContractFactory("Auction"))
+                .connect(owner)
+                .deploy(auctionConfig({ duration, paymentToken: token.target }));
+            const address = await auction.getAddress();
+            const amount = BigInt(2_500_000);
+            await token.mint(bidder.address, amount);
+            await token.connect(bidder).approve(address, amount);
+            await auction.connect(bidder)["bid(uint256)"](amount);
+
+            const unit = await paymentUnit(auction);
+            const status = (await run(owner, ["status", "--address", address])) as StatusResult;
+
+            expect(unit).to.deep.equal({ symbol: "MTK", decimals: BigInt(6) });
+            expect(formatResult(status, unit).split("\n")).to.include(`  highestBid: 2.5 MTK (${amount})`);
+            expect(
+                formatEvent(
+                    { name: "NewBid", args: { bidder: bidder.address, amount }, blockNumber: 1, transactionHash: "0x" },
+                    unit
+                )
+            ).to.equal(`[block 1] NewBid bidder=${bidder.address} amount=2.5 MTK (${amount})`);
+        });
+    });
+
+    describe("revert explanations", function () {
+        it("should name the modifier that stops a bid", async function () {
+            const { auction, address, owner, bidder2 } = await loadFixture(deployAuctionFixture);
+            await auction.connect(owner).setPaused(true);
+
+            await expectRevert(
+                run(bidder2, ["bid", "--address", address, "--amount", "2"]),
+                "bid() would revert in modifier whenNotPaused: AuctionIsPaused()",
+                "whenNotPaused"
+            );
+            expect(await auction.highestBidder()).not.to.equal(bidder2.address);
+        });
+
+        it("should name the modifier that stops an owner-only call", async function () {
+            const { auction, address, bidder2 } = await loadFixture(deployAuctionFixture);
+            await time.increaseTo(await auction.auctionEndTime());
+            await auction.endAuction();
+
+            await expectRevert(
+                run(bidder2, ["withdraw", "--address", address]),
+                `withdraw would revert in modifier onlyOwner: NotOwner(caller: ${bidder2.address})`,
+                "onlyOwner"
+            );
+            await expectRevert(
+                run(bidder2, ["pause", "--address", address]),
+                "setPaused would revert in modifier onlyOwnerOrOperator: " +
+                    `NotOwnerOrOperator(caller: ${bidder2.address})`,
+                "onlyOwnerOrOperator"
+            );
+        });
+
+        it("should tell a failing modifier from a check in the function body", async function () {
+            const { auction, address, owner } = await loadFixture(deployAuctionFixture);
+            const endTime = await auction.auctionEndTime();
+
+            await expectRevert(
+                run(owner, ["withdraw", "--address", address]),
+                `withdraw would revert in modifier onlyAfterEnd: AuctionStillRunning(endTime: ${endTime})`,
+                "onlyAfterEnd"
+            );
+
+            // Past the end time but before endAuction(), the body's check fails
+            await time.increaseTo(endTime);
+            await expectRevert(
+                run(owner, ["withdraw", "--address", address]),
+                "withdraw would revert: AuctionNotEnded()"
+            );
+        });
+
+        it("should report custom errors by name", async function () {
+            const [owner, bidder] = await hre.ethers.getSigners();
+            const auction = await (await hre.ethers.getContractFactory("Auction"))
+                .connect(owner)
+                .deploy(auctionConfig({ startingPrice: bid2 }));
+
+            await expectRevert(
+                run(bidder, ["bid", "--address", await auction.getAddress(), "--amount", "1"]),
+                `bid() would revert: BidBelowStartingPrice(amount: ${bid1}, startingPrice: ${bid2})`
+            );
+        });
+    });
+
+    describe("watchAuction", function () {
+        it("should report new events until stopped", async function () {
+            const { auction, bidder2 } = await loadFixture(deployAuctionFixture);
+            const fromBlock = (await hre.ethers.provider.getBlockNumber()) + 1;
+            await auction.connect(bidder2)["bid()"]({ value: bid2 });
+
+            const events = await new Promise<WatchedEvent[]>((resolve, reject) => {
+                const seen: WatchedEvent[] = [];
+                const stop = watchAuction(auction, hre.ethers.provider, {
+                    fromBlock,
+                    interval: 10,
+                    onEvent: (event) => {
+                        seen.push(event);
+                        if (event.name === "NewBid") {
+                            stop();
+                            resolve(seen);
+                        }
+                    },
+                    onError: reject,
+                });
+            });
+
+            expect(events.map((event) => event.name)).to.deep.equal(["Refund", "NewBid"]);
+            expect(events[1].args).to.deep.include({ bidder: bidder2.address, amount: bid2 });
+        });
+    });
+});
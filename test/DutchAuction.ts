@@ -0,0 +1,255 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import type { DutchAuction } from "../typechain-types";
+
+describe("DutchAuction", function () {
+    const duration = 7200;
+    const decayDuration = 3600;
+    const startPrice = hre.ethers.parseEther("10");
+    const floorPrice = hre.ethers.parseEther("2");
+
+    function dutchAuctionConfig(overrides: Partial<DutchAuction.DutchAuctionConfigStruct> = {}) {
+        return {
+            startPrice,
+            floorPrice,
+            duration,
+            decayDuration,
+            stepDuration: 0,
+            ...overrides,
+        };
+    }
+
+    async function deploy(overrides: Partial<DutchAuction.DutchAuctionConfigStruct> = {}) {
+        const [owner, buyer, other] = await hre.ethers.getSigners();
+        const DutchAuction = await hre.ethers.getContractFactory("DutchAuction");
+        const auction = await DutchAuction.deploy(dutchAuctionConfig(overrides));
+        const startTime = await auction.startTime();
+
+        return { auction, owner, buyer, other, startTime };
+    }
+
+    async function deployLinearFixture() {
+        return deploy();
+    }
+
+    // Six steps of 1 ETH, ten minutes apart
+    async function deployStepwiseFixture() {
+        return deploy({ floorPrice: hre.ethers.parseEther("4"), stepDuration: 600 });
+    }
+
+    async function priceAt(auction: DutchAuction, timestamp: bigint) {
+        await time.increaseTo(timestamp);
+        return auction.currentPrice();
+    }
+
+    describe("deployment", function () {
+        it("should set the schedule, end time and owner", async function () {
+            const { auction, owner, startTime } = await loadFixture(deployLinearFixture);
+
+            expect(await auction.owner()).to.equal(owner.address);
+            expect(await auction.auctionEndTime()).to.equal(startTime + BigInt(duration));
+            expect(await auction.startPrice()).to.equal(startPrice);
+            expect(await auction.floorPrice()).to.equal(floorPrice);
+            expect(await auction.decayDuration()).to.equal(decayDuration);
+        });
+
+        it("should reject a floor above the start price", async function () {
+            const DutchAuction = await hre.ethers.getContractFactory("DutchAuction");
+
+            await expect(DutchAuction.deploy(dutchAuctionConfig({ floorPrice: startPrice + BigInt(1) })))
+                .to.be.revertedWithCustomError(DutchAuction, "FloorAboveStartPrice")
+                .withArgs(startPrice + BigInt(1), startPrice);
+        });
+
+        it("should reject a zero duration and a decay longer than the auction", async function () {
+            const DutchAuction = await hre.ethers.getContractFactory("DutchAuction");
+
+            await expect(DutchAuction.deploy(dutchAuctionConfig({ duration: 0 }))).to.be.revertedWith(
+                "Duration must be greater than zero"
+            );
+            await expect(
+                DutchAuction.deploy(dutchAuctionConfig({ decayDuration: duration + 1 }))
+            ).to.be.revertedWith("Decay duration must be between zero and the duration");
+            await expect(DutchAuction.deploy(dutchAuctionConfig({ decayDuration: 0 }))).to.be.revertedWith(
+                "Decay duration must be between zero and the duration"
+            );
+        });
+    });
+
+    describe("currentPrice", function () {
+        it("should start at the start price", async function () {
+            const { auction } = await loadFixture(deployLinearFixture);
+
+            expect(await auction.currentPrice()).to.equal(startPrice);
+        });
+
+        it("should fall linearly to the floor", async function () {
+            const { auction, startTime } = await loadFixture(deployLinearFixture);
+
+            expect(await priceAt(auction, startTime + BigInt(900))).to.equal(hre.ethers.parseEther("8"));
+            expect(await priceAt(auction, startTime + BigInt(1800))).to.equal(hre.ethers.parseEther("6"));
+            expect(await priceAt(auction, startTime + BigInt(2700))).to.equal(hre.ethers.parseEther("4"));
+            expect(await priceAt(auction, startTime + BigInt(decayDuration))).to.equal(floorPrice);
+        });
+
+        it("should hold the floor until the auction ends", async function () {
+            const { auction, startTime } = await loadFixture(deployLinearFixture);
+
+            expect(await priceAt(auction, startTime + BigInt(duration - 1))).to.equal(floorPrice);
+        });
+
+        it("should drop in steps on a stepwise schedule", async function () {
+            const { auction, startTime } = await loadFixture(deployStepwiseFixture);
+
+            expect(await priceAt(auction, startTime + BigInt(599))).to.equal(startPrice);
+            expect(await priceAt(auction, startTime + BigInt(600))).to.equal(hre.ethers.parseEther("9"));
+            expect(await priceAt(auction, startTime + BigInt(1799))).to.equal(hre.ethers.parseEther("8"));
+            expect(await priceAt(auction, startTime + BigInt(3000))).to.equal(hre.ethers.parseEther("5"));
+            expect(await priceAt(auction, startTime + BigInt(3600))).to.equal(hre.ethers.parseEther("4"));
+        });
+    });
+
+    describe("buy", function () {
+        it("should sell early at the current price and end the auction", async function () {
+            const { auction, buyer, startTime } = await loadFixture(deployLinearFixture);
+            const purchaseTime = startTime + BigInt(900);
+            const price = hre.ethers.parseEther("8");
+            await time.setNextBlockTimestamp(purchaseTime);
+
+            await expect(auction.connect(buyer).buy({ value: price }))
+                .to.emit(auction, "Purchase")
+                .withArgs(buyer.address, price, 0)
+                .and.to.emit(auction, "AuctionEnded")
+                .withArgs(buyer.address, price);
+
+            expect(await auction.highestBidder()).to.equal(buyer.address);
+            expect(await auction.highestBid()).to.equal(price);
+            expect(await auction.auctionEnded()).to.equal(true);
+            expect(await auction.auctionEndTime()).to.equal(purchaseTime);
+        });
+
+        it("should refund any overpayment", async function () {
+            const { auction, buyer, startTime } = await loadFixture(deployLinearFixture);
+            const price = hre.ethers.parseEther("6");
+            await time.setNextBlockTimestamp(startTime + BigInt(1800));
+
+            await expect(auction.connect(buyer).buy({ value: startPrice })).to.changeEtherBalances(
+                [buyer, auction],
+                [-price, price]
+            );
+        });
+
+        it("should sell at the floor", async function () {
+            const { auction, buyer, startTime } = await loadFixture(deployLinearFixture);
+            await time.setNextBlockTimestamp(startTime + BigInt(decayDuration + 600));
+
+            await expect(auction.connect(buyer).buy({ value: floorPrice }))
+                .to.emit(auction, "Purchase")
+                .withArgs(buyer.address, floorPrice, 0);
+        });
+
+        it("should reject a payment below the current price", async function () {
+            const { auction, buyer, startTime } = await loadFixture(deployLinearFixture);
+            const price = hre.ethers.parseEther("8");
+            await time.setNextBlockTimestamp(startTime + BigInt(900));
+
+            await expect(auction.connect(buyer).buy({ value: price - BigInt(1) }))
+                .to.be.revertedWithCustomError(auction, "PaymentBelowPrice")
+                .withArgs(price - BigInt(1), price);
+        });
+
+        it("should not sell twice", async function () {
+            const { auction, buyer, other } = await loadFixture(deployLinearFixture);
+            await auction.connect(buyer).buy({ value: startPrice });
+
+            await expect(auction.connect(other).buy({ value: startPrice })).to.be.revertedWith(
+                "Auction has ended"
+            );
+        });
+
+        it("should not sell while paused", async function () {
+            const { auction, owner, buyer } = await loadFixture(deployLinearFixture);
+            await auction.connect(owner).setPaused(true);
+
+            await expect(auction.connect(buyer).buy({ value: startPrice })).to.be.revertedWith(
+                "Auction is paused"
+            );
+        });
+    });
+
+    describe("expiry", function () {
+        it("should not sell after the end time", async function () {
+            const { auction, buyer } = await loadFixture(deployLinearFixture);
+            await time.increaseTo(await auction.auctionEndTime());
+
+            await expect(auction.connect(buyer).buy({ value: startPrice })).to.be.revertedWith(
+                "Auction has ended"
+            );
+        });
+
+        it("should end with no buyer once the end time has passed", async function () {
+            const { auction } = await loadFixture(deployLinearFixture);
+            await expect(auction.endAuction()).to.be.revertedWith("Auction has not ended");
+
+            await time.increaseTo(await auction.auctionEndTime());
+            await expect(auction.endAuction())
+                .to.emit(auction, "AuctionEnded")
+                .withArgs(hre.ethers.ZeroAddress, 0);
+            expect(await auction.highestBidder()).to.equal(hre.ethers.ZeroAddress);
+            await expect(auction.endAuction()).to.be.revertedWith("Auction already ended");
+        });
+    });
+
+    describe("withdraw", function () {
+        it("should pay the sale price to the owner", async function () {
+            const { auction, owner, buyer, startTime } = await loadFixture(deployLinearFixture);
+            const price = hre.ethers.parseEther("8");
+            await time.setNextBlockTimestamp(startTime + BigInt(900));
+            await auction.connect(buyer).buy({ value: startPrice });
+
+            await expect(auction.connect(buyer).withdraw()).to.be.revertedWith(
+                "Only owner can call this function"
+            );
+            await expect(auction.connect(owner).withdraw()).to.changeEtherBalances(
+                [owner, auction],
+                [price, -price]
+            );
+        });
+
+        it("should not withdraw before the auction has ended", async function () {
+            const { auction, owner } = await loadFixture(deployLinearFixture);
+
+            await expect(auction.connect(owner).withdraw()).to.be.revertedWith("Auction has not ended");
+        });
+    });
+
+    describe("getAuctionStatus", function () {
+        it("should report the same fields as Auction with no bonus", async function () {
+            const { auction, owner, startTime } = await loadFixture(deployLinearFixture);
+            await auction.connect(owner).setPaused(true);
+
+            const [endTime, timeRemaining, isEnded, isPaused, bonusRateBps, remainingBonusReserve] =
+                await auction.getAuctionStatus();
+            expect(endTime).to.equal(startTime + BigInt(duration));
+            expect(timeRemaining).to.equal(endTime - BigInt(await time.latest()));
+            expect(isEnded).to.equal(false);
+            expect(isPaused).to.equal(true);
+            expect(bonusRateBps).to.equal(0);
+            expect(remainingBonusReserve).to.equal(0);
+        });
+
+        it("should be readable by the auction:status task", async function () {
+            const { auction, owner, buyer } = await loadFixture(deployLinearFixture);
+            await auction.connect(buyer).buy({ value: startPrice });
+
+            const status = await hre.run("auction:status", { address: await auction.getAddress() });
+
+            expect(status.owner).to.equal(owner.address);
+            expect(status.isEnded).to.equal(true);
+            expect(status.timeRemaining).to.equal(0);
+            expect(status.highestBidder).to.equal(buyer.address);
+            expect(status.highestBid).to.equal(await auction.highestBid());
+        });
+    });
+});
@@ -0,0 +1,108 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { auctionConfig } from "../scripts/lib/auctionFactory";
+import { ContractRevertError, decodeRevert, decodeRevertData, isRevert } from "../scripts/lib/errors";
+
+describe("Revert decoder", function () {
+    const bid1 = hre.ethers.parseEther("1");
+
+    async function deployAuctionFixture() {
+        const [owner, bidder1, bidder2] = await hre.ethers.getSigners();
+        const auction = await (await hre.ethers.getContractFactory("Auction"))
+            .connect(owner)
+            .deploy(auctionConfig());
+        await auction.connect(bidder1)["bid()"]({ value: bid1 });
+
+        return { auction, owner, bidder1, bidder2 };
+    }
+
+    async function failure(promise: Promise<unknown>): Promise<unknown> {
+        return promise.then(
+            () => expect.fail("expected the call to revert"),
+            (error) => error
+        );
+    }
+
+    it("should decode a custom error with its named arguments", async function () {
+        const { auction, bidder2 } = await loadFixture(deployAuctionFixture);
+
+        const revert = decodeRevert(await failure(auction.connect(bidder2)["bid()"]({ value: bid1 })));
+
+        expect(revert).to.be.instanceOf(ContractRevertError);
+        expect(revert!.kind).to.equal("custom");
+        expect(revert!.errorName).to.equal("BidNotHigher");
+        expect(revert!.signature).to.equal("BidNotHigher(uint256,uint256)");
+        expect(revert!.args).to.deep.equal({ amount: bid1, highestBid: bid1 });
+        expect(revert!.message).to.equal(`BidNotHigher(amount: ${bid1}, highestBid: ${bid1})`);
+    });
+
+    it("should decode reverts from a transaction and from a static call alike", async function () {
+        const { auction, bidder2 } = await loadFixture(deployAuctionFixture);
+
+        const sent = decodeRevert(await failure(auction.connect(bidder2).setPaused(true)));
+        const simulated = decodeRevert(await failure(auction.connect(bidder2).setPaused.staticCall(true)));
+
+        expect(sent?.errorName).to.equal("NotOwnerOrOperator");
+        expect(simulated?.args).to.deep.equal(sent?.args);
+        expect(isRevert(await failure(auction.connect(bidder2).withdraw()), "AuctionStillRunning")).to.equal(true);
+    });
+
+    it("should decode require reasons from the other auction contracts", async function () {
+        const DutchAuction = await hre.ethers.getContractFactory("DutchAuction");
+        const deployment = DutchAuction.getDeployTransaction({
+            startPrice: 1,
+            floorPrice: 0,
+            duration: 0,
+            decayDuration: 0,
+            stepDuration: 0,
+        });
+
+        const revert = decodeRevert(await failure(hre.ethers.provider.call(await deployment)));
+
+        expect(revert?.kind).to.equal("reason");
+        expect(revert?.errorName).to.equal("Error");
+        expect(revert?.message).to.equal("Duration must be greater than zero");
+    });
+
+    it("should decode the custom errors MultiUnitAuction shares with Auction", async function () {
+        const [, bidder] = await hre.ethers.getSigners();
+        const auction = await (await hre.ethers.getContractFactory("MultiUnitAuction")).deploy({
+            duration: 3600,
+            quantity: 1,
+            reservePrice: 0,
+            clearingRule: 0,
+        });
+
+        const revert = decodeRevert(await failure(auction.connect(bidder).setPaused(true)));
+
+        expect(revert?.kind).to.equal("custom");
+        expect(revert?.message).to.equal(`NotOwner(caller: ${bidder.address})`);
+    });
+
+    it("should decode raw revert data, panics and unknown selectors", function () {
+        const panic = hre.ethers.concat([
+            hre.ethers.id("Panic(uint256)").slice(0, 10),
+            hre.ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [0x11]),
+        ]);
+
+        expect(decodeRevertData(panic).kind).to.equal("panic");
+        expect(decodeRevertData(panic).message).to.equal("Panic 0x11: arithmetic overflow or underflow");
+        expect(decodeRevert("0xdeadbeef")?.message).to.equal("Unknown error 0xdeadbeef");
+    });
+
+    it("should find revert data however the provider nests it", function () {
+        const data = hre.ethers.id("AuctionIsPaused()").slice(0, 10);
+
+        expect(decodeRevert({ data })?.errorName).to.equal("AuctionIsPaused");
+        expect(decodeRevert({ error: { data: { message: "reverted", data } } })?.errorName).to.equal(
+            "AuctionIsPaused"
+        );
+        expect(decodeRevert({ info: { error: { data } } })?.errorName).to.equal("AuctionIsPaused");
+    });
+
+    it("should return undefined for failures without revert data", function () {
+        expect(decodeRevert(new Error("connection refused"))).to.equal(undefined);
+        expect(decodeRevert({ data: "0x" })).to.equal(undefined);
+    });
+});
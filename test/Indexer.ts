@@ -0,0 +1,291 @@
+import { loadFixture, mine, takeSnapshot, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import hre from "hardhat";
+import { auctionConfig, createAuction } from "../scripts/lib/auctionFactory";
+import {
+    emptyIndex,
+    followIndex,
+    getAuctionOutcome,
+    getBidHistory,
+    getBidsByBidder,
+    getIndexedAuction,
+    loadIndex,
+    saveIndex,
+    syncIndex,
+    trackAuction,
+    trackFactory,
+} from "../scripts/lib/indexer";
+import type { IndexState } from "../scripts/lib/indexer";
+import type { Auction } from "../typechain-types";
+
+describe("Indexer", function () {
+    const duration = 3600;
+    const bonusReserve = hre.ethers.parseEther("1");
+    const bid1 = hre.ethers.parseEther("1");
+    const bid2 = hre.ethers.parseEther("2");
+    const bid3 = hre.ethers.parseEther("3");
+
+    async function deployFactoryFixture() {
+        const [owner, bidder1, bidder2] = await hre.ethers.getSigners();
+        const implementation = await (await hre.ethers.getContractFactory("Auction")).deploy(
+            auctionConfig({ duration: 1 })
+        );
+        const factory = await (await hre.ethers.getContractFactory("AuctionFactory")).deploy(implementation.target);
+        const fromBlock = await hre.ethers.provider.getBlockNumber();
+
+        const { auction: first } = await createAuction(
+            factory.connect(owner),
+            auctionConfig({ duration, extensionWindow: 600, extensionDuration: 300 })
+        );
+        const { auction: second } = await createAuction(factory.connect(owner), auctionConfig({ duration }));
+        await first["fundBonusReserve()"]({ value: bonusReserve });
+
+        return { factory, first, second, owner, bidder1, bidder2, fromBlock };
+    }
+
+    async function deployWithHistoryFixture() {
+        const fixture = await deployFactoryFixture();
+        const { first, second, owner, bidder1, bidder2 } = fixture;
+
+        await first.connect(bidder1)["bid()"]({ value: bid1 });
+        await first.connect(bidder2)["bid()"]({ value: bid2 });
+        await second.connect(bidder2)["bid()"]({ value: bid1 });
+        await second.connect(owner).setPaused(true);
+        // A late bid extends the first auction
+        await time.increaseTo((await first.auctionEndTime()) - BigInt(60));
+        await first.connect(bidder1)["bid()"]({ value: bid3 });
+        await time.increaseTo(await first.auctionEndTime());
+        await first.endAuction();
+        await first.connect(owner).withdraw();
+
+        return fixture;
+    }
+
+    async function expectMatchesContract(state: IndexState, auction: Auction) {
+        const indexed = getIndexedAuction(state, await auction.getAddress());
+        expect(indexed, "auction is indexed").not.to.equal(undefined);
+
+        expect(indexed!.owner).to.equal(await auction.owner());
+        expect(indexed!.highestBidder).to.equal(await auction.highestBidder());
+        expect(indexed!.highestBid).to.equal(await auction.highestBid());
+        expect(indexed!.endTime).to.equal(await auction.auctionEndTime());
+        expect(indexed!.ended).to.equal(await auction.auctionEnded());
+        expect(indexed!.paused).to.equal(await auction.paused());
+
+        const bids = await auction.getBids(0, await auction.bidCount());
+        expect(indexed!.bids.map((bid) => [bid.bidder, bid.amount, BigInt(bid.timestamp)])).to.deep.equal(
+            bids.map((bid) => [bid.bidder, bid.amount, bid.timestamp])
+        );
+    }
+
+    describe("syncIndex", function () {
+        it("should rebuild the state of every auction the factory created", async function () {
+            const { factory, first, second, fromBlock } = await loadFixture(deployWithHistoryFixture);
+            const state = emptyIndex();
+            trackFactory(state, await factory.getAddress(), fromBlock);
+
+            await syncIndex(state, hre.ethers.provider);
+
+            expect(state.auctions.map((auction) => auction.address)).to.deep.equal([
+                await first.getAddress(),
+                await second.getAddress(),
+            ]);
+            await expectMatchesContract(state, first);
+            await expectMatchesContract(state, second);
+        });
+
+        it("should record refunds and withdrawals", async function () {
+            const { first, owner, bidder1, bidder2, fromBlock } = await loadFixture(deployWithHistoryFixture);
+            const state = emptyIndex();
+            trackAuction(state, await first.getAddress(), fromBlock);
+
+            await syncIndex(state, hre.ethers.provider);
+
+            const indexed = getIndexedAuction(state, await first.getAddress())!;
+            expect(indexed.refunds.map((refund) => [refund.bidder, refund.amount, refund.bonus])).to.deep.equal([
+                [bidder1.address, bid1 + bid2 / BigInt(10), bid2 / BigInt(10)],
+                [bidder2.address, bid2 + bid3 / BigInt(10), bid3 / BigInt(10)],
+            ]);
+            expect(indexed.withdrawals.map((withdrawal) => withdrawal.recipient)).to.deep.equal([owner.address]);
+        });
+
+        it("should pick up new events without duplicating old ones", async function () {
+            const { first, second, bidder1, fromBlock } = await loadFixture(deployFactoryFixture);
+            const state = emptyIndex();
+            trackAuction(state, await first.getAddress(), fromBlock);
+            trackAuction(state, await second.getAddress(), fromBlock);
+            await syncIndex(state, hre.ethers.provider);
+
+            await first.connect(bidder1)["bid()"]({ value: bid1 });
+            expect(await syncIndex(state, hre.ethers.provider)).to.equal(1);
+            expect(await syncIndex(state, hre.ethers.provider)).to.equal(0);
+
+            expect(getBidHistory(state, await first.getAddress())).to.have.lengthOf(1);
+            await expectMatchesContract(state, first);
+        });
+
+        it("should wait for the confirmation depth before indexing a log", async function () {
+            const { first, bidder1, fromBlock } = await loadFixture(deployFactoryFixture);
+            const state = emptyIndex();
+            trackAuction(state, await first.getAddress(), fromBlock);
+            await first.connect(bidder1)["bid()"]({ value: bid1 });
+
+            await syncIndex(state, hre.ethers.provider, { confirmations: 2 });
+            expect(getBidHistory(state, await first.getAddress())).to.deep.equal([]);
+
+            await mine(2);
+            await syncIndex(state, hre.ethers.provider, { confirmations: 2 });
+            expect(getBidHistory(state, await first.getAddress())).to.have.lengthOf(1);
+        });
+
+        it("should re-index an auction whose last block was reorganised away", async function () {
+            const { first, bidder1, bidder2, fromBlock } = await loadFixture(deployFactoryFixture);
+            const state = emptyIndex();
+            trackAuction(state, await first.getAddress(), fromBlock);
+            await first.connect(bidder1)["bid()"]({ value: bid1 });
+            const beforeFork = await takeSnapshot();
+            await first.connect(bidder2)["bid()"]({ value: bid2 });
+            await syncIndex(state, hre.ethers.provider);
+
+            // Replace the block holding bidder2's bid with a different one
+            await beforeFork.restore();
+            await first.connect(bidder1)["bid()"]({ value: bid3 });
+            await syncIndex(state, hre.ethers.provider);
+
+            expect(getBidHistory(state, await first.getAddress()).map((bid) => bid.amount)).to.deep.equal([
+                bid1,
+                bid3,
+            ]);
+            await expectMatchesContract(state, first);
+        });
+
+        it("should drop a factory's auctions that were reorganised away", async function () {
+            const { factory, first, second, owner, bidder1, fromBlock } = await loadFixture(deployFactoryFixture);
+            const state = emptyIndex();
+            trackFactory(state, await factory.getAddress(), fromBlock);
+            const beforeFork = await takeSnapshot();
+            const { auction: third } = await createAuction(factory.connect(owner), auctionConfig({ duration }));
+            await syncIndex(state, hre.ethers.provider);
+            expect(getIndexedAuction(state, await third.getAddress())).not.to.equal(undefined);
+
+            // Replace the block that created the third auction with a bid
+            await beforeFork.restore();
+            await first.connect(bidder1)["bid()"]({ value: bid1 });
+            await syncIndex(state, hre.ethers.provider);
+
+            expect(state.auctions.map((auction) => auction.address)).to.deep.equal([
+                await first.getAddress(),
+                await second.getAddress(),
+            ]);
+            await expectMatchesContract(state, first);
+            await expectMatchesContract(state, second);
+        });
+    });
+
+    describe("queries", function () {
+        it("should report the final outcome of an ended auction", async function () {
+            const { first, second, bidder1, fromBlock } = await loadFixture(deployWithHistoryFixture);
+            const state = emptyIndex();
+            trackAuction(state, await first.getAddress(), fromBlock);
+            trackAuction(state, await second.getAddress(), fromBlock);
+            await syncIndex(state, hre.ethers.provider);
+
+            expect(getAuctionOutcome(state, await first.getAddress())).to.deep.equal({
+                voided: false,
+                winner: bidder1.address,
+                winningBid: bid3,
+                bidCount: 3,
+                totalWithdrawn: bid3 + bonusReserve - bid2 / BigInt(10) - bid3 / BigInt(10),
+            });
+            expect(getAuctionOutcome(state, await second.getAddress())).to.equal(undefined);
+        });
+
+        it("should report a cancelled auction as voided", async function () {
+            const { second, owner, bidder2, fromBlock } = await loadFixture(deployFactoryFixture);
+            await second.connect(bidder2)["bid()"]({ value: bid1 });
+            await second.connect(owner).cancelAuction();
+            const state = emptyIndex();
+            trackAuction(state, await second.getAddress(), fromBlock);
+            await syncIndex(state, hre.ethers.provider);
+
+            const outcome = getAuctionOutcome(state, await second.getAddress());
+            expect(outcome?.voided).to.equal(true);
+            expect(outcome?.winner).to.equal(hre.ethers.ZeroAddress);
+            await expectMatchesContract(state, second);
+        });
+
+        it("should report no winner when the reserve is not met", async function () {
+            const [owner, bidder] = await hre.ethers.getSigners();
+            const fromBlock = await hre.ethers.provider.getBlockNumber();
+            const auction = await (await hre.ethers.getContractFactory("Auction"))
+                .connect(owner)
+                .deploy(auctionConfig({ duration, reservePrice: bid2 }));
+            await auction.connect(bidder)["bid()"]({ value: bid1 });
+            await time.increaseTo(await auction.auctionEndTime());
+            await auction.endAuction();
+
+            const state = emptyIndex();
+            trackAuction(state, await auction.getAddress(), fromBlock);
+            await syncIndex(state, hre.ethers.provider);
+
+            expect(getAuctionOutcome(state, await auction.getAddress())?.winner).to.equal(hre.ethers.ZeroAddress);
+            await expectMatchesContract(state, auction);
+        });
+
+        it("should list a bidder's bids across auctions", async function () {
+            const { factory, first, second, bidder2, fromBlock } = await loadFixture(deployWithHistoryFixture);
+            const state = emptyIndex();
+            trackFactory(state, await factory.getAddress(), fromBlock);
+            await syncIndex(state, hre.ethers.provider);
+
+            const bids = getBidsByBidder(state, bidder2.address);
+            expect(bids.map((bid) => [bid.auction, bid.amount])).to.deep.equal([
+                [await first.getAddress(), bid2],
+                [await second.getAddress(), bid1],
+            ]);
+        });
+    });
+
+    describe("store", function () {
+        it("should save and load the index as JSON", async function () {
+            const { factory, fromBlock } = await loadFixture(deployWithHistoryFixture);
+            const state = emptyIndex();
+            trackFactory(state, await factory.getAddress(), fromBlock);
+            await syncIndex(state, hre.ethers.provider);
+            const path = join(mkdtempSync(join(tmpdir(), "auction-index-")), "index.json");
+
+            saveIndex(path, state);
+
+            expect(loadIndex(path)).to.deep.equal(state);
+        });
+
+        it("should start from an empty index when the store does not exist", function () {
+            expect(loadIndex(join(tmpdir(), "missing-auction-index.json"))).to.deep.equal(emptyIndex());
+        });
+    });
+
+    describe("followIndex", function () {
+        it("should keep syncing until stopped", async function () {
+            const { first, bidder1, fromBlock } = await loadFixture(deployFactoryFixture);
+            const state = emptyIndex();
+            trackAuction(state, await first.getAddress(), fromBlock);
+            await first.connect(bidder1)["bid()"]({ value: bid1 });
+
+            await new Promise<void>((resolve, reject) => {
+                const stop = followIndex(state, hre.ethers.provider, {
+                    interval: 10,
+                    onSync: () => {
+                        stop();
+                        resolve();
+                    },
+                    onError: reject,
+                });
+            });
+
+            expect(getBidHistory(state, await first.getAddress())).to.have.lengthOf(1);
+        });
+    });
+});
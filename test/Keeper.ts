@@ -0,0 +1,128 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { auctionConfig } from "../scripts/lib/auctionFactory";
+import type { AuctionConfig } from "../scripts/lib/auctionFactory";
+import { findDueAuctions, settleDueAuctions } from "../scripts/lib/keeper";
+import { Auction__factory } from "../typechain-types";
+
+describe("Keeper", function () {
+    const bid = hre.ethers.parseEther("1");
+    const keeperRewardBps = 100;
+    const maxKeeperReward = hre.ethers.parseEther("1");
+    const reward = (bid * BigInt(keeperRewardBps)) / BigInt(10_000);
+
+    async function deployAuctionsFixture() {
+        const [owner, bidder, keeper] = await hre.ethers.getSigners();
+        const Auction = await hre.ethers.getContractFactory("Auction");
+
+        async function deploy(overrides: Partial<AuctionConfig>) {
+            const auction = await Auction.deploy(auctionConfig({ keeperRewardBps, maxKeeperReward, ...overrides }));
+            await auction.connect(bidder)["bid()"]({ value: bid });
+            return Auction__factory.connect(await auction.getAddress(), keeper);
+        }
+
+        const due = await deploy({ duration: 60 });
+        const running = await deploy({ duration: 3600 });
+        const paused = await deploy({ duration: 60 });
+        await paused.connect(owner).setPaused(true);
+        const alreadySettled = await deploy({ duration: 60 });
+        await time.increase(60);
+        await alreadySettled.settle();
+
+        return { due, running, paused, alreadySettled, owner, keeper };
+    }
+
+    it("should only find auctions that are due", async function () {
+        const { due, running, paused, alreadySettled } = await loadFixture(deployAuctionsFixture);
+
+        const found = await findDueAuctions([due, running, paused, alreadySettled]);
+
+        expect(found).to.deep.equal([due]);
+    });
+
+    it("should settle due auctions and report the reward", async function () {
+        const { due, running, paused, alreadySettled, keeper } = await loadFixture(deployAuctionsFixture);
+        const balanceBefore = await hre.ethers.provider.getBalance(keeper.address);
+
+        const results = await settleDueAuctions([due, running, paused, alreadySettled]);
+
+        expect(results).to.have.lengthOf(1);
+        expect(results[0].address).to.equal(await due.getAddress());
+        expect(results[0].keeperReward).to.equal(reward);
+        expect(results[0].unit).to.deep.equal({ symbol: "ETH", decimals: BigInt(18) });
+        expect(results[0].error).to.equal(undefined);
+        expect(await due.settled()).to.equal(true);
+        expect(await running.settled()).to.equal(false);
+        expect(await paused.settled()).to.equal(false);
+
+        const receipt = await hre.ethers.provider.getTransactionReceipt(results[0].transactionHash!);
+        const gasCost = receipt!.gasUsed * receipt!.gasPrice;
+        expect(await hre.ethers.provider.getBalance(keeper.address)).to.equal(balanceBefore + reward - gasCost);
+    });
+
+    it("should pick up auctions as they become due", async function () {
+        const { due, running, paused, owner } = await loadFixture(deployAuctionsFixture);
+        await settleDueAuctions([due, running, paused]);
+
+        await time.increaseTo(await running.auctionEndTime());
+        await paused.connect(owner).setPaused(false);
+
+        const results = await settleDueAuctions([due, running, paused]);
+        expect(results.map((result) => result.address)).to.deep.equal([
+            await running.getAddress(),
+            await paused.getAddress(),
+        ]);
+    });
+
+    it("should skip auctions paying less than the minimum reward", async function () {
+        const { due } = await loadFixture(deployAuctionsFixture);
+
+        const minReward = hre.ethers.formatEther(reward + BigInt(1));
+
+        expect(await settleDueAuctions([due], { minReward })).to.deep.equal([]);
+        expect(await due.settled()).to.equal(false);
+    });
+
+    it("should read the minimum reward in the payment token's decimals", async function () {
+        const { keeper } = await loadFixture(deployAuctionsFixture);
+        const [, bidder] = await hre.ethers.getSigners();
+        const token = await (await hre.ethers.getContractFactory("MockERC20")).deploy();
+        await token.setDecimals(6);
+        const deployed = await (await hre.ethers.getContractFactory("Auction")).deploy(
+            auctionConfig({ duration: 60, keeperRewardBps, maxKeeperReward, paymentToken: token.target })
+        );
+        const tokenBid = BigInt(2_500_000);
+        await token.mint(bidder.address, tokenBid);
+        await token.connect(bidder).approve(deployed.target, tokenBid);
+        await deployed.connect(bidder)["bid(uint256)"](tokenBid);
+        await time.increase(60);
+        const auction = Auction__factory.connect(await deployed.getAddress(), keeper);
+
+        // The reward is 1% of 2.5 tokens
+        expect(await settleDueAuctions([auction], { minReward: "0.026" })).to.deep.equal([]);
+        const results = await settleDueAuctions([auction], { minReward: "0.025" });
+
+        expect(results).to.have.lengthOf(1);
+        expect(results[0].keeperReward).to.equal(BigInt(25_000));
+        expect(results[0].unit).to.deep.equal({ symbol: "MTK", decimals: BigInt(6) });
+        expect(await token.balanceOf(keeper.address)).to.equal(BigInt(25_000));
+    });
+
+    it("should report a failed settlement and carry on", async function () {
+        const { due, keeper } = await loadFixture(deployAuctionsFixture);
+        const Auction = await hre.ethers.getContractFactory("Auction");
+        // A beneficiary that rejects ETH makes the payout, and so settle(), revert
+        const rejector = await (await hre.ethers.getContractFactory("MaliciousBidder")).deploy(due.target);
+        const failing = await Auction.deploy(auctionConfig({ duration: 60, beneficiary: rejector.target }));
+        await failing["bid()"]({ value: bid });
+        await time.increase(60);
+
+        const results = await settleDueAuctions([Auction__factory.connect(await failing.getAddress(), keeper), due]);
+
+        expect(results).to.have.lengthOf(2);
+        expect(results[0].error).to.contain(`TransferFailed(recipient: ${rejector.target}`);
+        expect(results[1].error).to.equal(undefined);
+        expect(await due.settled()).to.equal(true);
+    });
+});
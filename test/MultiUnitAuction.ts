@@ -0,0 +1,325 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import type { MultiUnitAuction } from "../typechain-types";
+import { ClearingRule } from "../scripts/lib/multiUnit";
+
+describe("MultiUnitAuction", function () {
+    const duration = 3600;
+    const quantity = 10;
+    const e = (eth: string) => hre.ethers.parseEther(eth);
+
+    function multiUnitConfig(overrides: Partial<MultiUnitAuction.MultiUnitConfigStruct> = {}) {
+        return {
+            duration,
+            quantity,
+            reservePrice: e("0.5"),
+            clearingRule: ClearingRule.LowestWinning,
+            ...overrides,
+        };
+    }
+
+    async function deploy(overrides: Partial<MultiUnitAuction.MultiUnitConfigStruct> = {}) {
+        const [owner, bidder1, bidder2, bidder3, bidder4] = await hre.ethers.getSigners();
+        const MultiUnitAuction = await hre.ethers.getContractFactory("MultiUnitAuction");
+        const auction = await MultiUnitAuction.deploy(multiUnitConfig(overrides));
+
+        return { auction, owner, bidder1, bidder2, bidder3, bidder4 };
+    }
+
+    async function deployLowestWinningFixture() {
+        return deploy();
+    }
+
+    async function deployHighestLosingFixture() {
+        return deploy({ clearingRule: ClearingRule.HighestLosing });
+    }
+
+    function bid(auction: MultiUnitAuction, units: number, unitPrice: bigint) {
+        return auction.bid(units, unitPrice, { value: BigInt(units) * unitPrice });
+    }
+
+    // Units each bid wins, keyed by bid ID
+    async function fills(auction: MultiUnitAuction) {
+        const [ids, winning] = await auction.getWinningBids();
+        return Object.fromEntries(ids.map((id, index) => [Number(id), Number(winning[index].filled)]));
+    }
+
+    describe("deployment", function () {
+        it("should set the supply, reserve, clearing rule and owner", async function () {
+            const { auction, owner } = await loadFixture(deployHighestLosingFixture);
+
+            expect(await auction.owner()).to.equal(owner.address);
+            expect(await auction.auctionEndTime()).to.equal((await time.latest()) + duration);
+            expect(await auction.quantity()).to.equal(quantity);
+            expect(await auction.reservePrice()).to.equal(e("0.5"));
+            expect(await auction.clearingRule()).to.equal(ClearingRule.HighestLosing);
+        });
+
+        it("should reject a zero duration or quantity", async function () {
+            const MultiUnitAuction = await hre.ethers.getContractFactory("MultiUnitAuction");
+
+            await expect(MultiUnitAuction.deploy(multiUnitConfig({ duration: 0 }))).to.be.revertedWithCustomError(
+                MultiUnitAuction,
+                "InvalidDuration"
+            );
+            await expect(MultiUnitAuction.deploy(multiUnitConfig({ quantity: 0 }))).to.be.revertedWithCustomError(
+                MultiUnitAuction,
+                "InvalidSupply"
+            );
+        });
+    });
+
+    describe("bidding", function () {
+        it("should take payment for every unit bid for", async function () {
+            const { auction, bidder1 } = await loadFixture(deployLowestWinningFixture);
+
+            const tx = bid(auction.connect(bidder1), 4, e("1"));
+
+            await expect(tx).to.emit(auction, "UnitBidPlaced").withArgs(1, bidder1.address, 4, e("1"));
+            await expect(tx).to.changeEtherBalance(bidder1, -e("4"));
+            expect(await auction.deposits(bidder1.address)).to.equal(e("4"));
+            expect(await auction.unitsWon(bidder1.address)).to.equal(4);
+            expect(await auction.unitsSold()).to.equal(4);
+        });
+
+        it("should reject invalid quantities, prices and payments", async function () {
+            const { auction, bidder1 } = await loadFixture(deployLowestWinningFixture);
+            const bidder = auction.connect(bidder1);
+
+            await expect(bid(bidder, 0, e("1")))
+                .to.be.revertedWithCustomError(auction, "InvalidQuantity")
+                .withArgs(0, quantity);
+            await expect(bid(bidder, 11, e("1")))
+                .to.be.revertedWithCustomError(auction, "InvalidQuantity")
+                .withArgs(11, quantity);
+            await expect(bid(bidder, 1, e("0.4")))
+                .to.be.revertedWithCustomError(auction, "UnitPriceTooLow")
+                .withArgs(e("0.4"), e("0.5"));
+            await expect(bidder.bid(2, e("1"), { value: e("1") }))
+                .to.be.revertedWithCustomError(auction, "IncorrectPayment")
+                .withArgs(e("1"), e("2"));
+        });
+
+        it("should record a bid that doesn't beat the lowest winning price as losing", async function () {
+            const { auction, bidder1, bidder2, bidder3 } = await loadFixture(deployLowestWinningFixture);
+            await bid(auction.connect(bidder1), 6, e("1"));
+            await bid(auction.connect(bidder2), 4, e("2"));
+            expect(await auction.minimumUnitPrice()).to.equal(e("0.5"));
+            expect(await auction.minimumWinningPrice()).to.equal(e("1") + BigInt(1));
+
+            await expect(bid(auction.connect(bidder3), 2, e("1")))
+                .to.emit(auction, "UnitBidPlaced")
+                .withArgs(3, bidder3.address, 2, e("1"));
+
+            expect((await auction.bids(3)).filled).to.equal(0);
+            expect(await auction.unitsWon(bidder3.address)).to.equal(0);
+            expect(await auction.deposits(bidder3.address)).to.equal(e("2"));
+            expect(await fills(auction)).to.deep.equal({ 2: 4, 1: 6 });
+        });
+
+        it("should reject bids while paused or after the end", async function () {
+            const { auction, owner, bidder1 } = await loadFixture(deployLowestWinningFixture);
+
+            await auction.connect(owner).setPaused(true);
+            await expect(bid(auction.connect(bidder1), 1, e("1"))).to.be.revertedWithCustomError(
+                auction,
+                "AuctionIsPaused"
+            );
+
+            await auction.connect(owner).setPaused(false);
+            const endTime = await auction.auctionEndTime();
+            await time.increaseTo(endTime);
+            await expect(bid(auction.connect(bidder1), 1, e("1")))
+                .to.be.revertedWithCustomError(auction, "AuctionHasEnded")
+                .withArgs(endTime);
+        });
+    });
+
+    describe("allocation", function () {
+        it("should partially fill the lowest bid when a higher bid takes its units", async function () {
+            const { auction, bidder1, bidder2, bidder3 } = await loadFixture(deployLowestWinningFixture);
+            await bid(auction.connect(bidder1), 6, e("1"));
+            await bid(auction.connect(bidder2), 4, e("2"));
+
+            await bid(auction.connect(bidder3), 3, e("3"));
+
+            expect(await fills(auction)).to.deep.equal({ 3: 3, 2: 4, 1: 3 });
+            expect(await auction.unitsWon(bidder1.address)).to.equal(3);
+            expect(await auction.unitsSold()).to.equal(quantity);
+            expect(await auction.previewClearingPrice()).to.equal(e("1"));
+        });
+
+        it("should drop bids left without units and fill the new margin partially", async function () {
+            const { auction, bidder1, bidder2, bidder3, bidder4 } = await loadFixture(deployLowestWinningFixture);
+            await bid(auction.connect(bidder1), 6, e("1"));
+            await bid(auction.connect(bidder2), 4, e("2"));
+            await bid(auction.connect(bidder3), 3, e("3"));
+
+            // Takes bidder1's last 3 units and 1 of its own
+            await bid(auction.connect(bidder4), 4, e("1.5"));
+
+            expect(await fills(auction)).to.deep.equal({ 3: 3, 2: 4, 4: 3 });
+            expect(await auction.unitsWon(bidder1.address)).to.equal(0);
+            expect(await auction.previewClearingPrice()).to.equal(e("1.5"));
+            expect(await auction.minimumWinningPrice()).to.equal(e("1.5") + BigInt(1));
+        });
+
+        it("should give tied units to the earlier bid", async function () {
+            const { auction, bidder1, bidder2, bidder3, bidder4 } = await loadFixture(deployLowestWinningFixture);
+            await bid(auction.connect(bidder1), 4, e("1"));
+            await bid(auction.connect(bidder2), 2, e("2"));
+            await bid(auction.connect(bidder3), 4, e("1"));
+
+            // The later bid at 1 ETH gives up its units first
+            await bid(auction.connect(bidder4), 3, e("2"));
+
+            const [ids] = await auction.getWinningBids();
+            expect(ids.map(Number)).to.deep.equal([2, 4, 1, 3]);
+            expect(await fills(auction)).to.deep.equal({ 2: 2, 4: 3, 1: 4, 3: 1 });
+
+            await bid(auction.connect(bidder4), 2, e("2"));
+            expect(await fills(auction)).to.deep.equal({ 2: 2, 4: 3, 5: 2, 1: 3 });
+        });
+    });
+
+    describe("clearing price", function () {
+        // 7 units at 2 ETH take every unit of the bid at 1 ETH
+        async function placeBids(auction: MultiUnitAuction) {
+            const [, bidder1, bidder2, bidder3] = await hre.ethers.getSigners();
+            await bid(auction.connect(bidder1), 3, e("3"));
+            await bid(auction.connect(bidder2), 7, e("1"));
+            await bid(auction.connect(bidder3), 7, e("2"));
+        }
+
+        it("should charge the lowest winning price", async function () {
+            const { auction } = await loadFixture(deployLowestWinningFixture);
+            await placeBids(auction);
+
+            expect(await auction.previewClearingPrice()).to.equal(e("2"));
+        });
+
+        it("should charge the highest losing price", async function () {
+            const { auction } = await loadFixture(deployHighestLosingFixture);
+            await placeBids(auction);
+
+            expect(await auction.highestLosingPrice()).to.equal(e("1"));
+            expect(await auction.previewClearingPrice()).to.equal(e("1"));
+        });
+
+        it("should charge the reserve under HighestLosing while no unit has missed out", async function () {
+            const { auction, bidder1 } = await loadFixture(deployHighestLosingFixture);
+            expect(await auction.previewClearingPrice()).to.equal(0);
+
+            await bid(auction.connect(bidder1), 10, e("2"));
+
+            expect(await auction.previewClearingPrice()).to.equal(e("0.5"));
+        });
+
+        it("should charge the highest bid that lost outright", async function () {
+            const { auction, bidder1, bidder2, bidder3 } = await loadFixture(deployHighestLosingFixture);
+            await bid(auction.connect(bidder1), 10, e("2"));
+            await bid(auction.connect(bidder2), 1, e("1.5"));
+            await bid(auction.connect(bidder3), 1, e("1"));
+
+            expect(await auction.highestLosingPrice()).to.equal(e("1.5"));
+            await time.increaseTo(await auction.auctionEndTime());
+            await auction.endAuction();
+            expect(await auction.clearingPrice()).to.equal(e("1.5"));
+            await expect(auction.connect(bidder2).withdrawRefund()).to.changeEtherBalance(bidder2, e("1.5"));
+        });
+
+        it("should count the unfilled part of a marginal bid as losing", async function () {
+            const { auction, bidder1, bidder2 } = await loadFixture(deployHighestLosingFixture);
+            await bid(auction.connect(bidder1), 4, e("3"));
+
+            await bid(auction.connect(bidder2), 8, e("1"));
+
+            expect(await auction.previewClearingPrice()).to.equal(e("1"));
+        });
+    });
+
+    describe("settlement", function () {
+        async function deployEndedFixture() {
+            const fixture = await deploy();
+            const { auction, bidder1, bidder2, bidder3, bidder4 } = fixture;
+            await bid(auction.connect(bidder1), 6, e("1"));
+            await bid(auction.connect(bidder2), 4, e("2"));
+            await bid(auction.connect(bidder3), 3, e("3"));
+            await bid(auction.connect(bidder4), 4, e("1.5"));
+            await time.increaseTo(await auction.auctionEndTime());
+            return fixture;
+        }
+
+        it("should only settle after the end, once", async function () {
+            const { auction, bidder1 } = await loadFixture(deployLowestWinningFixture);
+            await bid(auction.connect(bidder1), 1, e("1"));
+            const endTime = await auction.auctionEndTime();
+            await expect(auction.endAuction())
+                .to.be.revertedWithCustomError(auction, "AuctionStillRunning")
+                .withArgs(endTime);
+
+            await time.increaseTo(endTime);
+            await expect(auction.endAuction()).to.emit(auction, "AuctionEnded").withArgs(1, e("1"));
+            await expect(auction.endAuction()).to.be.revertedWithCustomError(auction, "AuctionAlreadyEnded");
+        });
+
+        it("should refund what each bidder paid above the clearing price", async function () {
+            const { auction, bidder2, bidder3, bidder4 } = await loadFixture(deployEndedFixture);
+            await auction.endAuction();
+            expect(await auction.clearingPrice()).to.equal(e("1.5"));
+
+            // bidder4 won 3 of its 4 units, bidder2 all 4 and bidder3 all 3
+            await expect(auction.connect(bidder4).withdrawRefund())
+                .to.emit(auction, "RefundWithdrawn")
+                .withArgs(bidder4.address, 3, e("1.5"));
+            await expect(auction.connect(bidder2).withdrawRefund()).to.changeEtherBalance(bidder2, e("2"));
+            await expect(auction.connect(bidder3).withdrawRefund()).to.changeEtherBalance(bidder3, e("4.5"));
+            await expect(auction.connect(bidder4).withdrawRefund()).to.be.revertedWithCustomError(
+                auction,
+                "NoRefundAvailable"
+            );
+        });
+
+        it("should refund a bid that lost every unit in full", async function () {
+            const { auction, bidder1 } = await loadFixture(deployEndedFixture);
+            await expect(auction.connect(bidder1).withdrawRefund()).to.be.revertedWithCustomError(
+                auction,
+                "AuctionNotEnded"
+            );
+            await auction.endAuction();
+
+            await expect(auction.connect(bidder1).withdrawRefund())
+                .to.emit(auction, "RefundWithdrawn")
+                .withArgs(bidder1.address, 0, e("6"));
+        });
+
+        it("should pay the owner the clearing price for every unit sold", async function () {
+            const { auction, owner, bidder1, bidder2, bidder3, bidder4 } = await loadFixture(deployEndedFixture);
+            await expect(auction.connect(owner).withdraw()).to.be.revertedWithCustomError(auction, "AuctionNotEnded");
+            await expect(auction.connect(bidder1).withdraw())
+                .to.be.revertedWithCustomError(auction, "NotOwner")
+                .withArgs(bidder1.address);
+            await auction.endAuction();
+
+            await expect(auction.connect(owner).withdraw()).to.changeEtherBalance(owner, e("15"));
+            for (const bidder of [bidder1, bidder2, bidder3, bidder4]) {
+                await auction.connect(bidder).withdrawRefund();
+            }
+            expect(await hre.ethers.provider.getBalance(auction.target)).to.equal(0);
+        });
+
+        it("should report the status in Auction's shape", async function () {
+            const { auction } = await loadFixture(deployEndedFixture);
+            await auction.endAuction();
+
+            const status = await auction.getAuctionStatus();
+            expect(status.endTime).to.equal(await auction.auctionEndTime());
+            expect(status.timeRemaining).to.equal(0);
+            expect(status.isEnded).to.equal(true);
+            expect(status.isPaused).to.equal(false);
+            expect(status.bonusRateBps).to.equal(0);
+            expect(status.remainingBonusReserve).to.equal(0);
+        });
+    });
+});
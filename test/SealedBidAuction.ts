@@ -0,0 +1,405 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { SealedBidAuction } from "../typechain-types";
+import { createSealedBid, Phase, Settlement } from "../scripts/lib/sealedBid";
+import type { SealedBid } from "../scripts/lib/sealedBid";
+
+describe("SealedBidAuction", function () {
+    const commitDuration = 3600;
+    const revealDuration = 1800;
+    const minDeposit = hre.ethers.parseEther("0.1");
+    const forfeitBps = 2000;
+    const bid1 = hre.ethers.parseEther("1");
+    const bid2 = hre.ethers.parseEther("2");
+    const bid3 = hre.ethers.parseEther("3");
+    const deposit = hre.ethers.parseEther("5");
+
+    function sealedBidConfig(overrides: Partial<SealedBidAuction.SealedBidConfigStruct> = {}) {
+        return {
+            commitDuration,
+            revealDuration,
+            reservePrice: 0,
+            minDeposit,
+            forfeitBps,
+            settlement: Settlement.FirstPrice,
+            ...overrides,
+        };
+    }
+
+    async function deploy(overrides: Partial<SealedBidAuction.SealedBidConfigStruct> = {}) {
+        const [owner, bidder1, bidder2, bidder3] = await hre.ethers.getSigners();
+        const SealedBidAuction = await hre.ethers.getContractFactory("SealedBidAuction");
+        const auction = await SealedBidAuction.deploy(sealedBidConfig(overrides));
+        const address = await auction.getAddress();
+
+        const sealed = {
+            bidder1: createSealedBid(address, bidder1.address, bid1),
+            bidder2: createSealedBid(address, bidder2.address, bid2),
+            bidder3: createSealedBid(address, bidder3.address, bid3),
+        };
+
+        return { auction, owner, bidder1, bidder2, bidder3, sealed };
+    }
+
+    async function deployFirstPriceFixture() {
+        return deploy();
+    }
+
+    async function deploySecondPriceFixture() {
+        return deploy({ settlement: Settlement.SecondPrice });
+    }
+
+    async function deployReserveFixture() {
+        return deploy({ settlement: Settlement.SecondPrice, reservePrice: hre.ethers.parseEther("1.5") });
+    }
+
+    // Commits every bid, then moves to the reveal phase
+    async function commitAll(
+        auction: SealedBidAuction,
+        bids: [HardhatEthersSigner, SealedBid][]
+    ) {
+        for (const [bidder, sealed] of bids) {
+            await auction.connect(bidder).commitBid(sealed.commitment, { value: deposit });
+        }
+        await time.increaseTo(await auction.commitEndTime());
+    }
+
+    describe("deployment", function () {
+        it("should set the phases, settlement rule and owner", async function () {
+            const { auction, owner } = await loadFixture(deploySecondPriceFixture);
+            const deployedAt = await time.latest();
+
+            expect(await auction.owner()).to.equal(owner.address);
+            expect(await auction.commitEndTime()).to.equal(deployedAt + commitDuration);
+            expect(await auction.revealEndTime()).to.equal(deployedAt + commitDuration + revealDuration);
+            expect(await auction.settlement()).to.equal(Settlement.SecondPrice);
+            expect(await auction.currentPhase()).to.equal(Phase.Commit);
+        });
+
+        it("should reject zero-length phases and a forfeit above 100%", async function () {
+            const SealedBidAuction = await hre.ethers.getContractFactory("SealedBidAuction");
+
+            await expect(SealedBidAuction.deploy(sealedBidConfig({ commitDuration: 0 }))).to.be.revertedWith(
+                "Commit duration must be greater than zero"
+            );
+            await expect(SealedBidAuction.deploy(sealedBidConfig({ revealDuration: 0 }))).to.be.revertedWith(
+                "Reveal duration must be greater than zero"
+            );
+            await expect(SealedBidAuction.deploy(sealedBidConfig({ forfeitBps: 10_001 }))).to.be.revertedWith(
+                "Forfeit cannot exceed 100%"
+            );
+        });
+    });
+
+    describe("commit phase", function () {
+        it("should record the commitment and deposit", async function () {
+            const { auction, bidder1, sealed } = await loadFixture(deployFirstPriceFixture);
+
+            await expect(auction.connect(bidder1).commitBid(sealed.bidder1.commitment, { value: deposit }))
+                .to.emit(auction, "BidCommitted")
+                .withArgs(bidder1.address, sealed.bidder1.commitment, deposit);
+
+            const stored = await auction.sealedBids(bidder1.address);
+            expect(stored.commitment).to.equal(sealed.bidder1.commitment);
+            expect(stored.deposit).to.equal(deposit);
+            expect(await auction.commitCount()).to.equal(1);
+        });
+
+        it("should match the commitment computed by the contract", async function () {
+            const { auction, bidder1, sealed } = await loadFixture(deployFirstPriceFixture);
+
+            expect(await auction.computeCommitment(bidder1.address, bid1, sealed.bidder1.salt)).to.equal(
+                sealed.bidder1.commitment
+            );
+        });
+
+        it("should reject a deposit below the minimum", async function () {
+            const { auction, bidder1, sealed } = await loadFixture(deployFirstPriceFixture);
+
+            await expect(
+                auction.connect(bidder1).commitBid(sealed.bidder1.commitment, { value: minDeposit - BigInt(1) })
+            )
+                .to.be.revertedWithCustomError(auction, "DepositTooLow")
+                .withArgs(minDeposit - BigInt(1), minDeposit);
+        });
+
+        it("should reject a second commitment from the same bidder", async function () {
+            const { auction, bidder1, sealed } = await loadFixture(deployFirstPriceFixture);
+            await auction.connect(bidder1).commitBid(sealed.bidder1.commitment, { value: deposit });
+
+            await expect(
+                auction.connect(bidder1).commitBid(sealed.bidder1.commitment, { value: deposit })
+            ).to.be.revertedWith("Bid already committed");
+        });
+
+        it("should reject commitments while paused", async function () {
+            const { auction, owner, bidder1, sealed } = await loadFixture(deployFirstPriceFixture);
+            await auction.connect(owner).setPaused(true);
+
+            await expect(
+                auction.connect(bidder1).commitBid(sealed.bidder1.commitment, { value: deposit })
+            ).to.be.revertedWith("Auction is paused");
+        });
+
+        it("should reject commitments once the commit phase is over", async function () {
+            const { auction, bidder1, sealed } = await loadFixture(deployFirstPriceFixture);
+            await time.increaseTo(await auction.commitEndTime());
+
+            await expect(
+                auction.connect(bidder1).commitBid(sealed.bidder1.commitment, { value: deposit })
+            ).to.be.revertedWith("Action not allowed in the current phase");
+        });
+
+        it("should not allow reveals during the commit phase", async function () {
+            const { auction, bidder1, sealed } = await loadFixture(deployFirstPriceFixture);
+            await auction.connect(bidder1).commitBid(sealed.bidder1.commitment, { value: deposit });
+
+            await expect(auction.connect(bidder1).revealBid(bid1, sealed.bidder1.salt)).to.be.revertedWith(
+                "Action not allowed in the current phase"
+            );
+        });
+    });
+
+    describe("reveal phase", function () {
+        it("should accept a matching reveal and track the highest bid", async function () {
+            const { auction, bidder1, bidder2, sealed } = await loadFixture(deployFirstPriceFixture);
+            await commitAll(auction, [
+                [bidder1, sealed.bidder1],
+                [bidder2, sealed.bidder2],
+            ]);
+            expect(await auction.currentPhase()).to.equal(Phase.Reveal);
+
+            await expect(auction.connect(bidder2).revealBid(bid2, sealed.bidder2.salt))
+                .to.emit(auction, "BidRevealed")
+                .withArgs(bidder2.address, bid2);
+            await auction.connect(bidder1).revealBid(bid1, sealed.bidder1.salt);
+
+            expect(await auction.highestBidder()).to.equal(bidder2.address);
+            expect(await auction.highestBid()).to.equal(bid2);
+            expect(await auction.secondHighestBid()).to.equal(bid1);
+            expect(await auction.revealCount()).to.equal(2);
+        });
+
+        it("should reject a reveal that does not match the commitment", async function () {
+            const { auction, bidder1, sealed } = await loadFixture(deployFirstPriceFixture);
+            await commitAll(auction, [[bidder1, sealed.bidder1]]);
+
+            await expect(
+                auction.connect(bidder1).revealBid(bid1 + BigInt(1), sealed.bidder1.salt)
+            ).to.be.revertedWithCustomError(auction, "InvalidReveal");
+        });
+
+        it("should reject a bid larger than its deposit", async function () {
+            const { auction, bidder1 } = await loadFixture(deployFirstPriceFixture);
+            const oversized = createSealedBid(await auction.getAddress(), bidder1.address, deposit + BigInt(1));
+            await commitAll(auction, [[bidder1, oversized]]);
+
+            await expect(auction.connect(bidder1).revealBid(oversized.amount, oversized.salt))
+                .to.be.revertedWithCustomError(auction, "BidExceedsDeposit")
+                .withArgs(oversized.amount, deposit);
+        });
+
+        it("should reject a second reveal and a reveal without a commitment", async function () {
+            const { auction, bidder1, bidder2, sealed } = await loadFixture(deployFirstPriceFixture);
+            await commitAll(auction, [[bidder1, sealed.bidder1]]);
+            await auction.connect(bidder1).revealBid(bid1, sealed.bidder1.salt);
+
+            await expect(auction.connect(bidder1).revealBid(bid1, sealed.bidder1.salt)).to.be.revertedWith(
+                "Bid already revealed"
+            );
+            await expect(auction.connect(bidder2).revealBid(bid2, sealed.bidder2.salt)).to.be.revertedWith(
+                "No committed bid"
+            );
+        });
+
+        it("should accept reveals and return deposits while paused", async function () {
+            const { auction, owner, bidder1, sealed } = await loadFixture(deployFirstPriceFixture);
+            await commitAll(auction, [[bidder1, sealed.bidder1]]);
+            await auction.connect(owner).setPaused(true);
+
+            await expect(auction.connect(bidder1).revealBid(bid1, sealed.bidder1.salt))
+                .to.emit(auction, "BidRevealed")
+                .withArgs(bidder1.address, bid1);
+            expect(await auction.totalForfeit()).to.equal(0);
+
+            await time.increaseTo(await auction.revealEndTime());
+            await auction.endAuction();
+            await expect(auction.connect(bidder1).withdrawDeposit()).to.changeEtherBalance(bidder1, deposit - bid1);
+        });
+
+        it("should not let bids below the reserve compete", async function () {
+            const { auction, bidder1, sealed } = await loadFixture(deployReserveFixture);
+            await commitAll(auction, [[bidder1, sealed.bidder1]]);
+            await auction.connect(bidder1).revealBid(bid1, sealed.bidder1.salt);
+
+            expect(await auction.highestBidder()).to.equal(hre.ethers.ZeroAddress);
+        });
+    });
+
+    describe("settlement", function () {
+        async function revealAllAndEnd(
+            auction: SealedBidAuction,
+            bids: [HardhatEthersSigner, SealedBid][]
+        ) {
+            await commitAll(auction, bids);
+            for (const [bidder, sealed] of bids) {
+                await auction.connect(bidder).revealBid(sealed.amount, sealed.salt);
+            }
+            await time.increaseTo(await auction.revealEndTime());
+            return auction.endAuction();
+        }
+
+        it("should not end before the reveal phase is over", async function () {
+            const { auction, bidder1, sealed } = await loadFixture(deployFirstPriceFixture);
+            await commitAll(auction, [[bidder1, sealed.bidder1]]);
+
+            await expect(auction.endAuction()).to.be.revertedWith("Action not allowed in the current phase");
+        });
+
+        it("should charge the winner their own bid under first-price settlement", async function () {
+            const { auction, bidder1, bidder2, bidder3, sealed } = await loadFixture(deployFirstPriceFixture);
+
+            await expect(
+                revealAllAndEnd(auction, [
+                    [bidder1, sealed.bidder1],
+                    [bidder2, sealed.bidder2],
+                    [bidder3, sealed.bidder3],
+                ])
+            )
+                .to.emit(auction, "AuctionEnded")
+                .withArgs(bidder3.address, bid3);
+            expect(await auction.price()).to.equal(bid3);
+        });
+
+        it("should charge the winner the second-highest bid under Vickrey settlement", async function () {
+            const { auction, bidder1, bidder2, bidder3, sealed } = await loadFixture(deploySecondPriceFixture);
+
+            await expect(
+                revealAllAndEnd(auction, [
+                    [bidder1, sealed.bidder1],
+                    [bidder2, sealed.bidder2],
+                    [bidder3, sealed.bidder3],
+                ])
+            )
+                .to.emit(auction, "AuctionEnded")
+                .withArgs(bidder3.address, bid2);
+        });
+
+        it("should charge a lone Vickrey bidder the reserve price", async function () {
+            const { auction, bidder2, sealed } = await loadFixture(deployReserveFixture);
+
+            await expect(revealAllAndEnd(auction, [[bidder2, sealed.bidder2]]))
+                .to.emit(auction, "AuctionEnded")
+                .withArgs(bidder2.address, hre.ethers.parseEther("1.5"));
+        });
+
+        it("should end with no winner when nobody reveals", async function () {
+            const { auction, bidder1, sealed } = await loadFixture(deployFirstPriceFixture);
+            await commitAll(auction, [[bidder1, sealed.bidder1]]);
+            await time.increaseTo(await auction.revealEndTime());
+
+            await expect(auction.endAuction())
+                .to.emit(auction, "AuctionEnded")
+                .withArgs(hre.ethers.ZeroAddress, 0);
+            await expect(auction.endAuction()).to.be.revertedWith("Auction already ended");
+        });
+    });
+
+    describe("withdrawals", function () {
+        async function settledFixture() {
+            const fixture = await deploySecondPriceFixture();
+            const { auction, bidder1, bidder2, bidder3, sealed } = fixture;
+            await commitAll(auction, [
+                [bidder1, sealed.bidder1],
+                [bidder2, sealed.bidder2],
+                [bidder3, sealed.bidder3],
+            ]);
+            // bidder1 never reveals
+            await auction.connect(bidder2).revealBid(bid2, sealed.bidder2.salt);
+            await auction.connect(bidder3).revealBid(bid3, sealed.bidder3.salt);
+            await time.increaseTo(await auction.revealEndTime());
+            await auction.endAuction();
+            return fixture;
+        }
+
+        it("should not return deposits before the auction has ended", async function () {
+            const { auction, bidder1, sealed } = await loadFixture(deployFirstPriceFixture);
+            await auction.connect(bidder1).commitBid(sealed.bidder1.commitment, { value: deposit });
+
+            await expect(auction.connect(bidder1).withdrawDeposit()).to.be.revertedWith("Auction has not ended");
+        });
+
+        it("should return a losing bidder's full deposit", async function () {
+            const { auction, bidder2 } = await loadFixture(settledFixture);
+
+            const tx = auction.connect(bidder2).withdrawDeposit();
+            await expect(tx).to.emit(auction, "DepositWithdrawn").withArgs(bidder2.address, deposit, 0);
+            await expect(tx).to.changeEtherBalances([bidder2, auction], [deposit, -deposit]);
+            await expect(auction.connect(bidder2).withdrawDeposit()).to.be.revertedWith("No deposit to withdraw");
+        });
+
+        it("should return the winner's deposit less the price", async function () {
+            const { auction, bidder3 } = await loadFixture(settledFixture);
+
+            await expect(auction.connect(bidder3).withdrawDeposit()).to.changeEtherBalance(bidder3, deposit - bid2);
+        });
+
+        it("should forfeit part of the deposit of a bidder who never revealed", async function () {
+            const { auction, bidder1 } = await loadFixture(settledFixture);
+            const forfeited = (deposit * BigInt(forfeitBps)) / BigInt(10_000);
+
+            await expect(auction.connect(bidder1).withdrawDeposit())
+                .to.emit(auction, "DepositWithdrawn")
+                .withArgs(bidder1.address, deposit - forfeited, forfeited);
+        });
+
+        it("should pay the owner the price plus forfeited deposits", async function () {
+            const { auction, owner, bidder1, bidder2, bidder3 } = await loadFixture(settledFixture);
+            const forfeited = (deposit * BigInt(forfeitBps)) / BigInt(10_000);
+
+            await expect(auction.connect(bidder1).withdraw()).to.be.revertedWith(
+                "Only owner can call this function"
+            );
+            await expect(auction.connect(owner).withdraw())
+                .to.emit(auction, "FundsWithdrawn")
+                .withArgs(owner.address, bid2 + forfeited);
+
+            for (const bidder of [bidder1, bidder2, bidder3]) {
+                await auction.connect(bidder).withdrawDeposit();
+            }
+            expect(await hre.ethers.provider.getBalance(auction.target)).to.equal(0);
+        });
+    });
+
+    describe("getAuctionStatus", function () {
+        it("should report the reveal deadline in the same shape as Auction", async function () {
+            const { auction, owner } = await loadFixture(deployFirstPriceFixture);
+            const revealEndTime = await auction.revealEndTime();
+
+            let [endTime, timeRemaining, isEnded, isPaused, bonusRateBps, remainingBonusReserve] =
+                await auction.getAuctionStatus();
+            expect(endTime).to.equal(revealEndTime);
+            expect(timeRemaining).to.equal(revealEndTime - BigInt(await time.latest()));
+            expect(isEnded).to.equal(false);
+            expect(isPaused).to.equal(false);
+            expect(bonusRateBps).to.equal(0);
+            expect(remainingBonusReserve).to.equal(0);
+
+            await auction.connect(owner).setPaused(true);
+            await time.increaseTo(await auction.commitEndTime());
+            [endTime, , , isPaused] = await auction.getAuctionStatus();
+            expect(endTime).to.equal(revealEndTime);
+            expect(isPaused).to.equal(true);
+            expect(await auction.currentPhase()).to.equal(Phase.Reveal);
+
+            await time.increaseTo(revealEndTime);
+            await auction.endAuction();
+            [, timeRemaining, isEnded] = await auction.getAuctionStatus();
+            expect(timeRemaining).to.equal(0);
+            expect(isEnded).to.equal(true);
+            expect(await auction.currentPhase()).to.equal(Phase.Closed);
+        });
+    });
+});
@@ -0,0 +1,202 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { auctionConfig } from "../scripts/lib/auctionFactory";
+import { buildAllowlist } from "../scripts/lib/allowlist";
+import { RelayError, checkSignedBid, relayBid, signBid, signBidPermit } from "../scripts/lib/signedBids";
+
+describe("Signed bids", function () {
+    const e = (eth: string) => hre.ethers.parseEther(eth);
+    const bid1 = e("1");
+    const bid2 = e("2");
+    const bidWithSignature = "bidWithSignature((address,uint256,uint256,uint256),bytes)";
+
+    // bidder1 and bidder2 have 3 ETH deposited each and never send a transaction
+    async function deployAuctionFixture() {
+        const [owner, bidder1, bidder2, relayer, funder] = await hre.ethers.getSigners();
+
+        const Auction = await hre.ethers.getContractFactory("Auction");
+        const auction = await Auction.deploy(auctionConfig());
+        for (const bidder of [bidder1, bidder2]) {
+            await auction.connect(funder)["deposit(address)"](bidder.address, { value: e("3") });
+        }
+
+        return { auction, owner, bidder1, bidder2, relayer, funder };
+    }
+
+    async function deployTokenAuctionFixture() {
+        const [owner, bidder, relayer] = await hre.ethers.getSigners();
+
+        const token = await (await hre.ethers.getContractFactory("MockERC20")).deploy();
+        const Auction = await hre.ethers.getContractFactory("Auction");
+        const auction = await Auction.deploy(auctionConfig({ paymentToken: token.target }));
+        await token.mint(bidder.address, e("10"));
+
+        return { token, auction, owner, bidder, relayer };
+    }
+
+    async function rejection(promise: Promise<unknown>): Promise<RelayError> {
+        const error = await promise.then(
+            () => expect.fail("expected the bid to be rejected"),
+            (error) => error
+        );
+        expect(error).to.be.instanceOf(RelayError);
+        return error;
+    }
+
+    describe("deposits", function () {
+        it("should credit deposits to the bidder's balance", async function () {
+            const { auction, bidder1, funder } = await loadFixture(deployAuctionFixture);
+
+            await expect(auction.connect(funder)["deposit(address)"](bidder1.address, { value: bid1 }))
+                .to.emit(auction, "Deposited")
+                .withArgs(bidder1.address, funder.address, bid1);
+
+            expect(await auction.pendingReturns(bidder1.address)).to.equal(e("4"));
+            expect(await auction.totalPendingReturns()).to.equal(e("7"));
+        });
+
+        it("should let the bidder take back what they have not bid", async function () {
+            const { auction, bidder1, relayer } = await loadFixture(deployAuctionFixture);
+            await relayBid(auction, relayer, await signBid(auction, bidder1, bid1));
+
+            await expect(auction.connect(bidder1).withdrawRefund()).to.changeEtherBalance(bidder1, e("2"));
+        });
+    });
+
+    describe("bidWithSignature", function () {
+        it("should place a relayed bid paid from the bidder's deposit", async function () {
+            const { auction, bidder1, relayer } = await loadFixture(deployAuctionFixture);
+            const authorization = await signBid(auction, bidder1, bid1);
+
+            const tx = relayBid(auction, relayer, authorization);
+
+            await expect(tx).to.emit(auction, "NewBid").withArgs(bidder1.address, bid1);
+            await expect(tx).to.emit(auction, "SignedBidRelayed").withArgs(bidder1.address, relayer.address, 0);
+            await expect(tx).to.changeEtherBalance(bidder1, 0);
+            expect(await auction.highestBidder()).to.equal(bidder1.address);
+            expect(await auction.pendingReturns(bidder1.address)).to.equal(e("2"));
+            expect(await auction.nonces(bidder1.address)).to.equal(1);
+        });
+
+        it("should credit an outbid signed bid back to the deposit", async function () {
+            const { auction, bidder1, bidder2, relayer } = await loadFixture(deployAuctionFixture);
+            await relayBid(auction, relayer, await signBid(auction, bidder1, bid1));
+
+            await relayBid(auction, relayer, await signBid(auction, bidder2, bid2));
+
+            expect(await auction.highestBidder()).to.equal(bidder2.address);
+            // The remaining 2 ETH plus the 1 ETH bid; the bonus reserve is empty
+            expect(await auction.pendingReturns(bidder1.address)).to.equal(e("3"));
+        });
+
+        it("should pull tokens from the bidder through a permit", async function () {
+            const { token, auction, bidder, relayer } = await loadFixture(deployTokenAuctionFixture);
+            const authorization = await signBidPermit(auction, bidder, await signBid(auction, bidder, bid2));
+
+            await relayBid(auction, relayer, authorization);
+
+            expect(await auction.highestBidder()).to.equal(bidder.address);
+            expect(await auction.highestBid()).to.equal(bid2);
+            expect(await token.balanceOf(auction.target)).to.equal(bid2);
+            expect(await token.balanceOf(bidder.address)).to.equal(e("8"));
+        });
+
+        it("should reject a bid larger than the deposit", async function () {
+            const { auction, bidder1, relayer } = await loadFixture(deployAuctionFixture);
+            const { bid, signature } = await signBid(auction, bidder1, e("5"));
+
+            await expect(auction.connect(relayer)[bidWithSignature](bid, signature))
+                .to.be.revertedWithCustomError(auction, "InsufficientDeposit")
+                .withArgs(e("5"), e("3"));
+        });
+
+        it("should reject a signature over different terms", async function () {
+            const { auction, bidder1, bidder2, relayer } = await loadFixture(deployAuctionFixture);
+            const { bid, signature } = await signBid(auction, bidder1, bid1);
+            const submit = auction.connect(relayer)[bidWithSignature];
+
+            await expect(submit({ ...bid, amount: bid2 }, signature)).to.be.revertedWithCustomError(
+                auction,
+                "InvalidSignature"
+            );
+            await expect(submit({ ...bid, bidder: bidder2.address }, signature)).to.be.revertedWithCustomError(
+                auction,
+                "InvalidSignature"
+            );
+        });
+
+        it("should apply the allowlist to the bidder rather than the relayer", async function () {
+            const [owner, bidder, relayer] = await hre.ethers.getSigners();
+            const allowlist = buildAllowlist([{ address: relayer.address, cap: BigInt(0) }]);
+            const auction = await (await hre.ethers.getContractFactory("Auction"))
+                .connect(owner)
+                .deploy(auctionConfig({ allowlistRoot: allowlist.root }));
+            await auction["deposit(address)"](bidder.address, { value: bid1 });
+            const { bid, signature } = await signBid(auction, bidder, bid1);
+
+            await expect(auction.connect(relayer)[bidWithSignature](bid, signature))
+                .to.be.revertedWithCustomError(auction, "NotAllowlisted")
+                .withArgs(bidder.address);
+        });
+    });
+
+    describe("replay protection", function () {
+        it("should reject an expired signature", async function () {
+            const { auction, bidder1, relayer } = await loadFixture(deployAuctionFixture);
+            const deadline = BigInt(await time.latest()) + BigInt(60);
+            const authorization = await signBid(auction, bidder1, bid1, { deadline });
+            await time.increaseTo(deadline + BigInt(1));
+
+            expect((await rejection(checkSignedBid(auction, authorization))).code).to.equal("EXPIRED");
+            await expect(auction.connect(relayer)[bidWithSignature](authorization.bid, authorization.signature))
+                .to.be.revertedWithCustomError(auction, "SignatureExpired")
+                .withArgs(deadline);
+        });
+
+        it("should reject a replayed signature", async function () {
+            const { auction, bidder1, relayer } = await loadFixture(deployAuctionFixture);
+            const authorization = await signBid(auction, bidder1, bid1);
+            await relayBid(auction, relayer, authorization);
+
+            const error = await rejection(relayBid(auction, relayer, authorization));
+            expect(error.code).to.equal("INVALID_NONCE");
+            expect(error.message).to.equal("Nonce 0 has already been used");
+            await expect(auction.connect(relayer)[bidWithSignature](authorization.bid, authorization.signature))
+                .to.be.revertedWithCustomError(auction, "InvalidAccountNonce")
+                .withArgs(bidder1.address, 1);
+        });
+
+        it("should reject a signature made for another chain", async function () {
+            const { auction, bidder1, relayer } = await loadFixture(deployAuctionFixture);
+            const authorization = await signBid(auction, bidder1, bid1, { chainId: BigInt(1) });
+
+            expect((await rejection(relayBid(auction, relayer, authorization))).code).to.equal("WRONG_CHAIN");
+            await expect(
+                auction.connect(relayer)[bidWithSignature](authorization.bid, authorization.signature)
+            ).to.be.revertedWithCustomError(auction, "InvalidSignature");
+        });
+
+        it("should report a signature from someone else before relaying", async function () {
+            const { auction, bidder1, bidder2, relayer } = await loadFixture(deployAuctionFixture);
+            const forged = await signBid(auction, bidder2, bid1);
+
+            const error = await rejection(
+                relayBid(auction, relayer, { ...forged, bid: { ...forged.bid, bidder: bidder1.address } })
+            );
+
+            expect(error.code).to.equal("INVALID_SIGNATURE");
+            expect(await auction.nonces(bidder1.address)).to.equal(0);
+        });
+
+        it("should report reverts found by the simulation", async function () {
+            const { auction, owner, bidder1, relayer } = await loadFixture(deployAuctionFixture);
+            await auction.connect(owner).setPaused(true);
+
+            const error = await rejection(relayBid(auction, relayer, await signBid(auction, bidder1, bid1)));
+
+            expect(error.code).to.equal("REVERTED");
+            expect(error.message).to.equal("The bid would revert: AuctionIsPaused()");
+        });
+    });
+});
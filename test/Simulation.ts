@@ -0,0 +1,124 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+    InvariantViolation,
+    SeededRandom,
+    reportToJson,
+    reportToMarkdown,
+    runSimulation,
+} from "../scripts/lib/simulation";
+import type { SimulationOptions, SimulationReport } from "../scripts/lib/simulation";
+
+describe("Simulation", function () {
+    const steps = 40;
+
+    async function violation(promise: Promise<unknown>): Promise<InvariantViolation> {
+        const error = await promise.then(
+            () => expect.fail("expected an invariant to fail"),
+            (error) => error
+        );
+        expect(error).to.be.instanceOf(InvariantViolation);
+        return error;
+    }
+
+    it("should produce the same numbers from the same seed", function () {
+        const a = new SeededRandom(42);
+        const b = new SeededRandom(42);
+        const c = new SeededRandom(43);
+
+        const sequence = Array.from({ length: 5 }, () => a.int(1000));
+        expect(Array.from({ length: 5 }, () => b.int(1000))).to.deep.equal(sequence);
+        expect(Array.from({ length: 5 }, () => c.int(1000))).not.to.deep.equal(sequence);
+    });
+
+    for (const seed of [1, 2, 3]) {
+        it(`should hold every invariant through seed ${seed}`, async function () {
+            const report = await runSimulation(hre, { seed, steps });
+
+            expect(report.violation).to.equal(undefined);
+            expect(report.paidOut).to.equal(report.paidIn);
+            expect(report.steps.filter((step) => step.action === "bid" && step.status === "ok")).not.to.be.empty;
+            expect(await hre.ethers.provider.getBalance(report.auction)).to.equal(0);
+        });
+    }
+
+    it("should replay a seed exactly", async function () {
+        const first = await runSimulation(hre, { seed: 7, steps });
+        const second = await runSimulation(hre, { seed: 7, steps });
+
+        // Reverts can name absolute times, which move with the chain's clock
+        const normalize = (report: SimulationReport) =>
+            reportToJson({
+                ...report,
+                auction: "",
+                steps: report.steps.map((step) => ({ ...step, error: step.error?.replace(/\(.*/, "") })),
+            });
+        expect(second.auction).not.to.equal(first.auction);
+        expect(normalize(second)).to.equal(normalize(first));
+    });
+
+    it("should balance every actor's P&L against the auction's", async function () {
+        const report = await runSimulation(hre, { seed: 11, steps });
+
+        const sent = report.actors.reduce((total, actor) => total + actor.sent, BigInt(0));
+        const received = report.actors.reduce((total, actor) => total + actor.received, BigInt(0));
+        expect(sent).to.equal(report.paidIn);
+        expect(received).to.equal(report.paidOut);
+        expect(report.gas.map((entry) => entry.action)).to.include.members(["deploy", "settle"]);
+    });
+
+    it("should stop at the failing step and fail there again on replay", async function () {
+        const ceiling = hre.ethers.parseEther("2");
+        const options: SimulationOptions = {
+            seed: 5,
+            steps,
+            invariants: {
+                highestBidCeiling: (current) =>
+                    current.highestBid > ceiling ? `highest bid is ${current.highestBid}` : undefined,
+            },
+        };
+
+        const error = await violation(runSimulation(hre, options));
+        const replayed = await violation(runSimulation(hre, options));
+
+        expect(error.invariant).to.equal("highestBidCeiling");
+        expect(error.seed).to.equal(5);
+        expect(error.message).to.match(/^Invariant "highestBidCeiling" failed at step \d+ of seed 5: /);
+        expect(error.report.steps).to.have.length(error.step);
+        expect(error.report.violation).to.contain("highestBidCeiling");
+        expect(replayed.step).to.equal(error.step);
+        expect(replayed.message).to.equal(error.message);
+    });
+
+    it("should write the report as JSON and Markdown", async function () {
+        const report = await runSimulation(hre, { seed: 1, steps: 10, bidders: 2 });
+
+        const json = JSON.parse(reportToJson(report));
+        expect(json.seed).to.equal(1);
+        expect(json.paidIn).to.equal(report.paidIn.toString());
+        expect(json.actors.map((actor: { name: string }) => actor.name)).to.deep.equal([
+            "owner",
+            "keeper",
+            "treasury",
+            "bidder1",
+            "bidder2",
+        ]);
+
+        const markdown = reportToMarkdown(report);
+        expect(markdown).to.contain("# Auction simulation, seed 1");
+        expect(markdown).to.contain("## Actors");
+        expect(markdown).to.contain("## Gas");
+        expect(markdown).to.contain(`| ${report.steps.length} |`);
+    });
+
+    it("should reject token auctions and impossible bidder counts", async function () {
+        const token = await (await hre.ethers.getContractFactory("MockERC20")).deploy();
+
+        await expect(
+            runSimulation(hre, { seed: 1, config: { paymentToken: await token.getAddress() } })
+        ).to.be.rejectedWith("Only ETH auctions can be simulated");
+        await expect(runSimulation(hre, { seed: 1, bidders: 0 })).to.be.rejectedWith(
+            "The simulation needs between 1 and 17 bidders, got 0"
+        );
+    });
+});